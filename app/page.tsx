@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useRef, useEffect } from "react"
-import { Upload, FileText, Download, Loader2, Check, ChevronLeft, ChevronRight, Sparkles } from "lucide-react"
+import { Upload, FileText, Download, Loader2, Check, ChevronLeft, ChevronRight, Sparkles, Search } from "lucide-react"
 
 type AppState = "idle" | "processing" | "completed" | "enhancing"
 
@@ -25,9 +25,14 @@ export default function Home() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
   const [progress, setProgress] = useState(0)
   const [jobId, setJobId] = useState<string | null>(null)
-  const [results, setResults] = useState<ExtractedReference[]>([])
+  const [results, setResults] = useState<ExtractedReference[]>([])  // Current page of the master table
+  const [total, setTotal] = useState(0)
+  const [matched, setMatched] = useState(0)  // References matching the search
+  const [withAffiliation, setWithAffiliation] = useState(0)
+  const [search, setSearch] = useState("")
   const [error, setError] = useState<string | null>(null)
   const [currentPage, setCurrentPage] = useState(1)
+  const [pageCursors, setPageCursors] = useState<(string | undefined)[]>([undefined])  // Cursor of each page reached so far
   const [rowsPerPage, setRowsPerPage] = useState(25)
   const [stats, setStats] = useState<{ added: number; duplicates: number } | null>(null)
   const [enhancementJobId, setEnhancementJobId] = useState<string | null>(null)
@@ -44,20 +49,39 @@ export default function Home() {
     uploadSectionRef.current?.scrollIntoView({ behavior: "smooth" })
   }
 
-  const loadMasterTable = async () => {
+  // Load one page of the master table; the server searches (?q=) and pages (?limit=, ?cursor=)
+  // Returns the table's total, or null if it could not be loaded
+  const loadMasterTable = async (page = 1, q = search, limit = rowsPerPage): Promise<number | null> => {
+    const cursors = page === 1 ? [undefined] : pageCursors.slice(0, page)
     try {
-      console.log('[FRONTEND] Loading master table...')
-      const response = await fetch('/api/master')
-      if (response.ok) {
-        const data = await response.json()
-        setResults(data.references || [])
-        if (data.references && data.references.length > 0) {
-          setAppState("completed")
-          console.log(`[FRONTEND] Loaded ${data.references.length} references from master table`)
-        }
+      console.log(`[FRONTEND] Loading master table page ${page}...`)
+      const params = new URLSearchParams({ limit: String(limit) })
+      if (cursors[page - 1]) params.set('cursor', cursors[page - 1]!)
+      if (q.trim()) params.set('q', q.trim())
+      const [response, affiliated] = await Promise.all([
+        fetch(`/api/master?${params}`),
+        fetch('/api/master?hasAffiliation=true&limit=1'),
+      ])
+      if (!response.ok) return null
+
+      const data = await response.json()
+      cursors[page] = data.nextCursor
+      setPageCursors(cursors)
+      setCurrentPage(page)
+      setResults(data.references || [])
+      setTotal(data.total || 0)
+      setMatched(data.matched || 0)
+      if (affiliated.ok) {
+        setWithAffiliation((await affiliated.json()).matched || 0)
+      }
+      if (data.total > 0) {
+        setAppState("completed")
+        console.log(`[FRONTEND] Loaded ${data.references.length} of ${data.matched} references from master table`)
       }
+      return data.total || 0
     } catch (err) {
       console.warn('[FRONTEND] Could not load master table:', err)
+      return null
     }
   }
 
@@ -77,6 +101,9 @@ export default function Home() {
       
       if (response.ok) {
         setResults([])
+        setTotal(0)
+        setMatched(0)
+        setWithAffiliation(0)
         setAppState("idle")
         alert('✅ Master table cleared! You can now start fresh.')
       } else {
@@ -158,11 +185,8 @@ export default function Home() {
           }
           
           // Load master table (includes all references + new ones)
-          const masterBefore = results.length
-          await loadMasterTable()
-          const masterResponse = await fetch('/api/master')
-          const masterData = await masterResponse.json()
-          const masterAfter = masterData.total || 0
+          const masterBefore = total
+          const masterAfter = (await loadMasterTable()) ?? masterBefore
           
           // Calculate stats
           const added = Math.max(0, masterAfter - masterBefore)
@@ -179,6 +203,12 @@ export default function Home() {
           return
         }
 
+        if (status.status === 'cancelled') {
+          setError('Extraction was cancelled')
+          setAppState("idle")
+          return
+        }
+
         attempts++
         setTimeout(poll, 2000)
       } catch (error) {
@@ -199,6 +229,10 @@ export default function Home() {
     window.open(`/api/master/download/excel`, '_blank')
   }
 
+  const downloadBibtex = async () => {
+    window.open(`/api/master/download/bibtex`, '_blank')
+  }
+
   const handleEnhance = async () => {
     if (appState !== "completed") return
 
@@ -284,7 +318,7 @@ export default function Home() {
     poll()
   }
 
-  const totalPages = Math.ceil(results.length / rowsPerPage)
+  const totalPages = Math.max(1, Math.ceil(matched / rowsPerPage))
 
   return (
     <div className="min-h-screen bg-white">
@@ -331,13 +365,13 @@ export default function Home() {
             <div className="flex items-center justify-between mb-6">
               <div>
                 <h3 className="text-2xl font-semibold text-black">Upload PDF</h3>
-                {results.length > 0 && (
+                {total > 0 && (
                   <p className="text-sm text-gray-600 mt-1">
-                    📊 Master table has <span className="font-semibold text-black">{results.length} references</span>
+                    📊 Master table has <span className="font-semibold text-black">{total} references</span>
                   </p>
                 )}
               </div>
-              {results.length > 0 && (
+              {total > 0 && (
                 <div className="flex gap-2">
                   <button
                     onClick={handleClearTable}
@@ -350,7 +384,7 @@ export default function Home() {
             </div>
 
             {/* Info banner */}
-            {results.length > 0 ? (
+            {total > 0 ? (
               <div className="mb-6 bg-blue-50 border border-blue-200 rounded-lg p-4">
                 <p className="text-sm text-blue-900">
                   <span className="font-semibold">➕ Add More Mode:</span> Uploading a new PDF will add references to your existing master table. Duplicates will be automatically skipped.
@@ -477,7 +511,7 @@ export default function Home() {
         )}
 
         {/* Results */}
-        {(appState === "completed" || appState === "enhancing") && results.length > 0 && (
+        {(appState === "completed" || appState === "enhancing") && total > 0 && (
           <div className="space-y-6">
             {/* Progress Stepper */}
             <div className="bg-white border-2 border-gray-200 rounded-lg p-6">
@@ -497,20 +531,20 @@ export default function Home() {
                   </div>
                   <span className="text-xs font-medium text-black">Extract</span>
                 </div>
-                <div className={`flex-1 h-0.5 -mx-2 ${results.some(r => r.firstAuthorAffiliation) ? 'bg-black' : 'bg-gray-300'}`}></div>
+                <div className={`flex-1 h-0.5 -mx-2 ${withAffiliation > 0 ? 'bg-black' : 'bg-gray-300'}`}></div>
                 {/* Enhance */}
                 <div className="flex flex-col items-center flex-1">
                   <div className={`w-10 h-10 rounded-full flex items-center justify-center mb-2 ${
-                    results.some(r => r.firstAuthorAffiliation) ? 'bg-black' : 'bg-gray-300'
+                    withAffiliation > 0 ? 'bg-black' : 'bg-gray-300'
                   }`}>
-                    {results.some(r => r.firstAuthorAffiliation) ? (
+                    {withAffiliation > 0 ? (
                       <Check className="h-5 w-5 text-white" />
                     ) : (
                       <Sparkles className="h-5 w-5 text-gray-500" />
                     )}
                   </div>
                   <span className={`text-xs font-medium ${
-                    results.some(r => r.firstAuthorAffiliation) ? 'text-black' : 'text-gray-500'
+                    withAffiliation > 0 ? 'text-black' : 'text-gray-500'
                   }`}>Enhance</span>
                 </div>
                 <div className="flex-1 h-0.5 bg-gray-300 -mx-2"></div>
@@ -529,15 +563,15 @@ export default function Home() {
               <div>
                 <h3 className="text-2xl font-semibold text-black">Master References Table</h3>
                 <p className="text-gray-600 mt-1">
-                  {results.length} references total
+                  {total} references total
                   {stats && (
                     <span className="text-green-700 font-medium ml-2">
                       ({stats.added} new, {stats.duplicates} duplicates skipped)
                     </span>
                   )}
-                  {results.some(r => r.firstAuthorAffiliation) && (
+                  {withAffiliation > 0 && (
                     <span className="text-black font-medium ml-2">
-                      • {results.filter(r => r.firstAuthorAffiliation).length} affiliations found
+                      • {withAffiliation} affiliations found
                     </span>
                   )}
                 </p>
@@ -556,7 +590,7 @@ export default function Home() {
                 </button>
                 <button
                   onClick={handleEnhance}
-                  disabled={appState === "enhancing" || results.every(r => r.firstAuthorAffiliation)}
+                  disabled={appState === "enhancing" || withAffiliation === total}
                   className="inline-flex items-center px-4 py-2 border border-gray-300 bg-transparent text-black rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed"
                 >
                   <Sparkles className="mr-2 h-4 w-4" />
@@ -569,11 +603,39 @@ export default function Home() {
                   <Download className="mr-1 h-3 w-3" />
                   CSV
                 </button>
+                <button
+                  onClick={downloadBibtex}
+                  className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-lg text-xs font-medium text-black hover:bg-gray-50 transition-colors"
+                >
+                  <Download className="mr-1 h-3 w-3" />
+                  BibTeX
+                </button>
               </div>
             </div>
 
             {/* Table */}
             <div className="bg-white border-2 border-gray-200 rounded-lg overflow-hidden">
+              {/* Search */}
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  loadMasterTable(1)
+                }}
+                className="flex items-center gap-2 border-b-2 border-gray-200 px-6 py-4"
+              >
+                <Search className="h-4 w-4 text-gray-400" />
+                <input
+                  type="search"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search authors, titles, journals..."
+                  className="flex-1 text-sm text-black outline-none"
+                />
+                {search.trim() && (
+                  <span className="text-sm text-gray-600">{matched} matching</span>
+                )}
+              </form>
+
               <div className="overflow-x-auto">
                 <table className="w-full">
                   <thead className="bg-gray-50 border-b-2 border-gray-200">
@@ -593,8 +655,12 @@ export default function Home() {
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-gray-200">
+                    {results.length === 0 && (
+                      <tr>
+                        <td colSpan={12} className="px-4 py-6 text-center text-sm text-gray-500">No references match the search</td>
+                      </tr>
+                    )}
                     {results
-                      .slice((currentPage - 1) * rowsPerPage, currentPage * rowsPerPage)
                       .map((ref, index) => {
                         const globalIndex = (currentPage - 1) * rowsPerPage + index
                         
@@ -633,7 +699,7 @@ export default function Home() {
                     value={rowsPerPage}
                     onChange={(e) => {
                       setRowsPerPage(Number(e.target.value))
-                      setCurrentPage(1)
+                      loadMasterTable(1, search, Number(e.target.value))
                     }}
                     className="border border-gray-300 rounded px-2 py-1 text-sm bg-white"
                   >
@@ -649,15 +715,15 @@ export default function Home() {
                   </span>
                   <div className="flex gap-2">
                     <button
-                      onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+                      onClick={() => loadMasterTable(currentPage - 1)}
                       disabled={currentPage === 1}
                       className="p-2 border border-gray-300 rounded disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-100 transition-colors"
                     >
                       <ChevronLeft className="h-4 w-4" />
                     </button>
                     <button
-                      onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
-                      disabled={currentPage === totalPages}
+                      onClick={() => loadMasterTable(currentPage + 1)}
+                      disabled={!pageCursors[currentPage]}
                       className="p-2 border border-gray-300 rounded disabled:opacity-50 disabled:cursor-not-allowed hover:bg-gray-100 transition-colors"
                     >
                       <ChevronRight className="h-4 w-4" />
@@ -2,16 +2,58 @@
  * Configuration for LLM-only extraction
  */
 
+import path from 'path'
 import { config as loadEnv } from 'dotenv'
 
 // Load .env file
 loadEnv()
 
 export default {
+  // LLM provider for extraction: openai | openai-compatible | anthropic | fixture
+  LLM_PROVIDER: process.env.LLM_PROVIDER || 'openai',
+
   // OpenAI (for extraction)
   OPENAI_API_KEY: process.env.OPENAI_API_KEY || '',
   OPENAI_MODEL: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+
+  // OpenAI-compatible server (Ollama, vLLM, LM Studio, ...)
+  LLM_BASE_URL: process.env.LLM_BASE_URL || '',   // e.g. http://localhost:11434/v1
+  LLM_API_KEY: process.env.LLM_API_KEY || '',
+  LLM_MODEL: process.env.LLM_MODEL || 'llama3.1',
+  LLM_STRUCTURED_OUTPUTS: process.env.LLM_STRUCTURED_OUTPUTS === 'true', // server supports json_schema
+
+  // Anthropic
+  ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY || '',
+  ANTHROPIC_MODEL: process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5',
+
+  // Fixture provider (recorded responses for CI / offline runs)
+  LLM_FIXTURE_DIR: process.env.LLM_FIXTURE_DIR || path.join(process.cwd(), 'llm-fixtures'),
+  LLM_FIXTURE_RECORD_FROM: process.env.LLM_FIXTURE_RECORD_FROM || '', // provider to record misses from
+
+  // Identifier ingestion (DOI / arXiv / PMID / ISBN): online | fixture
+  METADATA_RESOLVER: process.env.METADATA_RESOLVER || 'online',
+  METADATA_FIXTURE_DIR: process.env.METADATA_FIXTURE_DIR || path.join(process.cwd(), 'metadata-fixtures'),
+  METADATA_FIXTURE_RECORD_FROM: process.env.METADATA_FIXTURE_RECORD_FROM || '', // resolver to record misses from
+  METADATA_TIMEOUT_MS: parseInt(process.env.METADATA_TIMEOUT_MS || '15000', 10),
+  METADATA_CONCURRENCY: parseInt(process.env.METADATA_CONCURRENCY || '4', 10),
+  CROSSREF_MAILTO: process.env.CROSSREF_MAILTO || '', // contact address for Crossref's polite pool
+
+  // Chunking of long bibliographies
+  LLM_CHUNK_CHARS: parseInt(process.env.LLM_CHUNK_CHARS || '15000', 10),
+  LLM_CHUNK_OVERLAP_ENTRIES: parseInt(process.env.LLM_CHUNK_OVERLAP_ENTRIES || '2', 10),
+
+  // Parallel chunk calls, retries and cost accounting
+  LLM_MAX_CONTINUATIONS: parseInt(process.env.LLM_MAX_CONTINUATIONS || '3', 10), // re-asks after truncated responses
+  LLM_CONCURRENCY: parseInt(process.env.LLM_CONCURRENCY || '3', 10),
+  LLM_MAX_RETRIES: parseInt(process.env.LLM_MAX_RETRIES || '5', 10),
+  LLM_RETRY_BASE_MS: parseInt(process.env.LLM_RETRY_BASE_MS || '1000', 10),
+  LLM_RETRY_MAX_MS: parseInt(process.env.LLM_RETRY_MAX_MS || '60000', 10),
+  LLM_INPUT_COST_PER_MTOK: parseFloat(process.env.LLM_INPUT_COST_PER_MTOK || '0.15'),   // USD, gpt-4o-mini
+  LLM_OUTPUT_COST_PER_MTOK: parseFloat(process.env.LLM_OUTPUT_COST_PER_MTOK || '0.6'),  // USD, gpt-4o-mini
   
+  // Master table duplicate review: pair score (0-1) from which two references count as one work
+  DUPLICATE_THRESHOLD: parseFloat(process.env.DUPLICATE_THRESHOLD || '0.75'),
+
   // Perplexity (for enhancement - optional)
   PERPLEXITY_API_KEY: process.env.PERPLEXITY_API_KEY || '',
   
@@ -20,6 +62,20 @@ export default {
   PORT: parseInt(process.env.BACKEND_PORT || '3001', 10),
   HOST: process.env.HOST || '0.0.0.0',
   
+  // SQLite database holding the master table and extraction jobs
+  DATABASE_FILE: process.env.DATABASE_FILE || path.join(process.cwd(), 'data', 'biblio.db'),
+
+  // Job queue (persisted, survives restarts)
+  JOB_QUEUE_DIR: process.env.JOB_QUEUE_DIR || path.join(process.cwd(), 'extraction-queue'),
+  JOB_CONCURRENCY: parseInt(process.env.JOB_CONCURRENCY || '1', 10),
+  JOB_MAX_ATTEMPTS: parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10), // interrupted runs before giving up
+
   // File limits
   MAX_FILE_SIZE: parseInt(process.env.MAX_FILE_SIZE || '10485760', 10), // 10MB
+  MAX_ARCHIVE_SIZE: parseInt(process.env.MAX_ARCHIVE_SIZE || '209715200', 10), // 200MB per ZIP upload
+  MAX_BATCH_FILES: parseInt(process.env.MAX_BATCH_FILES || '100', 10), // PDFs per /extract request
+  MAX_EXPANDED_SIZE: parseInt(process.env.MAX_EXPANDED_SIZE || '524288000', 10), // 500MB of PDFs per /extract request, ZIP entries uncompressed
+
+  // OCR
+  OCR_RENDER_DPI: parseInt(process.env.OCR_RENDER_DPI || '300', 10),
 }
@@ -6,17 +6,42 @@
  * 2. Perplexity AI (smart, flexible, paid)
  * 3. OpenAlex API (fallback, free)
  * 
+ * Every author of a reference is looked up at once: one paper found on Semantic Scholar or
+ * OpenAlex gives the affiliations of all its authors. Perplexity answers for one name per
+ * request, so it is only asked about the first author.
+ * 
  * Expected accuracy: 85-90%
  * Cost: ~$0.02 per 50 references
  */
 
 import { info, warn, error as logError } from '../utils/logging'
 import config from '../config'
+import { Author, AuthorAffiliation } from '../types-simple'
+import { authorsMatch, parseAuthorName, formatAuthorName } from '../extraction/authors'
+
+// An institution one tier found for one author
+type FoundInstitution = Pick<AuthorAffiliation, 'institution' | 'countryCode'>
+
+// The parts of the API responses read here
+interface SemanticScholarSearch {
+  data?: { year?: number; authors?: { authorId: string | null; name?: string }[] }[]
+}
 
-export interface AffiliationResult {
-  affiliation: string | null
-  confidence: 'high' | 'medium' | 'low'
-  source: 'semantic-scholar' | 'perplexity' | 'openalex' | 'none' | 'error' | 'skipped-historical'
+type SemanticScholarAuthorBatch = ({ affiliations?: string[] } | null)[]
+
+interface PerplexityCompletion {
+  choices?: { message?: { content?: string } }[]
+}
+
+interface OpenAlexWork {
+  authorships?: {
+    author?: { display_name?: string }
+    institutions?: { display_name: string; country_code?: string | null }[]
+  }[]
+}
+
+interface OpenAlexWorks {
+  results?: OpenAlexWork[]
 }
 
 const SEMANTIC_SCHOLAR_BASE = 'https://api.semanticscholar.org/graph/v1'
@@ -25,64 +50,74 @@ const PERPLEXITY_BASE = 'https://api.perplexity.ai/chat/completions'
 const USER_AGENT = 'mailto:reference-extractor@example.com'
 
 /**
- * Find affiliation using 3-tier hybrid approach
+ * Find the affiliations of a reference's authors using the 3-tier hybrid approach
+ * Returns one entry per author (null where no tier found one).
  */
-export async function findAffiliation(
-  authorName: string,
+export async function findAuthorAffiliations(
+  authors: Author[],
   paperTitle: string,
   year: string
-): Promise<AffiliationResult> {
-  if (!authorName || !paperTitle) {
-    return { affiliation: null, confidence: 'low', source: 'openalex' }
+): Promise<(AuthorAffiliation | null)[]> {
+  const results: (AuthorAffiliation | null)[] = authors.map(() => null)
+  if (authors.length === 0 || !paperTitle) {
+    return results
   }
 
   // Skip historical works (before 1900) - likely historical figures, not modern academics
   const yearNum = parseInt(year)
   if (yearNum && yearNum < 1900) {
     info(`Skipping historical work from ${year} - no modern affiliation expected`)
-    return { affiliation: null, confidence: 'low', source: 'skipped-historical' }
+    return results
   }
 
+  const fill = (found: (FoundInstitution | null)[], source: AuthorAffiliation['source'], confidence: AuthorAffiliation['confidence']) => {
+    found.forEach((institution, i) => {
+      if (institution && !results[i]) {
+        results[i] = { ...institution, source, confidence, foundAt: new Date().toISOString() }
+      }
+    })
+  }
+  const missing = () => results.filter(result => !result).length
+
   try {
-    info(`Finding affiliation for: ${authorName} - ${paperTitle.substring(0, 50)}...`)
+    info(`Finding affiliations for ${authors.length} author(s) - ${paperTitle.substring(0, 50)}...`)
     
     // TIER 1: Semantic Scholar (fast, structured)
     info(`[Tier 1] Trying Semantic Scholar...`)
-    const semanticResult = await searchSemanticScholar(authorName, paperTitle, year)
-    if (semanticResult) {
-      info(`✅ [Semantic Scholar] Found: ${semanticResult}`)
-      return { affiliation: semanticResult, confidence: 'high', source: 'semantic-scholar' }
-    }
-    info(`[Tier 1] Semantic Scholar: not found`)
-    
-    // TIER 2: Perplexity AI (smart, expensive)
-    if (config.PERPLEXITY_API_KEY) {
-      info(`[Tier 2] Trying Perplexity AI...`)
-      const perplexityResult = await searchPerplexity(authorName, paperTitle, year)
-      if (perplexityResult) {
-        info(`✅ [Perplexity AI] Found: ${perplexityResult}`)
-        return { affiliation: perplexityResult, confidence: 'high', source: 'perplexity' }
+    fill(await searchSemanticScholar(authors, paperTitle, year), 'semantic-scholar', 'high')
+    info(`[Tier 1] Semantic Scholar: ${authors.length - missing()}/${authors.length} found`)
+    
+    // TIER 2: Perplexity AI (smart, expensive) - first author only
+    if (!results[0]) {
+      if (config.PERPLEXITY_API_KEY) {
+        info(`[Tier 2] Trying Perplexity AI...`)
+        const perplexityResult = await searchPerplexity(formatAuthorName(authors[0]), paperTitle, year)
+        if (perplexityResult) {
+          info(`✅ [Perplexity AI] Found: ${perplexityResult}`)
+          fill([splitCountryCode(perplexityResult)], 'perplexity', 'high')
+        } else {
+          info(`[Tier 2] Perplexity AI: not found`)
+        }
+      } else {
+        warn('[Perplexity] API key not configured, skipping tier 2')
       }
-      info(`[Tier 2] Perplexity AI: not found`)
-    } else {
-      warn('[Perplexity] API key not configured, skipping tier 2')
     }
     
     // TIER 3: OpenAlex (fallback, broad)
-    info(`[Tier 3] Trying OpenAlex...`)
-    const openalexResult = await searchOpenAlex(authorName, paperTitle, year)
-    if (openalexResult) {
-      info(`✅ [OpenAlex] Found: ${openalexResult}`)
-      return { affiliation: openalexResult, confidence: 'medium', source: 'openalex' }
+    if (missing() > 0) {
+      info(`[Tier 3] Trying OpenAlex...`)
+      fill(await searchOpenAlex(authors, paperTitle, year), 'openalex', 'medium')
+      info(`[Tier 3] OpenAlex: ${authors.length - missing()}/${authors.length} found`)
     }
-    info(`[Tier 3] OpenAlex: not found`)
 
-    warn(`❌ No affiliation found for: ${authorName}`)
-    return { affiliation: null, confidence: 'low', source: 'openalex' }
+    if (missing() === authors.length) {
+      warn(`❌ No affiliation found for: ${authors.map(formatAuthorName).join('; ')}`)
+    }
+    return results
     
   } catch (err) {
-    logError(`Error finding affiliation for ${authorName}:`, err)
-    return { affiliation: null, confidence: 'low', source: 'openalex' }
+    logError(`Error finding affiliations for ${paperTitle.substring(0, 50)}:`, err)
+    return results
   }
 }
 
@@ -92,10 +127,11 @@ export async function findAffiliation(
  * Rate limit: 1 request per second (100 requests per 5 minutes)
  */
 async function searchSemanticScholar(
-  authorName: string,
+  authors: Author[],
   title: string,
   year: string
-): Promise<string | null> {
+): Promise<(FoundInstitution | null)[]> {
+  const none = authors.map(() => null)
   try {
     const cleanTitle = cleanText(title).substring(0, 200)
     
@@ -113,13 +149,13 @@ async function searchSemanticScholar(
     
     if (!response.ok) {
       warn(`[Semantic Scholar] API error: ${response.status}`)
-      return null
+      return none
     }
     
-    const data = await response.json()
+    const data = await response.json() as SemanticScholarSearch
     
     if (!data.data || data.data.length === 0) {
-      return null
+      return none
     }
     
     for (const paper of data.data) {
@@ -128,54 +164,55 @@ async function searchSemanticScholar(
         continue
       }
       
-      // Check if author is in paper
-      if (paper.authors) {
-        for (const author of paper.authors) {
-          if (authorsMatch(authorName, author.name || '')) {
-            // Found matching paper! Get author details with affiliation
-            const affiliation = await getSemanticScholarAuthorAffiliation(author.authorId)
-            if (affiliation) {
-              return affiliation
-            }
-          }
-        }
+      // Pair our authors with the paper's; the first paper naming any of them is the match
+      const paperAuthors = paper.authors || []
+      const matched = authors.map(author => paperAuthors.filter(candidate => matchesName(author, candidate.name || ''))[0] || null)
+      if (matched.some(Boolean)) {
+        return getSemanticScholarAffiliations(matched.map(candidate => candidate && candidate.authorId))
       }
     }
     
-    return null
+    return none
   } catch (err) {
     logError('[Semantic Scholar] Error:', err)
-    return null
+    return none
   }
 }
 
 /**
- * Get author affiliation from Semantic Scholar author endpoint
+ * Get the affiliations of several authors in one request to the Semantic Scholar author batch endpoint
  */
-async function getSemanticScholarAuthorAffiliation(authorId: string): Promise<string | null> {
-  if (!authorId) return null
+async function getSemanticScholarAffiliations(authorIds: (string | null)[]): Promise<(FoundInstitution | null)[]> {
+  const ids = authorIds.filter((id): id is string => Boolean(id))
+  if (ids.length === 0) return authorIds.map(() => null)
   
   try {
-    const authorUrl = `${SEMANTIC_SCHOLAR_BASE}/author/${authorId}?fields=affiliations,name`
+    await delay(1000)
     
-    const response = await fetch(authorUrl, {
+    const response = await fetch(`${SEMANTIC_SCHOLAR_BASE}/author/batch?fields=affiliations,name`, {
+      method: 'POST',
       headers: {
         'User-Agent': USER_AGENT,
+        'Content-Type': 'application/json',
       },
+      body: JSON.stringify({ ids }),
     })
     
-    if (!response.ok) return null
+    if (!response.ok) return authorIds.map(() => null)
     
-    const author = await response.json()
-    
-    if (author.affiliations && author.affiliations.length > 0) {
-      // Return the most recent affiliation
-      return author.affiliations[0]
-    }
-    
-    return null
+    // One entry per requested ID, in order (null for unknown IDs)
+    const found = await response.json() as SemanticScholarAuthorBatch
+    const affiliations = new Map<string, FoundInstitution>()
+    ids.forEach((id, i) => {
+      const author = found[i]
+      if (author && author.affiliations && author.affiliations.length > 0) {
+        // The most recent affiliation
+        affiliations.set(id, splitCountryCode(author.affiliations[0]))
+      }
+    })
+    return authorIds.map(id => (id && affiliations.get(id)) || null)
   } catch (err) {
-    return null
+    return authorIds.map(() => null)
   }
 }
 
@@ -227,7 +264,7 @@ If not found: "Unknown"`
       return null
     }
     
-    const data = await response.json()
+    const data = await response.json() as PerplexityCompletion
     let answer = data.choices?.[0]?.message?.content?.trim()
     
     if (!answer || answer === 'Unknown' || answer.includes('not found') || answer.includes('cannot')) {
@@ -271,10 +308,11 @@ If not found: "Unknown"`
  * TIER 3: OpenAlex API (fallback)
  */
 async function searchOpenAlex(
-  authorName: string,
+  authors: Author[],
   title: string,
   year: string
-): Promise<string | null> {
+): Promise<(FoundInstitution | null)[]> {
+  const none = authors.map(() => null)
   try {
     const cleanTitle = cleanText(title)
     
@@ -293,51 +331,47 @@ async function searchOpenAlex(
     })
     
     if (!response.ok) {
-      return null
+      return none
     }
     
-    const data = await response.json()
+    const data = await response.json() as OpenAlexWorks
     
     if (!data.results || data.results.length === 0) {
-      return null
+      return none
     }
     
     // Get the first result's author affiliations
     const work = data.results[0]
-    return extractAffiliationFromWork(work, authorName)
+    return extractAffiliationsFromWork(work, authors)
   } catch (err) {
-    return null
+    return none
   }
 }
 
 /**
- * Extract affiliation from OpenAlex work metadata
+ * Extract each author's affiliation from OpenAlex work metadata
  */
-function extractAffiliationFromWork(work: any, targetAuthor: string): string | null {
-  if (!work.authorships || work.authorships.length === 0) {
-    return null
-  }
-  
-  const normalizedTarget = normalizeAuthorName(targetAuthor)
+function extractAffiliationsFromWork(work: OpenAlexWork, authors: Author[]): (FoundInstitution | null)[] {
+  const authorships = work.authorships || []
   
-  for (const authorship of work.authorships) {
-    const authorName = authorship.author?.display_name || ''
-    
-    // Check if this is the target author using smart matching
-    if (authorsMatch(targetAuthor, authorName)) {
-      if (authorship.institutions && authorship.institutions.length > 0) {
-        const institution = authorship.institutions[0]
-        const institutionName = institution.display_name
-        const country = institution.country_code ? ` (${institution.country_code})` : ''
-        return `${institutionName}${country}`
-      }
+  const found = authors.map(author => {
+    // Check which authorship is this author using smart matching
+    const authorship = authorships.filter(candidate => matchesName(author, candidate.author?.display_name || ''))[0]
+    if (!authorship || !authorship.institutions || authorship.institutions.length === 0) {
+      return null
     }
-  }
+    const institution = authorship.institutions[0]
+    const result: FoundInstitution = { institution: institution.display_name }
+    if (institution.country_code) result.countryCode = institution.country_code
+    return result
+  })
   
-  // IMPORTANT: Only return affiliation if author name matched!
+  // IMPORTANT: Only return affiliations of authors whose names matched!
   // Don't grab random affiliations from wrong papers
-  warn(`[OpenAlex] Author name mismatch: searched for "${targetAuthor}" but work has different authors`)
-  return null
+  if (authorships.length > 0 && !authors.some(author => authorships.some(candidate => matchesName(author, candidate.author?.display_name || '')))) {
+    warn(`[OpenAlex] Author name mismatch: searched for "${formatAuthorName(authors[0])}" but work has different authors`)
+  }
+  return found
 }
 
 /**
@@ -351,50 +385,18 @@ function cleanText(text: string): string {
 }
 
 /**
- * Normalize author name for matching
+ * Whether a name as an API writes it likely refers to the author ("Norbert Wiener" for "Wiener, N.")
  */
-function normalizeAuthorName(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/[^\w\s]/g, '')
-    .replace(/\s+/g, ' ')
-    .trim()
+function matchesName(author: Author, name: string): boolean {
+  return Boolean(name) && authorsMatch(author, parseAuthorName(name))
 }
 
 /**
- * Smart author name matching - handles initials, full names, etc.
- * Returns true if names likely refer to the same person
+ * "Google Brain (US)" → Google Brain, US
  */
-function authorsMatch(name1: string, name2: string): boolean {
-  const n1 = normalizeAuthorName(name1)
-  const n2 = normalizeAuthorName(name2)
-  
-  // Exact match
-  if (n1 === n2) return true
-  
-  // One contains the other
-  if (n1.includes(n2) || n2.includes(n1)) return true
-  
-  // Extract last names (last word)
-  const parts1 = n1.split(' ')
-  const parts2 = n2.split(' ')
-  const lastName1 = parts1[parts1.length - 1]
-  const lastName2 = parts2[parts2.length - 1]
-  
-  // Last names must match
-  if (lastName1 !== lastName2) return false
-  
-  // If last names match, check first initials
-  const firstInit1 = parts1[0]?.[0] || ''
-  const firstInit2 = parts2[0]?.[0] || ''
-  
-  // First initials must match (or one is empty)
-  if (firstInit1 && firstInit2 && firstInit1 !== firstInit2) {
-    return false
-  }
-  
-  // Last name matches + first initial matches (or one has no first name)
-  return true
+function splitCountryCode(affiliation: string): FoundInstitution {
+  const match = affiliation.trim().match(/^(.+?)\s*\(([A-Z]{2})\)$/)
+  return match ? { institution: match[1], countryCode: match[2] } : { institution: affiliation.trim() }
 }
 
 /**
@@ -3,24 +3,28 @@
  * 
  * Coordinates the enhancement process:
  * 1. Load references from master table
- * 2. Find affiliations for each first author
- * 3. Update master table with results
+ * 2. Find affiliations for every author of each reference
+ * 3. Update master table with results (the author list; the first author's
+ *    affiliation also fills firstAuthorAffiliation)
  * 4. Track progress and status
  */
 
 import { randomUUID } from 'crypto'
-import { loadMasterTable, saveMasterTable } from '../extraction/masterTable'
-import { findAffiliation, delay } from './affiliationFinder'
-import { ExtractedReference } from '../types-simple'
+import { loadMasterTable, getReference, updateReference, MasterTableError } from '../extraction/masterTable'
+import { findAuthorAffiliations } from './affiliationFinder'
+import { authorsMatch, formatAffiliation } from '../extraction/authors'
+import { Author, AuthorAffiliation } from '../types-simple'
 import { info, warn, error as logError } from '../utils/logging'
 
 export interface EnhancementJob {
   jobId: string
+  collection: string         // Collection whose master table is enhanced
   status: 'processing' | 'completed' | 'failed'
   progress: number           // 0-100
   totalReferences: number
   processedReferences: number
   enhancedReferences: number
+  enhancedAuthors: number    // Authors given an affiliation
   error?: string
   createdAt: string
   completedAt?: string
@@ -30,18 +34,20 @@ export interface EnhancementJob {
 const enhancementJobs = new Map<string, EnhancementJob>()
 
 /**
- * Start enhancement process
+ * Start enhancement process for one collection
  */
-export function startEnhancement(): string {
+export function startEnhancement(collection: string): string {
   const jobId = randomUUID()
   
   const job: EnhancementJob = {
     jobId,
+    collection,
     status: 'processing',
     progress: 0,
     totalReferences: 0,
     processedReferences: 0,
     enhancedReferences: 0,
+    enhancedAuthors: 0,
     createdAt: new Date().toISOString(),
   }
   
@@ -81,7 +87,7 @@ async function processEnhancement(jobId: string): Promise<void> {
     info(`\n🚀 Starting enhancement job ${jobId}`)
     
     // Load master table
-    const references = await loadMasterTable()
+    const references = await loadMasterTable(job.collection)
     job.totalReferences = references.length
     info(`📚 Loaded ${references.length} references from master table`)
     
@@ -89,9 +95,9 @@ async function processEnhancement(jobId: string): Promise<void> {
       throw new Error('No references found in master table')
     }
     
-    // Filter references that need affiliation enhancement
+    // Filter references with an author (not an organisation) still lacking an affiliation
     const needsEnhancement = references.filter(ref => 
-      !ref.firstAuthorAffiliation && ref.firstAuthor
+      (ref.authors || []).some(author => !author.affiliation && !author.literal)
     )
     
     info(`🔍 ${needsEnhancement.length} references need affiliation enhancement`)
@@ -111,26 +117,22 @@ async function processEnhancement(jobId: string): Promise<void> {
       
       info(`\n📖 [${i + 1}/${needsEnhancement.length}] Processing: ${ref.citationKey || ref.title?.substring(0, 50)}`)
       
-      // Find affiliation
-      const result = await findAffiliation(
-        ref.firstAuthor,
-        ref.title,
-        ref.year
-      )
+      // Find affiliations (one lookup for all authors)
+      const authors = ref.authors || []
+      const found = await findAuthorAffiliations(authors, ref.title, ref.year)
       
-      // Update reference in master table
-      if (result.affiliation) {
-        // Find by citation key (primary match)
-        const refIndex = references.findIndex(r => 
-          r.citationKey && ref.citationKey && r.citationKey === ref.citationKey
-        )
-        
-        if (refIndex !== -1) {
-          references[refIndex].firstAuthorAffiliation = result.affiliation
-          enhanced++
-          info(`✅ Added affiliation: ${result.affiliation}`)
-        } else {
-          warn(`Could not find reference to update: ${ref.citationKey}`)
+      // Update reference in master table (by ID, so edits made meanwhile are kept)
+      if (found.some(Boolean)) {
+        try {
+          const added = await addAffiliations(job.collection, ref.id!, authors, found, jobId)
+          if (added > 0) {
+            enhanced++
+            job.enhancedAuthors += added
+            info(`✅ Added ${added} affiliation(s)`)
+          }
+        } catch (err) {
+          if (!(err instanceof MasterTableError)) throw err
+          warn(`Could not update reference ${ref.citationKey || ref.id}: ${err.message}`)
         }
       }
       
@@ -142,15 +144,12 @@ async function processEnhancement(jobId: string): Promise<void> {
       // No delay needed here - delays are in API calls themselves
     }
     
-    // Save updated master table
-    await saveMasterTable(references)
-    
     // Mark job as completed
     job.status = 'completed'
     job.progress = 100
     job.completedAt = new Date().toISOString()
     
-    info(`\n✅ Enhancement completed: ${enhanced}/${needsEnhancement.length} affiliations found`)
+    info(`\n✅ Enhancement completed: ${job.enhancedAuthors} affiliations found for ${enhanced}/${needsEnhancement.length} references`)
     
   } catch (err) {
     logError(`Enhancement job ${jobId} failed:`, err)
@@ -161,6 +160,38 @@ async function processEnhancement(jobId: string): Promise<void> {
   }
 }
 
+/**
+ * Give the authors of the stored reference the affiliations found for them; returns how many
+ * were added. Authors are matched by name, so a list edited during the lookup is respected and
+ * affiliations already set (by a curator, or an earlier job) are kept.
+ */
+async function addAffiliations(
+  collection: string,
+  id: string,
+  lookedUp: Author[],
+  found: (AuthorAffiliation | null)[],
+  jobId: string
+): Promise<number> {
+  const current = await getReference(collection, id)
+  if (!current || !current.authors) {
+    throw new MasterTableError(`No reference with ID ${id}`, 404)
+  }
+  
+  let added = 0
+  const authors = current.authors.map(author => {
+    if (author.affiliation) return author
+    const index = lookedUp.map((candidate, i) => i).filter(i => found[i] && authorsMatch(lookedUp[i], author))[0]
+    if (index === undefined) return author
+    added++
+    return { ...author, affiliation: formatAffiliation(found[index]!), affiliationDetails: found[index]! }
+  })
+  
+  if (added > 0) {
+    await updateReference(collection, id, { authors }, { kind: 'enhancement', jobId })
+  }
+  return added
+}
+
 /**
  * Get all enhancement jobs
  */
@@ -0,0 +1,235 @@
+/**
+ * Reading-list annotations: tags, notes, reading status and star ratings
+ * Stored in their own table keyed by reference ID, so extraction, enhancement and edits of
+ * the bibliographic fields never overwrite them. They outlive a deleted reference, so
+ * reverting the deletion brings them back.
+ */
+
+import Database from 'better-sqlite3'
+import { ReferenceAnnotations } from '../types-simple'
+import { getDatabase, transaction } from './database'
+
+export const READING_STATUSES = ['to-read', 'reading', 'read'] as const
+
+export type ReadingStatus = typeof READING_STATUSES[number]
+
+const MAX_TAG_LENGTH = 50
+
+export interface AnnotationUpdate {
+  tags?: string[]            // Replaces the list
+  addTags?: string[]
+  removeTags?: string[]
+  notes?: string
+  readingStatus?: ReadingStatus | null   // null clears
+  rating?: number | null
+}
+
+export type AnnotationEditResult =
+  | { ok: true; values: AnnotationUpdate }
+  | { ok: false; reasons: string[] }
+
+interface AnnotationRow {
+  reference_id: string
+  tags: string
+  notes: string
+  reading_status: ReadingStatus | null
+  rating: number | null
+  updated_at: string
+  updated_by: string | null
+}
+
+function toAnnotations(row: AnnotationRow): ReferenceAnnotations {
+  const annotations: ReferenceAnnotations = {
+    tags: JSON.parse(row.tags) as string[],
+    notes: row.notes,
+    updatedAt: row.updated_at,
+  }
+  if (row.reading_status) annotations.readingStatus = row.reading_status
+  if (row.rating !== null) annotations.rating = row.rating
+  if (row.updated_by) annotations.updatedBy = row.updated_by
+  return annotations
+}
+
+/**
+ * Tags compare case-insensitively: "Cybernetics " and "cybernetics" are the same tag
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+function validateTags(field: string, value: unknown, reasons: string[]): string[] | undefined {
+  if (value === null) return []
+  if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) {
+    reasons.push(`${field} must be a list of strings`)
+    return undefined
+  }
+  const tags = Array.from(new Set((value as string[]).map(normalizeTag).filter(tag => tag.length > 0)))
+  tags.forEach(tag => {
+    if (tag.length > MAX_TAG_LENGTH) reasons.push(`tag "${tag.substring(0, 20)}…" is longer than ${MAX_TAG_LENGTH} characters`)
+    if (tag.indexOf(',') !== -1) reasons.push(`tag "${tag}" contains a comma`)
+  })
+  return tags
+}
+
+/**
+ * Validate an annotation update; unknown fields are rejected like in reference edits
+ */
+export function validateAnnotationEdit(body: unknown): AnnotationEditResult {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, reasons: ['body must be a JSON object'] }
+  }
+
+  const raw = body as Record<string, unknown>
+  const reasons: string[] = []
+  const values: AnnotationUpdate = {}
+
+  Object.keys(raw).forEach(field => {
+    const value = raw[field]
+    if (field === 'tags' || field === 'addTags' || field === 'removeTags') {
+      values[field] = validateTags(field, value, reasons)
+    } else if (field === 'notes') {
+      if (value !== null && typeof value !== 'string') reasons.push('notes must be a string')
+      else values.notes = value === null ? '' : value.trim()
+    } else if (field === 'readingStatus') {
+      if (value !== null && READING_STATUSES.indexOf(value as ReadingStatus) === -1) {
+        reasons.push(`readingStatus must be one of ${READING_STATUSES.join(', ')} (or null)`)
+      } else {
+        values.readingStatus = value as ReadingStatus | null
+      }
+    } else if (field === 'rating') {
+      if (value !== null && !(typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 5)) {
+        reasons.push('rating must be a whole number of stars from 1 to 5 (or null)')
+      } else {
+        values.rating = value as number | null
+      }
+    } else {
+      reasons.push(`${field} is not an annotation field (tags, addTags, removeTags, notes, readingStatus, rating)`)
+    }
+  })
+
+  if (values.tags && (values.addTags || values.removeTags)) {
+    reasons.push('send either tags or addTags / removeTags')
+  }
+  if (Object.keys(raw).length === 0) {
+    reasons.push('no fields to update')
+  }
+
+  if (reasons.length > 0) {
+    return { ok: false, reasons }
+  }
+  return { ok: true, values }
+}
+
+function selectAnnotations(connection: Database.Database, referenceId: string): ReferenceAnnotations | null {
+  const row = connection.prepare('SELECT * FROM reference_annotations WHERE reference_id = ?').get(referenceId) as AnnotationRow | undefined
+  return row ? toAnnotations(row) : null
+}
+
+function writeAnnotations(connection: Database.Database, referenceId: string, annotations: ReferenceAnnotations): void {
+  connection.prepare(`
+    INSERT OR REPLACE INTO reference_annotations (reference_id, tags, notes, reading_status, rating, updated_at, updated_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    referenceId, JSON.stringify(annotations.tags), annotations.notes, annotations.readingStatus ?? null,
+    annotations.rating ?? null, annotations.updatedAt, annotations.updatedBy ?? null
+  )
+}
+
+/**
+ * Annotations of one reference (null if it has none)
+ */
+export async function getAnnotations(referenceId: string): Promise<ReferenceAnnotations | null> {
+  return selectAnnotations(getDatabase(), referenceId)
+}
+
+/**
+ * Annotations of every reference in a collection that has some, by reference ID
+ */
+export async function loadAnnotations(collection: string): Promise<Map<string, ReferenceAnnotations>> {
+  const rows = getDatabase().prepare(`
+    SELECT a.* FROM reference_annotations a
+    JOIN master_references r ON r.id = a.reference_id
+    WHERE r.collection_id = ?
+  `).all(collection) as AnnotationRow[]
+
+  const annotations = new Map<string, ReferenceAnnotations>()
+  rows.forEach(row => annotations.set(row.reference_id, toAnnotations(row)))
+  return annotations
+}
+
+/**
+ * Apply a validated update (the caller checks the reference exists)
+ */
+export async function updateAnnotations(referenceId: string, update: AnnotationUpdate, user?: string): Promise<ReferenceAnnotations> {
+  const db = getDatabase()
+  return transaction(() => {
+    const current = selectAnnotations(db, referenceId) || { tags: [], notes: '', updatedAt: '' }
+    let tags = update.tags || current.tags
+    if (update.addTags) tags = Array.from(new Set(tags.concat(update.addTags)))
+    if (update.removeTags) tags = tags.filter(tag => update.removeTags!.indexOf(tag) === -1)
+
+    const annotations: ReferenceAnnotations = {
+      tags,
+      notes: update.notes !== undefined ? update.notes : current.notes,
+      updatedAt: new Date().toISOString(),
+    }
+    const readingStatus = update.readingStatus !== undefined ? update.readingStatus : current.readingStatus
+    const rating = update.rating !== undefined ? update.rating : current.rating
+    if (readingStatus) annotations.readingStatus = readingStatus
+    if (rating) annotations.rating = rating
+    if (user) annotations.updatedBy = user
+
+    writeAnnotations(db, referenceId, annotations)
+    return annotations
+  })
+}
+
+/**
+ * Tags used in a collection with how many references carry each, most used first
+ */
+export async function listTags(collection: string): Promise<{ tag: string; count: number }[]> {
+  const counts = new Map<string, number>()
+  ;(await loadAnnotations(collection)).forEach(annotations => {
+    annotations.tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1))
+  })
+
+  const tags: { tag: string; count: number }[] = []
+  counts.forEach((count, tag) => tags.push({ tag, count }))
+  return tags.sort((a, b) => b.count - a.count || (a.tag < b.tag ? -1 : 1))
+}
+
+// ===========================================
+// ROW HELPERS (callers run them inside transactions)
+// ===========================================
+
+/**
+ * Give a copied reference the annotations of its original
+ */
+export function copyAnnotations(connection: Database.Database, fromId: string, toId: string): void {
+  const annotations = selectAnnotations(connection, fromId)
+  if (annotations) writeAnnotations(connection, toId, annotations)
+}
+
+/**
+ * Combine the annotations of merged references onto the one that remains
+ * Tags are united and notes joined; status and rating come from the first member that has them.
+ */
+export function mergeAnnotations(connection: Database.Database, memberIds: string[], targetId: string): void {
+  const ordered = [targetId].concat(memberIds.filter(id => id !== targetId))
+  const found = ordered
+    .map(id => selectAnnotations(connection, id))
+    .filter((annotations): annotations is ReferenceAnnotations => annotations !== null)
+  if (found.length === 0) return
+
+  const merged: ReferenceAnnotations = {
+    tags: Array.from(new Set(found.reduce<string[]>((tags, annotations) => tags.concat(annotations.tags), []))),
+    notes: Array.from(new Set(found.map(annotations => annotations.notes).filter(Boolean))).join('\n\n'),
+    updatedAt: new Date().toISOString(),
+  }
+  const withStatus = found.filter(annotations => annotations.readingStatus)[0]
+  const withRating = found.filter(annotations => annotations.rating)[0]
+  if (withStatus) merged.readingStatus = withStatus.readingStatus
+  if (withRating) merged.rating = withRating.rating
+
+  writeAnnotations(connection, targetId, merged)
+}
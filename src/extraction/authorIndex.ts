@@ -0,0 +1,312 @@
+/**
+ * Authors index: the people behind a collection's author lists
+ *
+ * - Name variants ("N. Wiener", "Norbert Wiener", "Wiener, N.") are clustered with
+ *   authorsMatch; a shared ORCID always joins, different ORCIDs never do
+ * - A name that fits several clusters ("Smith, J." next to John and Jane Smith) joins the one
+ *   already holding that spelling, or stays apart rather than joining the wrong one
+ * - Curators merge and split clusters; the decision is stored per reference and name in
+ *   author_assignments, and names added later still join a curated cluster they fit
+ */
+
+import { createHash, randomUUID } from 'crypto'
+import { Author, AuthorEntity, ExtractedReference } from '../types-simple'
+import { getDatabase, transaction } from './database'
+import { loadMasterTable, MasterTableError } from './masterTable'
+import { authorsMatch, formatAuthorName, referenceAuthorList } from './authors'
+import { normalizeForComparison } from '../utils/similarity'
+import { info } from '../utils/logging'
+
+interface Mention {
+  reference: ExtractedReference
+  index: number              // Table index of the reference
+  position: number           // 1 = first author
+  author: Author
+  name: string               // As written: "Wiener, N."
+  key: string                // Normalized name (the assignment key)
+}
+
+interface Cluster {
+  id: string
+  curated: boolean
+  mentions: Mention[]
+  variants: Map<string, Mention[]>   // By key
+  orcids: Set<string>
+}
+
+export interface AuthorReference {
+  position: number
+  name: string
+  reference: ExtractedReference
+}
+
+function assignmentKey(referenceId: string, key: string): string {
+  return `${referenceId}\u0000${key}`
+}
+
+/**
+ * Every named author of every reference, in table order (a name repeated in one list counts once)
+ */
+function collectMentions(references: ExtractedReference[]): Mention[] {
+  const mentions: Mention[] = []
+  references.forEach((reference, index) => {
+    const seen = new Set<string>()
+    referenceAuthorList(reference).authors.forEach((author, i) => {
+      const name = formatAuthorName(author)
+      const key = normalizeForComparison(name)
+      if (!author.family || !key || seen.has(key)) return
+      seen.add(key)
+      mentions.push({ reference, index, position: i + 1, author, name, key })
+    })
+  })
+  return mentions
+}
+
+/**
+ * Clusters that can hold the same name: organisations by their name, people by the last
+ * word of the family name ("De Morgan" and "Morgan" with particle "De" meet)
+ */
+function bucketKey(author: Author): string {
+  const family = normalizeForComparison(author.family)
+  return author.literal ? `org:${family}` : family.split(' ').pop() || ''
+}
+
+function addMention(cluster: Cluster, mention: Mention): void {
+  cluster.mentions.push(mention)
+  cluster.variants.set(mention.key, (cluster.variants.get(mention.key) || []).concat(mention))
+  if (mention.author.orcid) cluster.orcids.add(mention.author.orcid)
+}
+
+function fits(cluster: Cluster, mention: Mention): boolean {
+  // Co-authors of one reference are different people
+  if (cluster.mentions.some(other => other.reference === mention.reference)) return false
+  if (mention.author.orcid && cluster.orcids.size > 0) return cluster.orcids.has(mention.author.orcid)
+  let all = true
+  cluster.variants.forEach(variant => {
+    if (all && !authorsMatch(variant[0].author, mention.author)) all = false
+  })
+  return all
+}
+
+/**
+ * The variant with the most given-name information, then the most used
+ */
+function fullestVariant(cluster: Cluster): Mention[] {
+  const variants: Mention[][] = []
+  cluster.variants.forEach(variant => variants.push(variant))
+  return variants.sort((a, b) =>
+    b[0].author.given.replace(/[^\w]/g, '').length - a[0].author.given.replace(/[^\w]/g, '').length ||
+    b.length - a.length ||
+    a[0].index - b[0].index
+  )[0]
+}
+
+function autoClusterId(cluster: Cluster): string {
+  const orcids = Array.from(cluster.orcids).sort().join(',')
+  return createHash('sha1').update(`${fullestVariant(cluster)[0].key}|${orcids}`).digest('hex').substring(0, 12)
+}
+
+/**
+ * Cluster the author names of a collection
+ * Assigned names form their curated clusters first. The others are placed fullest first
+ * (names with an ORCID, then by given-name length), so "N. Wiener" is only decided once the
+ * "Norbert" and "Nathan" it could belong to are known.
+ */
+function clusterMentions(mentions: Mention[], assignments: Map<string, string>): Cluster[] {
+  const clusters: Cluster[] = []
+  const curated = new Map<string, Cluster>()
+  const buckets = new Map<string, Cluster[]>()
+  const addToBucket = (cluster: Cluster, author: Author) => {
+    const bucket = buckets.get(bucketKey(author)) || []
+    if (bucket.indexOf(cluster) === -1) buckets.set(bucketKey(author), bucket.concat(cluster))
+  }
+  const open: Mention[] = []
+
+  mentions.forEach(mention => {
+    const id = assignments.get(assignmentKey(mention.reference.id!, mention.key))
+    if (!id) {
+      open.push(mention)
+      return
+    }
+    let cluster = curated.get(id)
+    if (!cluster) {
+      cluster = { id, curated: true, mentions: [], variants: new Map(), orcids: new Set() }
+      curated.set(id, cluster)
+      clusters.push(cluster)
+    }
+    addMention(cluster, mention)
+    addToBucket(cluster, mention.author)
+  })
+
+  open
+    .sort((a, b) =>
+      Number(Boolean(b.author.orcid)) - Number(Boolean(a.author.orcid)) ||
+      b.author.given.length - a.author.given.length ||
+      a.index - b.index || a.position - b.position
+    )
+    .forEach(mention => {
+      const candidates = (buckets.get(bucketKey(mention.author)) || []).filter(cluster => fits(cluster, mention))
+      const sameOrcid = candidates.filter(cluster => Boolean(mention.author.orcid) && cluster.orcids.has(mention.author.orcid!))
+      const sameName = candidates.filter(cluster => cluster.variants.has(mention.key))
+      let cluster = sameOrcid[0] || (candidates.length === 1 ? candidates[0] : sameName.length === 1 ? sameName[0] : null)
+      if (!cluster) {
+        cluster = { id: '', curated: false, mentions: [], variants: new Map(), orcids: new Set() }
+        clusters.push(cluster)
+      }
+      addMention(cluster, mention)
+      addToBucket(cluster, mention.author)
+    })
+
+  // Derived IDs, kept apart from the curated ones and from each other
+  const used = new Set<string>()
+  clusters.forEach(cluster => { if (cluster.curated) used.add(cluster.id) })
+  clusters
+    .filter(cluster => !cluster.curated)
+    .sort((a, b) => a.mentions[0].index - b.mentions[0].index)
+    .forEach(cluster => {
+      const base = autoClusterId(cluster)
+      let id = base
+      for (let n = 2; used.has(id); n++) id = `${base}-${n}`
+      cluster.id = id
+      used.add(id)
+    })
+
+  clusters.forEach(cluster => cluster.mentions.sort((a, b) => a.index - b.index))
+  return clusters
+}
+
+function toEntity(cluster: Cluster): AuthorEntity {
+  const fullest = fullestVariant(cluster)[0]
+  const author: Author = { ...fullest.author }
+  delete author.orcid
+  delete author.affiliation
+
+  const variants: { name: string; references: number }[] = []
+  cluster.variants.forEach(variant => variants.push({ name: variant[0].name, references: variant.length }))
+  const affiliations = Array.from(new Set(
+    cluster.mentions.map(mention => mention.author.affiliation).filter((affiliation): affiliation is string => Boolean(affiliation))
+  ))
+
+  const entity: AuthorEntity = {
+    id: cluster.id,
+    name: fullest.name,
+    author,
+    variants: variants.sort((a, b) => b.references - a.references),
+    affiliations,
+    references: new Set(cluster.mentions.map(mention => mention.reference.id)).size,
+    curated: cluster.curated,
+  }
+  if (cluster.orcids.size > 0) entity.orcid = Array.from(cluster.orcids)[0]
+  return entity
+}
+
+function loadAssignments(collection: string): Map<string, string> {
+  const rows = getDatabase().prepare(`
+    SELECT a.reference_id, a.name, a.author_id FROM author_assignments a
+    JOIN master_references r ON r.id = a.reference_id
+    WHERE r.collection_id = ?
+  `).all(collection) as { reference_id: string; name: string; author_id: string }[]
+
+  const assignments = new Map<string, string>()
+  rows.forEach(row => assignments.set(assignmentKey(row.reference_id, row.name), row.author_id))
+  return assignments
+}
+
+async function clusterCollection(collection: string): Promise<Cluster[]> {
+  const references = await loadMasterTable(collection)
+  return clusterMentions(collectMentions(references), loadAssignments(collection))
+}
+
+function findCluster(clusters: Cluster[], id: string): Cluster {
+  const cluster = clusters.filter(candidate => candidate.id === id)[0]
+  if (!cluster) {
+    throw new MasterTableError(`No author ${id}`, 404)
+  }
+  return cluster
+}
+
+function assign(mentions: Mention[], authorId: string, user?: string): void {
+  const insert = getDatabase().prepare(`
+    INSERT OR REPLACE INTO author_assignments (reference_id, name, author_id, assigned_at, assigned_by)
+    VALUES (?, ?, ?, ?, ?)
+  `)
+  const assignedAt = new Date().toISOString()
+  mentions.forEach(mention => insert.run(mention.reference.id, mention.key, authorId, assignedAt, user ?? null))
+}
+
+/**
+ * All authors of a collection, most referenced first
+ * `q` keeps the authors with a variant containing it (accents and case ignored).
+ */
+export async function listAuthors(collection: string, q?: string): Promise<AuthorEntity[]> {
+  const needle = normalizeForComparison(q || '')
+  return (await clusterCollection(collection))
+    .map(toEntity)
+    .filter(entity => !needle || entity.variants.some(variant => normalizeForComparison(variant.name).indexOf(needle) !== -1))
+    .sort((a, b) => b.references - a.references || (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+}
+
+/**
+ * One author with the references naming them, in table order (null if unknown)
+ */
+export async function getAuthor(collection: string, id: string): Promise<{ author: AuthorEntity; references: AuthorReference[] } | null> {
+  const cluster = (await clusterCollection(collection)).filter(candidate => candidate.id === id)[0]
+  if (!cluster) return null
+  return {
+    author: toEntity(cluster),
+    references: cluster.mentions.map(mention => ({ position: mention.position, name: mention.name, reference: mention.reference })),
+  }
+}
+
+/**
+ * Merge authors into the first of them, which keeps its ID
+ */
+export async function mergeAuthors(collection: string, ids: string[], user?: string): Promise<AuthorEntity> {
+  const distinct = Array.from(new Set(ids))
+  if (distinct.length < 2) {
+    throw new MasterTableError('Merging needs at least two author IDs', 400)
+  }
+
+  const clusters = await clusterCollection(collection)
+  const members = distinct.map(id => findCluster(clusters, id))
+  const target = members[0].id
+  transaction(() => members.forEach(member => assign(member.mentions, target, user)))
+  info(`Merged ${members.length} authors into ${target}`)
+
+  return toEntity(findCluster(await clusterCollection(collection), target))
+}
+
+/**
+ * Move the names an author has in some references (or the given spellings) to a new author
+ * Both parts are fixed by the split, so the names do not cluster back together.
+ */
+export async function splitAuthor(
+  collection: string,
+  id: string,
+  selection: { referenceIds?: string[]; names?: string[] },
+  user?: string
+): Promise<{ author: AuthorEntity; split: AuthorEntity }> {
+  const cluster = findCluster(await clusterCollection(collection), id)
+  const names = (selection.names || []).map(normalizeForComparison)
+  const selected = (mention: Mention) =>
+    (selection.referenceIds || []).indexOf(mention.reference.id!) !== -1 || names.indexOf(mention.key) !== -1
+
+  const moving = cluster.mentions.filter(selected)
+  const staying = cluster.mentions.filter(mention => !selected(mention))
+  if (moving.length === 0) {
+    throw new MasterTableError(`None of the given references or names belong to author ${id}`, 400)
+  }
+  if (staying.length === 0) {
+    throw new MasterTableError(`That would move every reference of author ${id}; nothing to split`, 400)
+  }
+
+  const splitId = randomUUID().replace(/-/g, '').substring(0, 12)
+  transaction(() => {
+    assign(staying, cluster.id, user)
+    assign(moving, splitId, user)
+  })
+  info(`Split ${moving.length} reference(s) off author ${cluster.id} into ${splitId}`)
+
+  const clusters = await clusterCollection(collection)
+  return { author: toEntity(findCluster(clusters, cluster.id)), split: toEntity(findCluster(clusters, splitId)) }
+}
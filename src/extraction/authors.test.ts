@@ -0,0 +1,89 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseAuthorName, parseAuthorList, authorStrings, authorsMatch, syncAuthors } from './authors'
+import { ExtractedReference } from '../types-simple'
+
+const names = (firstAuthor: string, otherAuthors = '') =>
+  parseAuthorList(firstAuthor, otherAuthors).authors.map(author => [author.family, author.given])
+
+test('parses inverted and natural-order names', () => {
+  assert.deepEqual(parseAuthorName('Wiener, N.'), { family: 'Wiener', given: 'N.', initials: 'N.' })
+  assert.deepEqual(parseAuthorName('T.M. Mitchell'), { family: 'Mitchell', given: 'T.M.', initials: 'T. M.' })
+  assert.deepEqual(parseAuthorName('Mitchell TM'), { family: 'Mitchell', given: 'TM', initials: 'T. M.' })
+  assert.equal(parseAuthorName('Wang, Xi').given, 'Xi')
+  assert.equal(parseAuthorName('Smith, V.').given, 'V.')
+})
+
+test('splits particles and suffixes off the family name', () => {
+  assert.deepEqual(parseAuthorName('Ludwig van Beethoven'), { family: 'Beethoven', given: 'Ludwig', particle: 'van', initials: 'L.' })
+  assert.deepEqual(parseAuthorName('King, Martin Luther, Jr.'), { family: 'King', given: 'Martin Luther', suffix: 'Jr.', initials: 'M. L.' })
+  assert.deepEqual(parseAuthorName('Hill III, D.'), { family: 'Hill', given: 'D.', suffix: 'III', initials: 'D.' })
+  assert.equal(parseAuthorName('De Morgan, A.').family, 'De Morgan')
+})
+
+test('keeps organisations and groups whole', () => {
+  assert.deepEqual(parseAuthorName('Banu Musa brothers'), { family: 'Banu Musa brothers', given: '', initials: '', literal: true })
+  assert.equal(parseAuthorName('World Health Organization').literal, true)
+  assert.deepEqual(names('Society for Science and Technology'), [['Society for Science and Technology', '']])
+})
+
+test('reads an ORCID iD written with the name', () => {
+  const author = parseAuthorName('Carberry, Josiah (https://orcid.org/0000-0002-1825-0097)')
+  assert.equal(author.family, 'Carberry')
+  assert.equal(author.orcid, '0000-0002-1825-0097')
+})
+
+test('splits a whole list stored in firstAuthor', () => {
+  assert.deepEqual(names('K. R. Rao; P. C. Yip'), [['Rao', 'K. R.'], ['Yip', 'P. C.']])
+  assert.deepEqual(names('M. Ester; H. P. Kriegel; J. Sander; X. Xu'), [['Ester', 'M.'], ['Kriegel', 'H. P.'], ['Sander', 'J.'], ['Xu', 'X.']])
+  assert.deepEqual(names('N. Wiener and J. Bigelow'), [['Wiener', 'N.'], ['Bigelow', 'J.']])
+  assert.deepEqual(names('Wiener, N.'), [['Wiener', 'N.']])
+})
+
+test('splits otherAuthors on semicolons, "and", "&" and comma lists', () => {
+  assert.deepEqual(names('Rosenblueth, A.', 'Wiener, N.; Bigelow, J.'), [['Rosenblueth', 'A.'], ['Wiener', 'N.'], ['Bigelow', 'J.']])
+  assert.deepEqual(names('A. Rosenblueth', 'N. Wiener, J. Bigelow'), [['Rosenblueth', 'A.'], ['Wiener', 'N.'], ['Bigelow', 'J.']])
+  assert.deepEqual(names('Bengio, Y.', 'Goodfellow, I., Courville, A.'), [['Bengio', 'Y.'], ['Goodfellow', 'I.'], ['Courville', 'A.']])
+})
+
+test('reads "et al." and "and others" as a truncated list', () => {
+  const list = parseAuthorList('Wiener, N.', 'Rosenblueth, A. et al.')
+  assert.equal(list.etAl, true)
+  assert.equal(list.authors.length, 2)
+  assert.equal(parseAuthorList('Wiener, N. and others', '').etAl, true)
+  assert.deepEqual(authorStrings(list.authors, true), { firstAuthor: 'Wiener, N.', otherAuthors: 'Rosenblueth, A.; et al.' })
+})
+
+test('matches name variants of one person only', () => {
+  const norbert = parseAuthorName('Norbert Wiener')
+  assert.equal(authorsMatch(parseAuthorName('Wiener, N.'), norbert), true)
+  assert.equal(authorsMatch(parseAuthorName('N. R. Wiener'), norbert), true)
+  assert.equal(authorsMatch(parseAuthorName('Nathan Wiener'), norbert), false)
+  assert.equal(authorsMatch(parseAuthorName('A. Wiener'), norbert), false)
+  assert.equal(authorsMatch(parseAuthorName('J. D. van der Waals'), parseAuthorName('Waals, J.')), true)
+})
+
+test('keeps ORCID iDs and affiliations when the author strings are edited', () => {
+  const ref = { firstAuthor: 'Wiener, N.', otherAuthors: '' } as ExtractedReference
+  syncAuthors(ref)
+  ref.authors![0] = { ...ref.authors![0], orcid: '0000-0002-1825-0097', affiliation: 'MIT (US)' }
+
+  ref.firstAuthor = 'Norbert Wiener'
+  ref.otherAuthors = 'Rosenblueth, A.'
+  syncAuthors(ref, ['firstAuthor', 'otherAuthors'])
+  assert.equal(ref.authors!.length, 2)
+  assert.equal(ref.authors![0].orcid, '0000-0002-1825-0097')
+  assert.equal(ref.authors![0].affiliation, 'MIT (US)')
+})
+
+test('rewrites the strings from an edited list only when the names change', () => {
+  const ref = { firstAuthor: 'K. R. Rao; P. C. Yip', otherAuthors: '' } as ExtractedReference
+  syncAuthors(ref)
+  ref.authors = ref.authors!.map(author => ({ ...author, affiliation: 'UTA (US)' }))
+  syncAuthors(ref, ['authors'])
+  assert.equal(ref.firstAuthor, 'K. R. Rao; P. C. Yip')
+
+  ref.authors = ref.authors!.slice(0, 1)
+  syncAuthors(ref, ['authors'])
+  assert.deepEqual([ref.firstAuthor, ref.otherAuthors], ['Rao, K. R.', ''])
+})
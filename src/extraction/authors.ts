@@ -0,0 +1,337 @@
+/**
+ * Structured author lists
+ *
+ * - Every stored reference has `authors` (one entry per person or organisation);
+ *   firstAuthor / otherAuthors are kept as its display strings for the table and UI
+ * - parseAuthorName / parseAuthorList read the legacy strings ("Wiener, N.", "T.M. Mitchell",
+ *   "Ludwig van Beethoven", "King, Martin Luther, Jr.") written by extractors and older versions
+ * - syncAuthors keeps the list and the strings in line when either is edited
+ * - Each author can carry an affiliation; enhancement also records its details (institution,
+ *   country, source, confidence) in affiliationDetails
+ */
+
+import { Author, AuthorAffiliation, ExtractedReference } from '../types-simple'
+import { normalizeForComparison } from '../utils/similarity'
+
+const NAME_PARTICLES = new Set(['van', 'von', 'der', 'den', 'de', 'del', 'della', 'da', 'di', 'du', 'la', 'le', 'ter', 'ten', 'dos', 'das', 'bin', 'al'])
+
+// Roman numerals only in capitals and from II up, so "Wang, Xi" and "Smith, V." stay names
+const NAME_SUFFIX = /^([Jj]r|[Ss]r|[Jj]nr|[Ss]nr|[IVX]{2,4}|\d(st|nd|rd|th))\.?$/
+
+const ORGANISATION = /\b(university|institute|society|association|committee|council|organi[sz]ation|group|consortium|agency|department|ministry|foundation|inc|ltd|corporation|office)\b/i
+
+const ORCID = /\b(\d{4}-\d{4}-\d{4}-\d{3}[\dX])\b/
+
+const ET_AL = /,?\s*\b(et\.?\s*al\.?|and others)$/i
+
+// Separators between names; "and others" is the et-al marker, not a name
+const NAME_SEPARATOR = /\s+&\s+|\s+and\s+(?!others\b)/
+
+// "T.M.", "TM", "J.-P." (given names written as initials only)
+const INITIALS_ONLY = /^(([A-Z]\.?-?)+|[A-Z]{1,3})$/
+
+/**
+ * "Donald R." → "D. R.", "Jean-Paul" → "J.-P.", "TM" → "T. M."
+ */
+export function initialsOf(given: string): string {
+  return given
+    .split(/[\s.]+/)
+    .filter(Boolean)
+    .reduce<string[]>((parts, part) => parts.concat(/^[A-Z]{2,3}$/.test(part) ? part.split('') : [part]), [])
+    .map(part => part.split('-').filter(Boolean).map(piece => `${piece.charAt(0).toUpperCase()}.`).join('-'))
+    .join(' ')
+}
+
+function isParticle(word: string): boolean {
+  return NAME_PARTICLES.has(word.toLowerCase())
+}
+
+/**
+ * Split "van der Waals" into particle and family; only lowercase particles count in
+ * inverted names ("De Morgan, A." keeps its family name whole)
+ */
+function splitParticle(family: string, lowercaseOnly: boolean): { particle: string; family: string } {
+  const words = family.split(' ')
+  let start = 0
+  while (start < words.length - 1 && isParticle(words[start]) && (!lowercaseOnly || words[start] === words[start].toLowerCase())) {
+    start++
+  }
+  return { particle: words.slice(0, start).join(' '), family: words.slice(start).join(' ') }
+}
+
+function person(family: string, given: string, particle: string, suffix: string, orcid: string): Author {
+  const author: Author = { family, given, initials: initialsOf(given) }
+  if (particle) author.particle = particle
+  if (suffix) author.suffix = suffix
+  if (orcid) author.orcid = orcid
+  return author
+}
+
+/**
+ * Parse one stored name into its parts
+ * Inverted names ("Family, Given", BibTeX's "von Family, Jr, Given") are split at the commas;
+ * otherwise the last word is the family name, with particles and a suffix split off.
+ */
+export function parseAuthorName(name: string): Author {
+  let text = name.trim().replace(/\s+/g, ' ')
+  const orcid = (text.match(ORCID) || [])[1] || ''
+  if (orcid) {
+    text = text.replace(/\(?\s*(orcid:?\s*)?(https?:\/\/orcid\.org\/)?\d{4}-\d{4}-\d{4}-\d{3}[\dX]\s*\)?/i, '').trim()
+  }
+  text = text.replace(/^[,;\s]+|[,;\s]+$/g, '')
+
+  // Organisations, and groups whose name ends in a lowercase word ("Banu Musa brothers")
+  const lastWord = text.split(' ').pop() || ''
+  const group = text.indexOf(',') === -1 && text.indexOf(' ') !== -1 && /^[a-z]/.test(lastWord) && !isParticle(lastWord) && !NAME_SUFFIX.test(lastWord)
+  if (ORGANISATION.test(text) || group) {
+    const organisation: Author = { family: text, given: '', initials: '', literal: true }
+    if (orcid) organisation.orcid = orcid
+    return organisation
+  }
+
+  const parts = text.split(',').map(part => part.trim()).filter(Boolean)
+  let suffix = ''
+  if (parts.length >= 3 && NAME_SUFFIX.test(parts[1])) {
+    suffix = parts.splice(1, 1)[0]
+  } else if (parts.length >= 2 && NAME_SUFFIX.test(parts[parts.length - 1])) {
+    suffix = parts.pop()!
+  }
+
+  if (parts.length >= 2) {
+    // "Hill III, D."
+    const familyWords = parts[0].split(' ')
+    if (!suffix && familyWords.length > 1 && NAME_SUFFIX.test(familyWords[familyWords.length - 1])) {
+      suffix = familyWords.pop()!
+      parts[0] = familyWords.join(' ')
+    }
+    const { particle, family } = splitParticle(parts[0], true)
+    return person(family, parts.slice(1).join(', '), particle, suffix, orcid)
+  }
+
+  const words = (parts[0] || '').split(' ')
+  if (!suffix && words.length > 2 && NAME_SUFFIX.test(words[words.length - 1])) {
+    suffix = words.pop()!
+  }
+  if (words.length === 1) {
+    return person(words[0], '', '', suffix, orcid)
+  }
+  // Surname first with trailing initials: "Mitchell TM", "Mitchell T.M."
+  if (words.length === 2 && INITIALS_ONLY.test(words[1]) && !INITIALS_ONLY.test(words[0])) {
+    return person(words[0], words[1], '', suffix, orcid)
+  }
+
+  let familyStart = words.length - 1
+  while (familyStart > 1 && isParticle(words[familyStart - 1])) {
+    familyStart--
+  }
+  const { particle, family } = splitParticle(words.slice(familyStart).join(' '), false)
+  return person(family, words.slice(0, familyStart).join(' '), particle, suffix, orcid)
+}
+
+/**
+ * Family name with its particle ("van Beethoven")
+ */
+export function fullFamilyName(author: Author): string {
+  return [author.particle, author.family].filter(Boolean).join(' ')
+}
+
+/**
+ * Display form used for firstAuthor / otherAuthors: "van der Waals, J. D.", "King, Martin Luther, Jr."
+ */
+export function formatAuthorName(author: Author): string {
+  if (author.literal) return author.family
+  return [fullFamilyName(author), author.given, author.suffix].filter(Boolean).join(', ')
+}
+
+/**
+ * A name that can stand on its own in a comma-separated list ("J. Smith", not "Smith" or "J.")
+ */
+function isFullName(part: string): boolean {
+  const words = part.split(' ').filter(word => word && !isParticle(word))
+  return words.length >= 2 && !words.every(word => INITIALS_ONLY.test(word))
+}
+
+/**
+ * Split one list segment written with commas only: "J. Smith, K. Jones" or "Smith, J., Jones, K."
+ */
+function splitCommaList(segment: string): string[] {
+  const parts = segment.split(',').map(part => part.trim()).filter(Boolean)
+  if (parts.length < 2 || parts.some(part => NAME_SUFFIX.test(part))) return [segment]
+  if (parts.every(isFullName)) return parts
+
+  const givenLike = (part: string) => part.split(' ').length <= 3 && /^[A-Z][\w.'\- ]*$/.test(part)
+  if (parts.length >= 4 && parts.length % 2 === 0 && parts.every((part, i) => i % 2 === 0 || givenLike(part))) {
+    const names: string[] = []
+    for (let i = 0; i < parts.length; i += 2) names.push(`${parts[i]}, ${parts[i + 1]}`)
+    return names
+  }
+  return [segment]
+}
+
+/**
+ * Split one legacy column into names: at ";", then at "&" / "and" (except inside an
+ * organisation's name), then at commas where splitCommaList sees a list
+ */
+function splitNames(column: string): string[] {
+  return column
+    .split(/\s*;\s*/)
+    .reduce<string[]>((all, part) => all.concat(ORGANISATION.test(part) ? [part] : part.split(NAME_SEPARATOR)), [])
+    .reduce<string[]>((all, segment) => all.concat(splitCommaList(segment)), [])
+}
+
+/**
+ * Parse the legacy columns: firstAuthor, then otherAuthors, each separated by ";", "&", "and"
+ * or commas (older extractions put whole lists in firstAuthor: "K. R. Rao; P. C. Yip").
+ * "et al." anywhere marks the list as truncated.
+ */
+export function parseAuthorList(firstAuthor: string, otherAuthors: string): { authors: Author[]; etAl: boolean } {
+  const names = splitNames(firstAuthor || '')
+    .concat(splitNames(otherAuthors || ''))
+    .map(name => name.trim())
+    .filter(name => name.length > 0)
+
+  const etAl = names.some(name => ET_AL.test(name))
+  const authors = names
+    .map(name => name.replace(ET_AL, '').trim())
+    .filter(name => name.length > 0)
+    .map(parseAuthorName)
+
+  return { authors, etAl }
+}
+
+/**
+ * Whether two lists name the same people in the same order (ORCID and affiliation aside)
+ */
+export function sameAuthorNames(a: Author[], b: Author[]): boolean {
+  const names = (authors: Author[]) => authors.map(author => normalizeForComparison(formatAuthorName(author))).join('|')
+  return names(a) === names(b)
+}
+
+/**
+ * The display strings for an author list
+ */
+export function authorStrings(authors: Author[], etAl = false): { firstAuthor: string; otherAuthors: string } {
+  const others = authors.slice(1).map(formatAuthorName)
+  if (etAl && authors.length > 0) others.push('et al.')
+  return { firstAuthor: authors[0] ? formatAuthorName(authors[0]) : '', otherAuthors: others.join('; ') }
+}
+
+/**
+ * All authors in one column: "Wiener, N.; Rosenblueth, A.; et al."
+ */
+export function formatAuthorList(ref: ExtractedReference): string {
+  const { authors, etAl } = referenceAuthorList(ref)
+  return authors.map(formatAuthorName).concat(etAl && authors.length > 0 ? ['et al.'] : []).join('; ')
+}
+
+/**
+ * Display form of a found affiliation: "Massachusetts Institute of Technology (US)"
+ */
+export function formatAffiliation(details: Pick<AuthorAffiliation, 'institution' | 'countryCode'>): string {
+  return details.countryCode ? `${details.institution} (${details.countryCode})` : details.institution
+}
+
+/**
+ * Every author's affiliation in one column: "Wiener, N.: MIT (US); Rosenblueth, A.: Harvard (US)"
+ */
+export function formatAuthorAffiliations(ref: ExtractedReference): string {
+  return referenceAuthorList(ref).authors
+    .filter(author => author.affiliation)
+    .map(author => `${formatAuthorName(author)}: ${author.affiliation}`)
+    .join('; ')
+}
+
+/**
+ * Structured authors of any reference, parsing the strings of one that has no list
+ * (job results from before the list existed, references posted to /citations)
+ */
+export function referenceAuthorList(ref: ExtractedReference): { authors: Author[]; etAl: boolean } {
+  if (ref.authors) return { authors: ref.authors, etAl: Boolean(ref.etAl) }
+  return parseAuthorList(ref.firstAuthor, ref.otherAuthors)
+}
+
+/**
+ * Given names split into comparable parts: "Jean-Paul" → jean, paul; "J.-P." / "JP" → j, p
+ */
+function givenNameParts(given: string): string[] {
+  return given
+    .split(/[\s.-]+/)
+    .filter(Boolean)
+    .reduce<string[]>((parts, part) => parts.concat(/^[A-Z]{2,3}$/.test(part) ? part.split('') : [part]), [])
+    .map(part => normalizeForComparison(part))
+    .filter(Boolean)
+}
+
+/**
+ * Whether two entries can name the same person
+ * Same ORCID when both have one; otherwise the same family name (with or without its particle)
+ * and given names that agree as far as both go: "N." fits "Norbert" and "Norbert R.", but
+ * "Norbert" does not fit "Nathan". A missing given name fits any.
+ */
+export function authorsMatch(a: Author, b: Author): boolean {
+  if (a.orcid && b.orcid) return a.orcid === b.orcid
+  if (a.literal || b.literal) return Boolean(a.literal && b.literal) && normalizeForComparison(a.family) === normalizeForComparison(b.family)
+
+  const sameFamily = normalizeForComparison(a.family) === normalizeForComparison(b.family) ||
+    normalizeForComparison(fullFamilyName(a)) === normalizeForComparison(fullFamilyName(b))
+  if (!sameFamily) return false
+
+  const partsA = givenNameParts(a.given)
+  const partsB = givenNameParts(b.given)
+  for (let i = 0; i < Math.min(partsA.length, partsB.length); i++) {
+    const full = partsA[i].length > 1 && partsB[i].length > 1
+    if (full ? partsA[i] !== partsB[i] : partsA[i].charAt(0) !== partsB[i].charAt(0)) return false
+  }
+  return true
+}
+
+/**
+ * Keep the author list and the legacy columns in line after `fields` were set on a reference
+ * An edited list rewrites firstAuthor / otherAuthors (when the names differ) and
+ * firstAuthorAffiliation. Edited strings are parsed again, keeping the ORCID and affiliation
+ * of authors found in the old list or in `known`. A reference without a list gets one parsed
+ * from its strings.
+ */
+export function syncAuthors(ref: ExtractedReference, fields: string[] = [], known: Author[] = []): void {
+  const edited = (field: string) => fields.indexOf(field) !== -1
+  const stringsEdited = edited('firstAuthor') || edited('otherAuthors')
+
+  if (ref.authors && (edited('authors') || (edited('etAl') && !stringsEdited))) {
+    // Strings that already name the same people stay as written (an edit that only adds an
+    // ORCID or affiliation does not reformat them)
+    const written = parseAuthorList(ref.firstAuthor, ref.otherAuthors)
+    if (!sameAuthorNames(written.authors, ref.authors) || written.etAl !== Boolean(ref.etAl)) {
+      Object.assign(ref, authorStrings(ref.authors, ref.etAl))
+    }
+    if (!ref.etAl) delete ref.etAl
+    if (edited('authors') && !edited('firstAuthorAffiliation')) {
+      const affiliation = ref.authors[0] && ref.authors[0].affiliation
+      if (affiliation) ref.firstAuthorAffiliation = affiliation
+      else delete ref.firstAuthorAffiliation
+    }
+  } else if (!ref.authors || stringsEdited) {
+    const previous = (ref.authors || []).concat(known)
+    const parsed = parseAuthorList(ref.firstAuthor, ref.otherAuthors)
+    ref.authors = parsed.authors.map(author => {
+      const match = previous.filter(candidate => authorsMatch(candidate, author))[0]
+      if (!match) return author
+      const carried: Author = { ...author }
+      if (match.orcid && !carried.orcid) carried.orcid = match.orcid
+      if (match.affiliation) carried.affiliation = match.affiliation
+      if (match.affiliationDetails) carried.affiliationDetails = match.affiliationDetails
+      return carried
+    })
+    if (parsed.etAl) ref.etAl = true
+    else delete ref.etAl
+    fields = fields.concat('firstAuthorAffiliation')
+  }
+
+  // firstAuthorAffiliation mirrors the first author's affiliation
+  if (fields.indexOf('firstAuthorAffiliation') !== -1 && ref.authors[0] && ref.firstAuthorAffiliation !== undefined) {
+    const first = { ...ref.authors[0] }
+    if (ref.firstAuthorAffiliation) first.affiliation = ref.firstAuthorAffiliation
+    else delete first.affiliation
+    if (first.affiliationDetails && first.affiliation !== formatAffiliation(first.affiliationDetails)) delete first.affiliationDetails
+    ref.authors = [first].concat(ref.authors.slice(1))
+  }
+}
@@ -0,0 +1,60 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { chunkByEntries, referenceFingerprint, mergeChunkReferences } from './chunking'
+import { ExtractedReference } from '../types-simple'
+
+const reference = (fields: Partial<ExtractedReference>): ExtractedReference => ({
+  citationKey: '', firstAuthor: '', otherAuthors: '', title: '', year: '', publisherJournal: '', volumeIssue: '', pages: '',
+  extraNotes: '', isbn: '', referenceRaw: '', confidence: 'medium', extractionMethod: 'llm', ...fields,
+})
+
+const ENTRIES = [
+  '[1] N. Wiener, "Cybernetics," MIT Press, 1948.',
+  '[2] D. R. Hill, "The book of ingenious devices," Reidel, 1979.',
+  '[3] T. M. Mitchell, "Machine learning," McGraw Hill, 1997.',
+  '[4] C. E. Shannon, "A mathematical theory of communication," Bell System Technical Journal, 1948.',
+]
+
+test('cuts chunks on entry boundaries and repeats the overlap', () => {
+  const chunks = chunkByEntries(ENTRIES.join('\n'), 160, 1)
+  assert.deepEqual(chunks, [
+    ENTRIES.slice(0, 2).join('\n'),
+    ENTRIES.slice(1, 3).join('\n'),
+    ENTRIES.slice(2, 4).join('\n'),
+  ])
+})
+
+test('keeps an entry longer than the limit whole and still makes progress', () => {
+  const chunks = chunkByEntries(ENTRIES.join('\n'), 10, 3)
+  assert.deepEqual(chunks, ENTRIES)
+})
+
+test('falls back to lines when no entry structure is found', () => {
+  assert.deepEqual(chunkByEntries('first line\n\nsecond line\nthird line', 25, 0), ['first line\nsecond line', 'third line'])
+})
+
+test('fingerprints on author, year and title rather than the citation key', () => {
+  const a = reference({ citationKey: 'Ref-1', firstAuthor: 'Wiener, N.', year: '1948', title: 'Cybernetics' })
+  assert.equal(referenceFingerprint(a), referenceFingerprint({ ...a, citationKey: 'Wiener48', firstAuthor: 'N. Wiener' }))
+  assert.notEqual(referenceFingerprint(a), referenceFingerprint({ ...a, title: 'The human use of human beings' }))
+  assert.match(referenceFingerprint(reference({ firstAuthor: 'Wiener, N.', referenceRaw: 'Wiener 1948' })), /raw:/)
+})
+
+test('merges overlap and truncated boundary copies and renumbers generated keys', () => {
+  const merged = mergeChunkReferences([
+    reference({ citationKey: 'Ref-1', firstAuthor: 'Wiener, N.', year: '1948', title: 'Cybernetics' }),
+    reference({ citationKey: 'Ref-2', firstAuthor: 'Hill, D. R.', year: '1979', title: 'The book of' }),
+    // Next chunk: numbering starts again
+    reference({ citationKey: 'Ref-1', firstAuthor: 'Hill, D. R.', year: '1979', title: 'The book of ingenious devices', publisherJournal: 'Reidel' }),
+    reference({ citationKey: 'Ref-2', firstAuthor: 'Mitchell, T. M.', year: '1997', title: 'Machine learning' }),
+    reference({ citationKey: 'Wiener48', firstAuthor: 'Wiener, N.', year: '1948', title: 'Cybernetics', pages: '1-194' }),
+  ])
+
+  assert.deepEqual(merged.map(ref => [ref.citationKey, ref.title]), [
+    ['Wiener48', 'Cybernetics'],
+    ['Ref-1', 'The book of ingenious devices'],
+    ['Ref-2', 'Machine learning'],
+  ])
+  assert.equal(merged[0].pages, '1-194')
+  assert.equal(merged[1].publisherJournal, 'Reidel')
+})
@@ -0,0 +1,134 @@
+/**
+ * Chunking for long bibliographies
+ *
+ * - Chunks are cut on reference-entry boundaries, never inside an entry
+ * - Consecutive chunks overlap by a few entries so boundary entries are seen whole at least once
+ * - References from all chunks are merged on a content fingerprint (author + year + title),
+ *   not on the citation key, so different works that share a generated key like "Ref-1" are kept
+ */
+
+import { ExtractedReference } from '../types-simple'
+import { splitReferenceEntries } from './ruleParser'
+import { tokenize, extractSurname, normalizeForComparison, digitsOnly } from '../utils/similarity'
+
+// Keys the extractor makes up for unlabelled entries ("Ref-12")
+export const GENERATED_KEY = /^Ref-\d+$/i
+
+/**
+ * Split text into chunks of at most `maxChars`, on entry boundaries, repeating the last
+ * `overlapEntries` entries of each chunk at the start of the next one
+ */
+export function chunkByEntries(text: string, maxChars: number, overlapEntries: number): string[] {
+  let units = splitReferenceEntries(text)
+
+  // No recognisable entry structure - fall back to lines so nothing is cut mid-line
+  if (units.length <= 1) {
+    units = text.split('\n').filter(l => l.trim().length > 0)
+  }
+
+  const chunks: string[] = []
+  let start = 0
+
+  while (start < units.length) {
+    let end = start
+    let size = 0
+    // Always take at least one unit, even if it alone exceeds maxChars
+    while (end < units.length && (end === start || size + units[end].length + 1 <= maxChars)) {
+      size += units[end].length + 1
+      end++
+    }
+
+    chunks.push(units.slice(start, end).join('\n'))
+    if (end >= units.length) break
+
+    // Step back for overlap, but always make progress
+    start = Math.max(end - overlapEntries, start + 1)
+  }
+
+  return chunks
+}
+
+/**
+ * Content fingerprint for a reference: first-author surname + year + leading title words
+ * Falls back to the raw text when there is no title.
+ */
+export function referenceFingerprint(ref: ExtractedReference): string {
+  const surname = extractSurname(ref.firstAuthor)
+  const year = digitsOnly(ref.year).substring(0, 4)
+  const titleTokens = tokenize(ref.title).slice(0, 6).join(' ')
+
+  if (titleTokens) {
+    return `${surname}|${year}|${titleTokens}`
+  }
+  return `${surname}|${year}|raw:${normalizeForComparison(ref.referenceRaw).substring(0, 80)}`
+}
+
+/**
+ * Merge two extractions of the same reference (e.g. one complete, one cut at a chunk boundary)
+ * For every text field the longer value wins; generated keys lose to real ones.
+ */
+function mergePair(a: ExtractedReference, b: ExtractedReference): ExtractedReference {
+  const longer = (x: string, y: string) => ((y || '').length > (x || '').length ? y : x)
+
+  return {
+    ...a,
+    citationKey: GENERATED_KEY.test(a.citationKey) && !GENERATED_KEY.test(b.citationKey) ? b.citationKey : a.citationKey,
+    firstAuthor: longer(a.firstAuthor, b.firstAuthor),
+    otherAuthors: longer(a.otherAuthors, b.otherAuthors),
+    title: longer(a.title, b.title),
+    year: a.year || b.year,
+    publisherJournal: longer(a.publisherJournal, b.publisherJournal),
+    volumeIssue: longer(a.volumeIssue, b.volumeIssue),
+    pages: longer(a.pages, b.pages),
+    extraNotes: longer(a.extraNotes, b.extraNotes),
+    isbn: longer(a.isbn, b.isbn),
+    referenceRaw: longer(a.referenceRaw, b.referenceRaw),
+  }
+}
+
+/**
+ * Whether `partial` looks like a truncated copy of `full` (same author/year, title is a prefix)
+ */
+function isTruncatedCopy(partial: ExtractedReference, full: ExtractedReference): boolean {
+  const p = tokenize(partial.title)
+  const f = tokenize(full.title)
+  if (p.length === 0 || p.length >= f.length) return false
+  if (extractSurname(partial.firstAuthor) !== extractSurname(full.firstAuthor)) return false
+  if (partial.year && full.year && partial.year !== full.year) return false
+  return p.every((token, i) => token === f[i])
+}
+
+/**
+ * Merge references from all chunks: exact fingerprint duplicates (overlap) and
+ * truncated boundary copies are folded into one entry; generated keys are renumbered.
+ */
+export function mergeChunkReferences(references: ExtractedReference[]): ExtractedReference[] {
+  const merged: ExtractedReference[] = []
+  const byFingerprint = new Map<string, number>()
+
+  for (const ref of references) {
+    const fingerprint = referenceFingerprint(ref)
+    const existingIndex = byFingerprint.get(fingerprint)
+
+    if (existingIndex !== undefined) {
+      merged[existingIndex] = mergePair(merged[existingIndex], ref)
+      continue
+    }
+
+    const truncatedIndex = merged.findIndex(m => isTruncatedCopy(m, ref) || isTruncatedCopy(ref, m))
+    if (truncatedIndex !== -1) {
+      merged[truncatedIndex] = mergePair(merged[truncatedIndex], ref)
+      byFingerprint.set(fingerprint, truncatedIndex)
+      continue
+    }
+
+    byFingerprint.set(fingerprint, merged.length)
+    merged.push(ref)
+  }
+
+  // Generated keys were numbered per chunk - make them unique across the document
+  let generated = 0
+  return merged.map(ref =>
+    GENERATED_KEY.test(ref.citationKey) ? { ...ref, citationKey: `Ref-${++generated}` } : ref
+  )
+}
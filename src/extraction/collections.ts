@@ -0,0 +1,117 @@
+/**
+ * Collections (projects)
+ * Each collection has its own master table, jobs, history and exports, so groups sharing a
+ * deployment do not mix their references. Routes without ?collection= use the default one.
+ */
+
+import { Collection, ChangeActor } from '../types-simple'
+import { getDatabase, transaction, DEFAULT_COLLECTION } from './database'
+import { clearMasterTable, MasterTableError } from './masterTable'
+import { info } from '../utils/logging'
+
+// Lowercase slug, usable in URLs and file names
+const COLLECTION_ID = /^[a-z0-9][a-z0-9_-]{0,63}$/
+
+interface CollectionRow {
+  collection_id: string
+  name: string
+  description: string | null
+  created_at: string
+}
+
+function toCollection(row: CollectionRow): Collection {
+  const collection: Collection = { id: row.collection_id, name: row.name, createdAt: row.created_at }
+  if (row.description) collection.description = row.description
+  return collection
+}
+
+/**
+ * All collections with their reference and job counts, default first
+ */
+export async function listCollections(): Promise<(Collection & { references: number; jobs: number })[]> {
+  const rows = getDatabase().prepare(`
+    SELECT c.*,
+      (SELECT COUNT(*) FROM master_references r WHERE r.collection_id = c.collection_id) AS reference_count,
+      (SELECT COUNT(*) FROM jobs j WHERE j.collection_id = c.collection_id) AS job_count
+    FROM collections c
+    ORDER BY c.collection_id != ?, c.created_at
+  `).all(DEFAULT_COLLECTION) as (CollectionRow & { reference_count: number; job_count: number })[]
+
+  return rows.map(row => ({ ...toCollection(row), references: row.reference_count, jobs: row.job_count }))
+}
+
+function selectCollection(id: string): Collection | null {
+  const row = getDatabase().prepare('SELECT * FROM collections WHERE collection_id = ?').get(id) as CollectionRow | undefined
+  return row ? toCollection(row) : null
+}
+
+export async function getCollection(id: string): Promise<Collection | null> {
+  return selectCollection(id)
+}
+
+export async function createCollection(id: string, name?: string, description?: string): Promise<Collection> {
+  if (!COLLECTION_ID.test(id)) {
+    throw new MasterTableError('Collection IDs are 1-64 lowercase letters, digits, "-" or "_"', 400)
+  }
+
+  const collection = transaction(() => {
+    if (selectCollection(id)) {
+      throw new MasterTableError(`Collection ${id} already exists`, 409)
+    }
+    const created: Collection = { id, name: name || id, createdAt: new Date().toISOString() }
+    if (description) created.description = description
+    getDatabase()
+      .prepare('INSERT INTO collections (collection_id, name, description, created_at) VALUES (?, ?, ?, ?)')
+      .run(created.id, created.name, created.description ?? null, created.createdAt)
+    return created
+  })
+
+  info(`Created collection ${id}`)
+  return collection
+}
+
+export async function updateCollection(id: string, updates: { name?: string; description?: string }): Promise<Collection> {
+  return transaction(() => {
+    const current = selectCollection(id)
+    if (!current) {
+      throw new MasterTableError(`No collection ${id}`, 404)
+    }
+    const name = updates.name !== undefined ? updates.name : current.name
+    const description = updates.description !== undefined ? updates.description : current.description
+    if (!name) {
+      throw new MasterTableError('A collection needs a name', 400)
+    }
+    getDatabase()
+      .prepare('UPDATE collections SET name = ?, description = ? WHERE collection_id = ?')
+      .run(name, description || null, id)
+    return selectCollection(id)!
+  })
+}
+
+/**
+ * Delete a collection with its references and jobs (the default collection stays)
+ * Refused while one of its jobs is queued or running. The deleted references stay in the
+ * change log under the collection ID.
+ */
+export async function deleteCollection(id: string, actor: ChangeActor): Promise<void> {
+  if (id === DEFAULT_COLLECTION) {
+    throw new MasterTableError('The default collection cannot be deleted', 400)
+  }
+  if (!selectCollection(id)) {
+    throw new MasterTableError(`No collection ${id}`, 404)
+  }
+
+  const active = getDatabase()
+    .prepare("SELECT COUNT(*) AS count FROM jobs WHERE collection_id = ? AND json_extract(data, '$.status') IN ('queued', 'processing')")
+    .get(id) as { count: number }
+  if (active.count > 0) {
+    throw new MasterTableError(`Collection ${id} has ${active.count} queued or running job(s); cancel them first`, 409)
+  }
+
+  await clearMasterTable(id, actor)
+  transaction(() => {
+    getDatabase().prepare('DELETE FROM jobs WHERE collection_id = ?').run(id)
+    getDatabase().prepare('DELETE FROM collections WHERE collection_id = ?').run(id)
+  })
+  info(`Deleted collection ${id}`)
+}
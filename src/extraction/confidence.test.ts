@@ -0,0 +1,37 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { scoreReferences, isValidIsbn } from './confidence'
+import { ExtractedReference } from '../types-simple'
+
+const SOURCE = `Wiener, N. (1948). Cybernetics: Or control and communication in the animal and the machine. MIT Press.
+Hill, D. R. (1979). The book of ingenious devices. Dordrecht: Reidel. ISBN 90-277-0833-9.`
+
+const llmReference = (fields: Partial<ExtractedReference>): ExtractedReference => ({
+  citationKey: '', firstAuthor: '', otherAuthors: '', title: '', year: '', publisherJournal: '', volumeIssue: '',
+  pages: '', extraNotes: '', isbn: '', referenceRaw: '', confidence: 'high', modelConfidence: 'high', extractionMethod: 'llm', ...fields,
+})
+
+test('scores an entry printed in the source high', () => {
+  const [ref] = scoreReferences([llmReference({
+    firstAuthor: 'Hill, D. R.', title: 'The book of ingenious devices', year: '1979', publisherJournal: 'Reidel', isbn: '90-277-0833-9',
+    referenceRaw: SOURCE.split('\n')[1],
+  })], SOURCE)
+  assert.equal(ref.confidence, 'high')
+  assert.deepEqual(ref.confidenceReasons, [])
+})
+
+test('checks the fields against the source, not against raw text the model supplied', () => {
+  const invented = 'Turing, A. M. (1950). Computing machinery and intelligence. Mind, 59, 433-460.'
+  const [ref] = scoreReferences([llmReference({
+    firstAuthor: 'Turing, A. M.', title: 'Computing machinery and intelligence', year: '1950', publisherJournal: 'Mind',
+    referenceRaw: invented,
+  })], SOURCE)
+  assert.notEqual(ref.confidence, 'high')
+  assert.match(ref.confidenceReasons!.join('; '), /of title\/author\/year found in source text/)
+})
+
+test('validates ISBN checksums', () => {
+  assert.equal(isValidIsbn('90-277-0833-9'), true)
+  assert.equal(isValidIsbn('978-0-262-03384-8'), true)
+  assert.equal(isValidIsbn('978-0-262-03384-9'), false)
+})
@@ -0,0 +1,211 @@
+/**
+ * Confidence scoring for extracted references
+ *
+ * Combines:
+ * - The model's own rating (or the rule parser's, for rule-based references)
+ * - Field completeness (author, title, year, publisher/journal)
+ * - Field validity (year range, ISBN checksum, page range)
+ * - Overlap with the source text (guards against hallucinated entries)
+ * - Disagreements with the rule-based cross-check
+ *
+ * Produces a numeric score (0-1), the high/medium/low label and the reasons
+ * that lowered the score.
+ */
+
+import { ExtractedReference } from '../types-simple'
+import { tokenize, extractSurname, digitsOnly, normalizeForComparison } from '../utils/similarity'
+
+type ConfidenceLevel = ExtractedReference['confidence']
+
+const WEIGHTS = {
+  selfRating: 0.2,
+  completeness: 0.25,
+  validity: 0.2,
+  overlap: 0.35,
+}
+
+const SELF_RATING_SCORES: Record<ConfidenceLevel, number> = {
+  high: 1,
+  medium: 0.6,
+  low: 0.3,
+}
+
+const COMPLETENESS_FIELDS: { field: keyof ExtractedReference; weight: number }[] = [
+  { field: 'firstAuthor', weight: 0.3 },
+  { field: 'title', weight: 0.35 },
+  { field: 'year', weight: 0.2 },
+  { field: 'publisherJournal', weight: 0.15 },
+]
+
+// Each field the rule-based parser disagrees on costs this much of the final score
+const DISAGREEMENT_PENALTY = 0.1
+
+const HIGH_THRESHOLD = 0.75
+const MEDIUM_THRESHOLD = 0.5
+
+export interface ConfidenceResult {
+  confidence: ConfidenceLevel
+  score: number
+  reasons: string[]
+}
+
+/**
+ * Validate an ISBN-10 or ISBN-13 checksum
+ */
+export function isValidIsbn(isbn: string): boolean {
+  const digits = digitsOnly(isbn)
+
+  if (digits.length === 10) {
+    let sum = 0
+    for (let i = 0; i < 10; i++) {
+      const char = digits[i]
+      if (char === 'X' && i !== 9) return false
+      const value = char === 'X' ? 10 : parseInt(char, 10)
+      sum += value * (10 - i)
+    }
+    return sum % 11 === 0
+  }
+
+  if (digits.length === 13 && !digits.includes('X')) {
+    let sum = 0
+    for (let i = 0; i < 13; i++) {
+      sum += parseInt(digits[i], 10) * (i % 2 === 0 ? 1 : 3)
+    }
+    return sum % 10 === 0
+  }
+
+  return false
+}
+
+/**
+ * Year must be a plausible publication year (allows "1979a" and "n.d.")
+ */
+export function isValidYear(year: string): boolean {
+  if (/^n\.?\s?d\.?$/i.test(year.trim())) return true
+  const match = year.trim().match(/^(\d{4})[a-z]?$/)
+  if (!match) return false
+  const value = parseInt(match[1], 10)
+  return value >= 1400 && value <= new Date().getFullYear() + 1
+}
+
+/**
+ * Page ranges must not run backwards ("219-197")
+ */
+export function isValidPageRange(pages: string): boolean {
+  const range = pages.match(/(\d+)\s*[-–—]\s*(\d+)/)
+  if (!range) return true
+  const start = parseInt(range[1], 10)
+  let end = parseInt(range[2], 10)
+  // Abbreviated ranges: "422-6" means 422-426
+  if (range[2].length < range[1].length) {
+    end = parseInt(range[1].slice(0, range[1].length - range[2].length) + range[2], 10)
+  }
+  return end >= start
+}
+
+/**
+ * Score a single reference
+ * `sourceTokens` are the significant tokens of the source text the reference must be found in.
+ */
+export function scoreReference(ref: ExtractedReference, sourceTokens?: Set<string>): ConfidenceResult {
+  const reasons: string[] = []
+
+  // 1. Self-rating (model, or rule parser for rule-based references)
+  const selfRating = ref.modelConfidence || ref.confidence
+  const selfScore = SELF_RATING_SCORES[selfRating] ?? SELF_RATING_SCORES.medium
+  if (selfRating !== 'high') {
+    reasons.push(`${ref.extractionMethod === 'rule' ? 'rule parser' : 'model'} rated ${selfRating}`)
+  }
+
+  // 2. Completeness
+  let completeness = 0
+  for (const { field, weight } of COMPLETENESS_FIELDS) {
+    const value = ref[field]
+    if (typeof value === 'string' && value.trim()) {
+      completeness += weight
+    } else {
+      reasons.push(`missing ${field}`)
+    }
+  }
+
+  // 3. Validity of year, ISBN and page range
+  const checks: boolean[] = []
+  if (ref.year) {
+    const valid = isValidYear(ref.year)
+    checks.push(valid)
+    if (!valid) reasons.push(`implausible year "${ref.year}"`)
+  }
+  if (ref.isbn) {
+    const valid = isValidIsbn(ref.isbn)
+    checks.push(valid)
+    if (!valid) reasons.push(`invalid ISBN checksum "${ref.isbn}"`)
+  }
+  if (ref.pages) {
+    const valid = isValidPageRange(ref.pages)
+    checks.push(valid)
+    if (!valid) reasons.push(`invalid page range "${ref.pages}"`)
+  }
+  const validity = checks.length > 0 ? checks.filter(Boolean).length / checks.length : 1
+
+  // 4. Overlap with the source text
+  const tokens = sourceTokens
+  let overlap = 0.5
+  if (tokens && tokens.size > 0) {
+    const expected = tokenize(ref.title)
+    const surname = extractSurname(ref.firstAuthor)
+    if (surname) expected.push(...tokenize(surname))
+    if (ref.year) expected.push(ref.year.substring(0, 4))
+
+    if (expected.length > 0) {
+      overlap = expected.filter(t => tokens.has(t)).length / expected.length
+      if (overlap < 0.5) {
+        reasons.push(`only ${Math.round(overlap * 100)}% of title/author/year found in source text`)
+      }
+    }
+  } else {
+    reasons.push('no source text to verify against')
+  }
+
+  let score =
+    WEIGHTS.selfRating * selfScore +
+    WEIGHTS.completeness * completeness +
+    WEIGHTS.validity * validity +
+    WEIGHTS.overlap * overlap
+
+  // 5. Rule-based cross-check disagreements
+  const disagreements = ref.ruleDisagreements || []
+  if (disagreements.length > 0) {
+    score -= DISAGREEMENT_PENALTY * disagreements.length
+    reasons.push(`rule parser disagrees on ${disagreements.join(', ')}`)
+  }
+
+  score = Math.max(0, Math.min(1, Math.round(score * 100) / 100))
+
+  return {
+    confidence: score >= HIGH_THRESHOLD ? 'high' : score >= MEDIUM_THRESHOLD ? 'medium' : 'low',
+    score,
+    reasons,
+  }
+}
+
+/**
+ * Score all references extracted from one source text
+ * A reference is checked against its printed entry when that entry is part of the source text,
+ * otherwise against the whole text; raw text the source does not contain proves nothing.
+ */
+export function scoreReferences(references: ExtractedReference[], sourceText: string): ExtractedReference[] {
+  const sourceTokens = new Set(tokenize(sourceText))
+  const normalizedSource = normalizeForComparison(sourceText)
+
+  return references.map(ref => {
+    const entry = normalizeForComparison(ref.referenceRaw)
+    const printed = entry.length > 0 && normalizedSource.indexOf(entry) !== -1
+    const result = scoreReference(ref, printed ? new Set(tokenize(ref.referenceRaw)) : sourceTokens)
+    return {
+      ...ref,
+      confidence: result.confidence,
+      confidenceScore: result.score,
+      confidenceReasons: result.reasons,
+    }
+  })
+}
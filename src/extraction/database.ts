@@ -0,0 +1,336 @@
+/**
+ * Embedded SQLite database for the master table and the job store
+ *
+ * - One connection per process, opened on first use (DATABASE_FILE)
+ * - Schema changes are numbered migrations tracked in PRAGMA user_version; data migrations
+ *   that need code (such as parsing author strings) are functions in the same list
+ * - Master-table changes are logged in reference_changes (see history.ts)
+ * - References, jobs and their history belong to a collection (see collections.ts)
+ * - Curated author clusters are kept in author_assignments (see authorIndex.ts)
+ * - On first open, the JSON files written by earlier versions (master-references/references.json,
+ *   extraction-results/) are imported in one transaction; the files are left in place
+ *
+ * better-sqlite3 is synchronous, so a transaction runs without yielding to the event loop:
+ * concurrent jobs and requests cannot interleave inside one and lose each other's writes.
+ */
+
+import Database from 'better-sqlite3'
+import fs from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { ExtractedReference, ExtractionJob, ExtractionBatch } from '../types-simple'
+import { referenceTerms } from './masterSearch'
+import { syncAuthors, parseAuthorList, sameAuthorNames } from './authors'
+import { info, warn } from '../utils/logging'
+import config from '../config'
+
+// Collection the routes use without ?collection= (and that earlier data belongs to)
+export const DEFAULT_COLLECTION = 'default'
+
+const LEGACY_MASTER_TABLE_JSON = path.join(process.cwd(), 'master-references', 'references.json')
+const LEGACY_JOB_DIR = path.join(process.cwd(), 'extraction-results')
+
+type Migration = string | ((connection: Database.Database) => void)
+
+// Each entry upgrades the schema by one version
+const MIGRATIONS: Migration[] = [
+  `
+  CREATE TABLE master_references (
+    id TEXT PRIMARY KEY,
+    position INTEGER NOT NULL,         -- Table order (insertion order)
+    data TEXT NOT NULL                 -- ExtractedReference as JSON
+  );
+  CREATE INDEX master_references_position ON master_references (position);
+
+  CREATE TABLE search_terms (
+    term TEXT NOT NULL,
+    reference_id TEXT NOT NULL REFERENCES master_references (id) ON DELETE CASCADE,
+    PRIMARY KEY (term, reference_id)
+  ) WITHOUT ROWID;
+  CREATE INDEX search_terms_reference ON search_terms (reference_id);
+
+  CREATE TABLE jobs (
+    job_id TEXT PRIMARY KEY,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL                 -- ExtractionJob as JSON
+  );
+  CREATE INDEX jobs_created_at ON jobs (created_at);
+
+  CREATE TABLE batches (
+    batch_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL                 -- ExtractionBatch as JSON
+  );
+  `,
+  `
+  CREATE TABLE reference_changes (
+    change_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    reference_id TEXT NOT NULL,        -- No foreign key: the history outlives deleted references
+    changed_at TEXT NOT NULL,
+    actor_kind TEXT NOT NULL,          -- extraction / import / enhancement / manual
+    actor_job_id TEXT,
+    actor_user TEXT,
+    action TEXT NOT NULL,              -- create / update / move / delete
+    field TEXT,                        -- update: the changed field
+    old_value TEXT,                    -- JSON: field value, or the deleted reference
+    new_value TEXT,                    -- JSON: field value, or the created reference
+    position INTEGER,                  -- create / delete: table position
+    reverts INTEGER,                   -- change_id this change undid
+    note TEXT
+  );
+  CREATE INDEX reference_changes_reference ON reference_changes (reference_id, change_id);
+  CREATE INDEX reference_changes_changed_at ON reference_changes (changed_at);
+
+  CREATE TRIGGER reference_changes_no_update BEFORE UPDATE ON reference_changes
+  BEGIN SELECT RAISE(ABORT, 'reference_changes is append-only'); END;
+  CREATE TRIGGER reference_changes_no_delete BEFORE DELETE ON reference_changes
+  BEGIN SELECT RAISE(ABORT, 'reference_changes is append-only'); END;
+  `,
+  `
+  CREATE TABLE collections (
+    collection_id TEXT PRIMARY KEY,    -- URL-safe slug
+    name TEXT NOT NULL,
+    description TEXT,
+    created_at TEXT NOT NULL
+  );
+  INSERT INTO collections (collection_id, name, created_at)
+  VALUES ('${DEFAULT_COLLECTION}', 'Default', strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+
+  ALTER TABLE master_references ADD COLUMN collection_id TEXT NOT NULL DEFAULT '${DEFAULT_COLLECTION}';
+  CREATE INDEX master_references_collection ON master_references (collection_id, position);
+  ALTER TABLE jobs ADD COLUMN collection_id TEXT NOT NULL DEFAULT '${DEFAULT_COLLECTION}';
+  CREATE INDEX jobs_collection ON jobs (collection_id, created_at);
+  ALTER TABLE reference_changes ADD COLUMN collection_id TEXT NOT NULL DEFAULT '${DEFAULT_COLLECTION}';
+  CREATE INDEX reference_changes_collection ON reference_changes (collection_id, changed_at);
+  `,
+  `
+  CREATE TABLE reference_annotations (
+    reference_id TEXT PRIMARY KEY,     -- No foreign key: kept while a reference is deleted, so reverting brings them back
+    tags TEXT NOT NULL DEFAULT '[]',   -- JSON array
+    notes TEXT NOT NULL DEFAULT '',
+    reading_status TEXT,               -- to-read / reading / read
+    rating INTEGER,                    -- 1-5
+    updated_at TEXT NOT NULL,
+    updated_by TEXT
+  );
+  `,
+  migrateAuthorLists,
+  `
+  CREATE TABLE author_assignments (
+    reference_id TEXT NOT NULL,        -- No foreign key, like reference_annotations
+    name TEXT NOT NULL,                -- The author's name in that reference, normalized
+    author_id TEXT NOT NULL,           -- Authors-index cluster a curator put it in
+    assigned_at TEXT NOT NULL,
+    assigned_by TEXT,
+    PRIMARY KEY (reference_id, name)
+  );
+  CREATE INDEX author_assignments_author ON author_assignments (author_id);
+  `,
+  reparseAuthorLists,
+]
+
+let db: Database.Database | null = null
+
+/**
+ * The shared connection (migrated and with legacy data imported)
+ */
+export function getDatabase(): Database.Database {
+  if (db) return db
+
+  fs.mkdirSync(path.dirname(config.DATABASE_FILE), { recursive: true })
+  const connection = new Database(config.DATABASE_FILE)
+  connection.pragma('journal_mode = WAL')
+  connection.pragma('foreign_keys = ON')
+  // Wait for another process holding the write lock instead of failing at once
+  connection.pragma('busy_timeout = 5000')
+
+  const fresh = migrate(connection)
+  if (fresh) {
+    importLegacyJson(connection)
+  }
+
+  info(`Database ready: ${config.DATABASE_FILE}`)
+  db = connection
+  return db
+}
+
+/**
+ * Run `fn` in a transaction (nested calls join the outer one)
+ */
+export function transaction<T>(fn: () => T): T {
+  return getDatabase().transaction(fn)()
+}
+
+/**
+ * Apply pending migrations; true when the database was just created
+ */
+function migrate(connection: Database.Database): boolean {
+  const version = connection.pragma('user_version', { simple: true }) as number
+  if (version > MIGRATIONS.length) {
+    throw new Error(`Database ${config.DATABASE_FILE} has schema version ${version}, newer than this server (${MIGRATIONS.length})`)
+  }
+
+  connection.transaction(() => {
+    for (let next = version; next < MIGRATIONS.length; next++) {
+      const migration = MIGRATIONS[next]
+      if (typeof migration === 'string') connection.exec(migration)
+      else migration(connection)
+      connection.pragma(`user_version = ${next + 1}`)
+    }
+  })()
+
+  if (version < MIGRATIONS.length) {
+    info(`Database schema migrated from version ${version} to ${MIGRATIONS.length}`)
+  }
+  return version === 0
+}
+
+// ===========================================
+// ROW HELPERS (callers run them inside transactions)
+// ===========================================
+
+/**
+ * Insert or replace a reference row and its search terms; returns its table position
+ * Without a position, an existing row keeps its place and a new one goes last.
+ */
+export function writeReferenceRow(connection: Database.Database, ref: ExtractedReference, collection: string, position?: number): number {
+  if (!ref.id) ref.id = randomUUID()
+  syncAuthors(ref)
+  if (position === undefined) {
+    const row = connection.prepare(
+      'SELECT COALESCE((SELECT position FROM master_references WHERE id = ?), (SELECT MAX(position) + 1 FROM master_references), 0) AS position'
+    ).get(ref.id) as { position: number }
+    position = row.position
+  }
+
+  connection.prepare('INSERT OR REPLACE INTO master_references (id, collection_id, position, data) VALUES (?, ?, ?, ?)')
+    .run(ref.id, collection, position, JSON.stringify(ref))
+
+  connection.prepare('DELETE FROM search_terms WHERE reference_id = ?').run(ref.id)
+  const insertTerm = connection.prepare('INSERT INTO search_terms (term, reference_id) VALUES (?, ?)')
+  referenceTerms(ref).forEach(term => insertTerm.run(term, ref.id))
+  return position
+}
+
+export function writeJobRow(connection: Database.Database, job: ExtractionJob): void {
+  ;(job.extractedReferences || []).forEach(ref => syncAuthors(ref))
+  connection.prepare('INSERT OR REPLACE INTO jobs (job_id, collection_id, created_at, data) VALUES (?, ?, ?, ?)')
+    .run(job.jobId, job.collection || DEFAULT_COLLECTION, job.createdAt || new Date().toISOString(), JSON.stringify(job))
+}
+
+export function writeBatchRow(connection: Database.Database, batch: ExtractionBatch): void {
+  connection.prepare('INSERT OR REPLACE INTO batches (batch_id, data) VALUES (?, ?)')
+    .run(batch.batchId, JSON.stringify(batch))
+}
+
+// ===========================================
+// DATA MIGRATIONS
+// ===========================================
+
+/**
+ * Give every stored reference and job result a structured author list parsed from its
+ * firstAuthor / otherAuthors strings (which stay as they are)
+ */
+function migrateAuthorLists(connection: Database.Database): void {
+  const references = connection.prepare('SELECT id, data FROM master_references').all() as { id: string; data: string }[]
+  const updateReference = connection.prepare('UPDATE master_references SET data = ? WHERE id = ?')
+  references.forEach(row => {
+    const ref = JSON.parse(row.data) as ExtractedReference
+    syncAuthors(ref)
+    updateReference.run(JSON.stringify(ref), row.id)
+  })
+
+  const jobs = connection.prepare('SELECT job_id, data FROM jobs').all() as { job_id: string; data: string }[]
+  const updateJob = connection.prepare('UPDATE jobs SET data = ? WHERE job_id = ?')
+  jobs.forEach(row => {
+    const job = JSON.parse(row.data) as ExtractionJob
+    ;(job.extractedReferences || []).forEach(ref => syncAuthors(ref))
+    updateJob.run(JSON.stringify(job), row.job_id)
+  })
+
+  if (references.length > 0 || jobs.length > 0) {
+    info(`Parsed author lists of ${references.length} references and ${jobs.length} jobs`)
+  }
+}
+
+/**
+ * Parse author lists again where the stored list does not name the people the strings do
+ * (version 5 read a whole list written in firstAuthor, "K. R. Rao; P. C. Yip", as one name,
+ * and "Banu Musa brothers" as a person). Lists whose strings were written from them match
+ * and are left alone; ORCID iDs and affiliations of the authors that remain are kept.
+ */
+function reparseAuthorLists(connection: Database.Database): void {
+  const reparse = (ref: ExtractedReference): boolean => {
+    if (ref.authors && sameAuthorNames(parseAuthorList(ref.firstAuthor, ref.otherAuthors).authors, ref.authors)) return false
+    syncAuthors(ref, ['firstAuthor', 'otherAuthors'])
+    return true
+  }
+
+  let references = 0
+  const updateReference = connection.prepare('UPDATE master_references SET data = ? WHERE id = ?')
+  ;(connection.prepare('SELECT id, data FROM master_references').all() as { id: string; data: string }[]).forEach(row => {
+    const ref = JSON.parse(row.data) as ExtractedReference
+    if (!reparse(ref)) return
+    updateReference.run(JSON.stringify(ref), row.id)
+    references++
+  })
+
+  let jobs = 0
+  const updateJob = connection.prepare('UPDATE jobs SET data = ? WHERE job_id = ?')
+  ;(connection.prepare('SELECT job_id, data FROM jobs').all() as { job_id: string; data: string }[]).forEach(row => {
+    const job = JSON.parse(row.data) as ExtractionJob
+    const changed = (job.extractedReferences || []).map(reparse).filter(Boolean).length
+    if (changed === 0) return
+    updateJob.run(JSON.stringify(job), row.job_id)
+    jobs++
+  })
+
+  if (references > 0 || jobs > 0) {
+    info(`Parsed author lists again for ${references} references and ${jobs} jobs`)
+  }
+}
+
+// ===========================================
+// LEGACY JSON IMPORT
+// ===========================================
+
+function readJsonFile<T>(file: string): T | null {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as T
+  } catch (err) {
+    warn(`Skipping unreadable file ${file}: ${err instanceof Error ? err.message : String(err)}`)
+    return null
+  }
+}
+
+function jsonFiles(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir).filter(f => f.endsWith('.json')).map(f => path.join(dir, f))
+  } catch (err) {
+    return []
+  }
+}
+
+/**
+ * Import the master table, jobs and batches from the JSON files of earlier versions
+ */
+function importLegacyJson(connection: Database.Database): void {
+  const references = fs.existsSync(LEGACY_MASTER_TABLE_JSON)
+    ? readJsonFile<ExtractedReference[]>(LEGACY_MASTER_TABLE_JSON) || []
+    : []
+  const jobs = jsonFiles(LEGACY_JOB_DIR)
+    .map(file => readJsonFile<ExtractionJob>(file))
+    .filter((job): job is ExtractionJob => Boolean(job && job.jobId))
+  const batches = jsonFiles(path.join(LEGACY_JOB_DIR, 'batches'))
+    .map(file => readJsonFile<ExtractionBatch>(file))
+    .filter((batch): batch is ExtractionBatch => Boolean(batch && batch.batchId))
+
+  if (references.length === 0 && jobs.length === 0 && batches.length === 0) return
+
+  connection.transaction(() => {
+    references.forEach((ref, position) => writeReferenceRow(connection, ref, DEFAULT_COLLECTION, position))
+    jobs.forEach(job => writeJobRow(connection, job))
+    batches.forEach(batch => writeBatchRow(connection, batch))
+  })()
+
+  info(`Imported ${references.length} references, ${jobs.length} jobs and ${batches.length} batches from JSON files`)
+}
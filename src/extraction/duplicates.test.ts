@@ -0,0 +1,78 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { isbnKey, compareReferences, findDuplicateClusters, mergeReferences } from './duplicates'
+import { ExtractedReference } from '../types-simple'
+
+const reference = (fields: Partial<ExtractedReference>): ExtractedReference => ({
+  citationKey: '', firstAuthor: '', otherAuthors: '', title: '', year: '', publisherJournal: '', volumeIssue: '', pages: '',
+  extraNotes: '', isbn: '', referenceRaw: '', confidence: 'medium', extractionMethod: 'llm', ...fields,
+})
+
+const HILL = reference({ citationKey: 'Ref-1', firstAuthor: 'Hill, D. R.', title: 'The book of ingenious devices', year: '1979', isbn: '90-277-0833-9' })
+const HILL_COPY = reference({ citationKey: 'Hill79', firstAuthor: 'D. R. Hill', title: 'The Book of Ingenious Devices.', year: '1979', publisherJournal: 'Reidel' })
+const WIENER = reference({ firstAuthor: 'Wiener, N.', title: 'Cybernetics', year: '1948' })
+const WIENER_LATER = reference({ firstAuthor: 'Wiener, N.', title: 'The human use of human beings', year: '1950' })
+
+test('converts ISBN-10 to ISBN-13 and drops invalid ones', () => {
+  assert.equal(isbnKey('90-277-0833-9'), '9789027708335')
+  assert.equal(isbnKey('978-90-277-0833-5'), '9789027708335')
+  assert.equal(isbnKey('90-277-0833-0'), '')
+})
+
+test('scores copies of one work high and different works low', () => {
+  const same = compareReferences(HILL, HILL_COPY)
+  assert.ok(same.score >= 0.75, `${same.score}`)
+  assert.ok(same.reasons.includes('same first author'))
+  assert.ok(same.reasons.includes('same year'))
+
+  const different = compareReferences(WIENER, WIENER_LATER)
+  assert.ok(different.score < 0.5, `${different.score}`)
+  assert.ok(different.reasons.includes('different year'))
+})
+
+test('decides on DOIs and ISBNs when both copies have one', () => {
+  const doi = (key: string, title: string) => reference({ citationKey: key, title })
+  assert.equal(compareReferences(doi('doi:10.1086/286788', 'Behavior'), reference({ title: 'Behaviour, purpose', extraNotes: 'DOI 10.1086/286788.' })).score, 1)
+  assert.equal(compareReferences(doi('doi:10.1086/286788', 'Behavior'), doi('doi:10.1086/999999', 'Behavior')).score, 0)
+
+  const isbn13 = { ...HILL_COPY, isbn: '978-90-277-0833-5' }
+  assert.deepEqual(compareReferences(HILL, isbn13), { score: 0.95, reasons: ['same ISBN'] })
+  assert.notEqual(compareReferences(HILL, { ...isbn13, title: 'Cybernetics' }).score, 0.95)
+})
+
+test('clusters every copy of a work and leaves other references out', () => {
+  const third = reference({ firstAuthor: 'Hill, Donald R.', title: 'The book of ingenious devices', year: '1979', confidence: 'high' })
+  const clusters = findDuplicateClusters([WIENER, HILL, WIENER_LATER, HILL_COPY, third], 0.75)
+  assert.equal(clusters.length, 1)
+  assert.deepEqual(clusters[0].members.map(member => member.index), [1, 3, 4])
+  assert.equal(clusters[0].id, findDuplicateClusters([third, HILL_COPY, HILL], 0.75)[0].id)
+  assert.deepEqual(findDuplicateClusters([WIENER, WIENER_LATER], 0.75), [])
+})
+
+test('merges from the most trusted copy and fills its gaps', () => {
+  const trusted = { ...HILL, confidence: 'high' as const, sources: [{ kind: 'pdf' as const, jobId: 'job-1', referenceRaw: 'Hill 1979' }] }
+  const other = { ...HILL_COPY, sources: [{ kind: 'import' as const, filename: 'library.bib', referenceRaw: '@book{Hill79}' }] }
+  const { reference: merged, fieldSources } = mergeReferences([other, trusted])
+
+  assert.equal(merged.title, HILL.title)
+  assert.equal(fieldSources.title, 1)
+  assert.equal(merged.publisherJournal, 'Reidel')
+  assert.equal(fieldSources.publisherJournal, 0)
+  // A generated key gives way to a real one
+  assert.equal(merged.citationKey, 'Hill79')
+  assert.deepEqual(merged.mergedFrom!.map(source => source.citationKey), ['Hill79', 'Ref-1'])
+  assert.deepEqual(merged.sources!.map(source => source.kind), ['import', 'pdf'])
+})
+
+test('applies merge choices and flattens earlier merges', () => {
+  const first = mergeReferences([HILL, HILL_COPY], { title: 0, year: '1974' })
+  assert.equal(first.reference.title, HILL.title)
+  assert.equal(first.reference.year, '1974')
+  assert.equal(first.fieldSources.year, 'custom')
+  assert.throws(() => mergeReferences([HILL, HILL_COPY], { title: 5 }), /No member 5/)
+  assert.throws(() => mergeReferences([]), /Nothing to merge/)
+
+  const third = reference({ citationKey: 'hill-1979', firstAuthor: 'Hill, D. R.', title: 'The book of ingenious devices', year: '1979' })
+  const second = mergeReferences([first.reference, third])
+  assert.equal(second.reference.mergedFrom!.length, 4)
+})
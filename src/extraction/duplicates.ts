@@ -0,0 +1,315 @@
+/**
+ * Fuzzy duplicate detection and merging for the master table
+ * Pairs are scored on title tokens, first-author surname, year, and ISBN/DOI equality;
+ * pairs above the threshold are clustered so one review covers every copy of a work.
+ */
+
+import { createHash } from 'crypto'
+import { ExtractedReference, MergedSource, ReferenceSource, Author } from '../types-simple'
+import { titleSimilarity, tokenize, jaccard, extractSurname, digitsOnly, normalizeForComparison } from '../utils/similarity'
+import { isValidIsbn } from './confidence'
+import { GENERATED_KEY } from './chunking'
+import { mergeSources } from './provenance'
+import { syncAuthors } from './authors'
+import config from '../config'
+
+export interface DuplicateScore {
+  score: number              // 0-1
+  reasons: string[]
+}
+
+export interface DuplicatePair extends DuplicateScore {
+  a: number                  // Index into the table
+  b: number
+}
+
+export interface DuplicateCluster {
+  id: string                 // Derived from the members' content, stable while they are unchanged
+  score: number              // Weakest link that holds the cluster together
+  members: { index: number; reference: ExtractedReference }[]
+  pairs: DuplicatePair[]
+}
+
+// Columns a merge chooses a value for
+export const MERGE_COLUMNS = [
+  'citationKey', 'firstAuthor', 'otherAuthors', 'firstAuthorAffiliation', 'title', 'year',
+  'publisherJournal', 'volumeIssue', 'pages', 'extraNotes', 'isbn', 'referenceRaw',
+] as const
+
+export type MergeColumn = typeof MERGE_COLUMNS[number]
+
+// Per column: index of the member to take the value from, or a literal replacement
+export type MergeChoices = Partial<Record<MergeColumn, number | string>>
+
+/**
+ * ISBN-13 form of a valid ISBN (ISBN-10 and -13 of the same book compare equal), '' otherwise
+ */
+export function isbnKey(isbn: string): string {
+  const digits = digitsOnly(isbn)
+  if (!isValidIsbn(digits)) return ''
+  if (digits.length === 13) return digits
+
+  const core = `978${digits.substring(0, 9)}`
+  let sum = 0
+  for (let i = 0; i < 12; i++) {
+    sum += parseInt(core[i], 10) * (i % 2 === 0 ? 1 : 3)
+  }
+  return `${core}${(10 - (sum % 10)) % 10}`
+}
+
+/**
+ * Lowercased DOI from a "doi:" citation key or the notes, '' if none
+ */
+export function referenceDoi(ref: ExtractedReference): string {
+  const source = /^doi:/i.test(ref.citationKey) ? ref.citationKey.slice(4) : ref.extraNotes || ''
+  const match = source.match(/\b(10\.\d{4,9}\/[^\s;,]+)/)
+  return match ? match[1].replace(/\.$/, '').toLowerCase() : ''
+}
+
+/**
+ * How likely two references are the same work
+ */
+export function compareReferences(a: ExtractedReference, b: ExtractedReference): DuplicateScore {
+  const reasons: string[] = []
+
+  const doiA = referenceDoi(a)
+  const doiB = referenceDoi(b)
+  if (doiA && doiB) {
+    if (doiA === doiB) return { score: 1, reasons: ['same DOI'] }
+    return { score: 0, reasons: ['different DOIs'] }
+  }
+
+  const hasTitles = Boolean(a.title && b.title)
+  const similarity = hasTitles
+    ? titleSimilarity(a.title, b.title)
+    : jaccard(tokenize(a.referenceRaw), tokenize(b.referenceRaw))
+
+  const isbnA = isbnKey(a.isbn)
+  const isbnB = isbnKey(b.isbn)
+  if (isbnA && isbnA === isbnB && (!hasTitles || similarity >= 0.2)) {
+    return { score: 0.95, reasons: ['same ISBN'] }
+  }
+
+  let score = 0.6 * similarity
+  reasons.push(`${hasTitles ? 'title' : 'raw text'} ${Math.round(similarity * 100)}% similar`)
+
+  const surnameA = extractSurname(a.firstAuthor)
+  const surnameB = extractSurname(b.firstAuthor)
+  if (surnameA && surnameB) {
+    if (surnameA === surnameB) {
+      score += 0.25
+      reasons.push('same first author')
+    } else {
+      score -= 0.2
+      reasons.push('different first author')
+    }
+  }
+
+  const yearA = digitsOnly(a.year).substring(0, 4)
+  const yearB = digitsOnly(b.year).substring(0, 4)
+  if (yearA.length === 4 && yearB.length === 4) {
+    if (yearA === yearB) {
+      score += 0.15
+      reasons.push('same year')
+    } else {
+      score -= 0.25
+      reasons.push('different year')
+    }
+  }
+
+  if (isbnA && isbnB && isbnA !== isbnB) {
+    score -= 0.3
+    reasons.push('different ISBNs')
+  }
+
+  return { score: Math.max(0, Math.min(1, Math.round(score * 100) / 100)), reasons }
+}
+
+/**
+ * Keys under which a reference is compared with others; only references sharing a key are scored
+ */
+function blockingKeys(ref: ExtractedReference): string[] {
+  const keys: string[] = []
+  const surname = extractSurname(ref.firstAuthor)
+  if (surname) keys.push(`author:${surname}`)
+  const titleStart = tokenize(ref.title).slice(0, 3).join(' ')
+  if (titleStart) keys.push(`title:${titleStart}`)
+  const isbn = isbnKey(ref.isbn)
+  if (isbn) keys.push(`isbn:${isbn}`)
+  const doi = referenceDoi(ref)
+  if (doi) keys.push(`doi:${doi}`)
+  if (keys.length === 0 && ref.referenceRaw) keys.push(`raw:${normalizeForComparison(ref.referenceRaw).substring(0, 40)}`)
+  return keys
+}
+
+/**
+ * Score candidate pairs of a table; pairs at or above the threshold are returned
+ */
+export function findDuplicatePairs(references: ExtractedReference[], threshold = config.DUPLICATE_THRESHOLD): DuplicatePair[] {
+  const blocks = new Map<string, number[]>()
+  references.forEach((ref, index) => {
+    blockingKeys(ref).forEach(key => {
+      const block = blocks.get(key)
+      if (block) block.push(index)
+      else blocks.set(key, [index])
+    })
+  })
+
+  const seen = new Set<string>()
+  const pairs: DuplicatePair[] = []
+  blocks.forEach(block => {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const pairKey = `${block[i]}:${block[j]}`
+        if (seen.has(pairKey)) continue
+        seen.add(pairKey)
+
+        const result = compareReferences(references[block[i]], references[block[j]])
+        if (result.score >= threshold) {
+          pairs.push({ a: block[i], b: block[j], ...result })
+        }
+      }
+    }
+  })
+
+  return pairs
+}
+
+/**
+ * Group duplicate pairs into clusters (connected components), strongest first
+ */
+export function findDuplicateClusters(references: ExtractedReference[], threshold = config.DUPLICATE_THRESHOLD): DuplicateCluster[] {
+  const pairs = findDuplicatePairs(references, threshold)
+
+  // Union-find over the table indexes
+  const parent = references.map((_, index) => index)
+  const root = (index: number): number => {
+    let current = index
+    while (parent[current] !== current) {
+      parent[current] = parent[parent[current]]
+      current = parent[current]
+    }
+    return current
+  }
+  pairs.forEach(pair => {
+    const rootA = root(pair.a)
+    const rootB = root(pair.b)
+    if (rootA !== rootB) parent[rootB] = rootA
+  })
+
+  const groups = new Map<number, DuplicatePair[]>()
+  pairs.forEach(pair => {
+    const group = root(pair.a)
+    const list = groups.get(group)
+    if (list) list.push(pair)
+    else groups.set(group, [pair])
+  })
+
+  const clusters: DuplicateCluster[] = []
+  groups.forEach(groupPairs => {
+    const indexes = Array.from(new Set(groupPairs.reduce<number[]>((all, pair) => all.concat(pair.a, pair.b), []))).sort((x, y) => x - y)
+    clusters.push({
+      id: clusterId(indexes.map(index => references[index])),
+      score: Math.min(...groupPairs.map(pair => pair.score)),
+      members: indexes.map(index => ({ index, reference: references[index] })),
+      pairs: groupPairs,
+    })
+  })
+
+  return clusters.sort((x, y) => y.score - x.score || x.members[0].index - y.members[0].index)
+}
+
+/**
+ * Content-based cluster ID, so a merge request still refers to the same references
+ * after the table has changed elsewhere
+ */
+export function clusterId(members: ExtractedReference[]): string {
+  const content = members
+    .map(ref => [ref.citationKey, ref.firstAuthor, ref.title, ref.year, ref.referenceRaw].join('\u0001'))
+    .sort()
+    .join('\u0002')
+  return createHash('sha1').update(content).digest('hex').substring(0, 12)
+}
+
+function confidenceRank(ref: ExtractedReference): number {
+  if (typeof ref.confidenceScore === 'number') return ref.confidenceScore
+  return ref.confidence === 'high' ? 0.9 : ref.confidence === 'medium' ? 0.6 : 0.3
+}
+
+function filledColumns(ref: ExtractedReference): number {
+  return MERGE_COLUMNS.filter(column => Boolean(ref[column])).length
+}
+
+/**
+ * Merge several copies of one work into a single reference
+ * By default every column comes from the most trusted copy (confidence, then completeness),
+ * with gaps filled from the longest value among the others. `choices` overrides a column
+ * with another member's value (by position in `members`) or a literal string.
+ * The merged copies are kept in `mergedFrom` and their sources are combined.
+ */
+export function mergeReferences(members: ExtractedReference[], choices: MergeChoices = {}): {
+  reference: ExtractedReference
+  fieldSources: Partial<Record<MergeColumn, number | 'custom'>>
+} {
+  if (members.length === 0) throw new Error('Nothing to merge')
+
+  const order = members
+    .map((ref, index) => ({ ref, index }))
+    .sort((x, y) => confidenceRank(y.ref) - confidenceRank(x.ref) || filledColumns(y.ref) - filledColumns(x.ref) || x.index - y.index)
+  const primary = order[0]
+
+  const merged: ExtractedReference = { ...primary.ref }
+  const fieldSources: Partial<Record<MergeColumn, number | 'custom'>> = {}
+
+  MERGE_COLUMNS.forEach(column => {
+    const choice = choices[column]
+    if (typeof choice === 'string') {
+      merged[column] = choice
+      fieldSources[column] = 'custom'
+      return
+    }
+    if (typeof choice === 'number') {
+      if (!members[choice]) throw new Error(`No member ${choice} to take ${column} from`)
+      merged[column] = members[choice][column] || ''
+      fieldSources[column] = choice
+      return
+    }
+
+    let source = primary
+    if (!primary.ref[column] || (column === 'citationKey' && GENERATED_KEY.test(primary.ref.citationKey))) {
+      const candidates = order.filter(({ ref }) => ref[column] && !(column === 'citationKey' && GENERATED_KEY.test(ref.citationKey)))
+      const longest = candidates.sort((x, y) => (y.ref[column] || '').length - (x.ref[column] || '').length)[0]
+      if (longest) source = longest
+    }
+    // Optional columns nobody filled stay absent
+    if (!source.ref[column] && !(column in merged)) return
+    merged[column] = source.ref[column] || ''
+    fieldSources[column] = source.index
+  })
+
+  // The author list follows the chosen author columns, keeping ORCIDs and affiliations known from any copy
+  const sameAuthors = merged.firstAuthor === primary.ref.firstAuthor && merged.otherAuthors === primary.ref.otherAuthors
+  const knownAuthors = members.reduce<Author[]>((authors, ref) => authors.concat(ref.authors || []), [])
+  if (!sameAuthors) delete merged.authors
+  syncAuthors(merged, ['firstAuthorAffiliation'], knownAuthors)
+
+  // Provenance: every merged copy, flattening earlier merges
+  const mergedAt = new Date().toISOString()
+  merged.mergedFrom = members.reduce<MergedSource[]>((sources, ref) => sources.concat(
+    ref.mergedFrom || [],
+    {
+      citationKey: ref.citationKey,
+      firstAuthor: ref.firstAuthor,
+      title: ref.title,
+      year: ref.year,
+      referenceRaw: ref.referenceRaw,
+      extractionMethod: ref.extractionMethod,
+      mergedAt,
+    }
+  ), [])
+  // Every document that cited any of the copies now cites the merged entry
+  merged.sources = members.reduce<ReferenceSource[]>((sources, ref) => mergeSources(sources, ref.sources), [])
+  if (merged.sources.length === 0) delete merged.sources
+
+  return { reference: merged, fieldSources }
+}
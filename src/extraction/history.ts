@@ -0,0 +1,161 @@
+/**
+ * Master-table change log
+ * Every create, field update, move (table position) and delete is appended to
+ * reference_changes in the same transaction as the change itself, with the job or user
+ * that made it. Rows are never updated or deleted (the database refuses to), so reverts
+ * and restores are logged as new changes too.
+ */
+
+import Database from 'better-sqlite3'
+import { ExtractedReference, ChangeActor, ReferenceChange } from '../types-simple'
+import { getDatabase } from './database'
+
+interface ChangeRow {
+  change_id: number
+  reference_id: string
+  collection_id: string
+  changed_at: string
+  actor_kind: ChangeActor['kind']
+  actor_job_id: string | null
+  actor_user: string | null
+  action: ReferenceChange['action']
+  field: string | null
+  old_value: string | null
+  new_value: string | null
+  position: number | null
+  reverts: number | null
+  note: string | null
+}
+
+export interface ChangeDetails {
+  position?: number          // Logged for creates and deletes
+  previousPosition?: number  // Logs a move when it differs from `position`
+  reverts?: number
+  note?: string
+}
+
+function toChange(row: ChangeRow): ReferenceChange {
+  const change: ReferenceChange = {
+    changeId: row.change_id,
+    referenceId: row.reference_id,
+    collection: row.collection_id,
+    changedAt: row.changed_at,
+    actor: { kind: row.actor_kind },
+    action: row.action,
+  }
+  if (row.actor_job_id) change.actor.jobId = row.actor_job_id
+  if (row.actor_user) change.actor.user = row.actor_user
+  if (row.field !== null) change.field = row.field
+  if (row.old_value !== null) change.oldValue = JSON.parse(row.old_value)
+  if (row.new_value !== null) change.newValue = JSON.parse(row.new_value)
+  if (row.position !== null) change.position = row.position
+  if (row.reverts !== null) change.reverts = row.reverts
+  if (row.note !== null) change.note = row.note
+  return change
+}
+
+function jsonOrNull(value: unknown): string | null {
+  return value === undefined ? null : JSON.stringify(value)
+}
+
+/**
+ * Fields whose values differ between two versions of a reference (the ID excluded)
+ */
+export function changedFields(before: ExtractedReference, after: ExtractedReference): string[] {
+  const fields = Array.from(new Set(Object.keys(before).concat(Object.keys(after))))
+  return fields
+    .filter(field => field !== 'id')
+    .filter(field => jsonOrNull(before[field as keyof ExtractedReference]) !== jsonOrNull(after[field as keyof ExtractedReference]))
+    .sort()
+}
+
+/**
+ * Log the difference between two versions of a reference (callers run it inside their transaction)
+ * `before` null means the reference was created, `after` null that it was deleted;
+ * an update logs one change per field, and a move if the position changed.
+ */
+export function recordChange(
+  connection: Database.Database,
+  collection: string,
+  before: ExtractedReference | null,
+  after: ExtractedReference | null,
+  actor: ChangeActor,
+  details: ChangeDetails = {}
+): void {
+  const referenceId = (after || before)?.id
+  if (!referenceId) return
+
+  const insert = connection.prepare(`
+    INSERT INTO reference_changes
+      (reference_id, collection_id, changed_at, actor_kind, actor_job_id, actor_user, action, field, old_value, new_value, position, reverts, note)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `)
+  const changedAt = new Date().toISOString()
+  const append = (action: ReferenceChange['action'], field: string | null, oldValue: unknown, newValue: unknown, position?: number) => {
+    insert.run(
+      referenceId, collection, changedAt, actor.kind, actor.jobId ?? null, actor.user ?? null, action, field,
+      jsonOrNull(oldValue), jsonOrNull(newValue), position ?? null, details.reverts ?? null, details.note ?? null
+    )
+  }
+
+  if (!before && after) {
+    append('create', null, undefined, after, details.position)
+  } else if (before && !after) {
+    append('delete', null, before, undefined, details.position)
+  } else if (before && after) {
+    changedFields(before, after).forEach(field => {
+      const key = field as keyof ExtractedReference
+      append('update', field, before[key], after[key])
+    })
+    if (details.previousPosition !== undefined && details.position !== undefined && details.previousPosition !== details.position) {
+      append('move', null, details.previousPosition, details.position)
+    }
+  }
+}
+
+/**
+ * Every change to one reference in a collection, oldest first
+ */
+export function referenceHistory(collection: string, referenceId: string): ReferenceChange[] {
+  const rows = getDatabase()
+    .prepare('SELECT * FROM reference_changes WHERE collection_id = ? AND reference_id = ? ORDER BY change_id')
+    .all(collection, referenceId) as ChangeRow[]
+  return rows.map(toChange)
+}
+
+export function getChange(changeId: number): ReferenceChange | null {
+  const row = getDatabase().prepare('SELECT * FROM reference_changes WHERE change_id = ?').get(changeId) as ChangeRow | undefined
+  return row ? toChange(row) : null
+}
+
+/**
+ * Changes made in a collection after `at` (ISO timestamp), newest first
+ */
+export function changesAfter(collection: string, at: string): ReferenceChange[] {
+  const rows = getDatabase()
+    .prepare('SELECT * FROM reference_changes WHERE collection_id = ? AND changed_at > ? ORDER BY change_id DESC')
+    .all(collection, at) as ChangeRow[]
+  return rows.map(toChange)
+}
+
+/**
+ * A collection's log, newest first, optionally only changes after `since` or by one job
+ */
+export function listChanges(collection: string, options: { since?: string; jobId?: string; limit?: number } = {}): ReferenceChange[] {
+  const conditions: string[] = ['collection_id = ?']
+  const params: (string | number)[] = [collection]
+  if (options.since) {
+    conditions.push('changed_at > ?')
+    params.push(options.since)
+  }
+  if (options.jobId) {
+    conditions.push('actor_job_id = ?')
+    params.push(options.jobId)
+  }
+  params.push(options.limit ?? -1)
+
+  const rows = getDatabase()
+    .prepare(`SELECT * FROM reference_changes WHERE ${conditions.join(' AND ')} ORDER BY change_id DESC LIMIT ?`)
+    .all(...params) as ChangeRow[]
+  return rows.map(toChange)
+}
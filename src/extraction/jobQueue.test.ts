@@ -0,0 +1,48 @@
+import { test, after } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import config from '../config'
+
+// The queue directory is read when the module loads
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'job-queue-'))
+config.JOB_QUEUE_DIR = directory
+config.JOB_CONCURRENCY = 1
+
+after(() => {
+  fs.rmSync(directory, { recursive: true, force: true })
+})
+
+const settled = new Map<string, (outcome: string) => void>()
+const outcome = (jobId: string) => new Promise<string>(resolve => settled.set(jobId, resolve))
+
+test('runs queued jobs and removes them once they finish', async () => {
+  const { initJobQueue, enqueueJob } = await import('./jobQueue')
+  await initJobQueue(async (jobId, readInput) => {
+    try {
+      const input = await readInput()
+      settled.get(jobId)!(`read ${input.toString('utf-8')}`)
+    } catch (err) {
+      settled.get(jobId)!(`failed: ${(err as NodeJS.ErrnoException).code}`)
+      throw err
+    }
+  })
+
+  const done = outcome('job-1')
+  await enqueueJob('job-1', Buffer.from('%PDF'))
+  assert.equal(await done, 'read %PDF')
+
+  // An entry whose input has gone: the handler sees the error, and the next job still runs
+  const missing = outcome('job-2')
+  const next = outcome('job-3')
+  fs.writeFileSync(path.join(directory, 'job-2.json'), JSON.stringify({ jobId: 'job-2', state: 'queued', attempts: 0, enqueuedAt: new Date().toISOString() }))
+  await enqueueJob('job-3', Buffer.from('%PDF'))
+  assert.equal(await missing, 'failed: ENOENT')
+  assert.equal(await next, 'read %PDF')
+
+  for (let wait = 0; wait < 100 && fs.readdirSync(directory).length > 0; wait++) {
+    await new Promise(resolve => setTimeout(resolve, 10))
+  }
+  assert.deepEqual(fs.readdirSync(directory), [])
+})
@@ -0,0 +1,239 @@
+/**
+ * Durable job queue
+ *
+ * Each job is a JSON entry plus its input file in extraction-queue/, so queued and
+ * interrupted jobs survive a server restart:
+ * - a worker loop runs up to JOB_CONCURRENCY jobs at a time, oldest first
+ * - on boot, jobs left "running" by a previous process are re-queued (up to JOB_MAX_ATTEMPTS)
+ * - running jobs are cancelled through an AbortSignal passed to the handler
+ * - a finished job's entry and input are removed; the handler has recorded its outcome
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+import config from '../config'
+import { info, warn, error as logError } from '../utils/logging'
+
+export type QueueState = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+export interface QueueEntry {
+  jobId: string
+  state: QueueState
+  attempts: number           // Times the job was started (interrupted runs count)
+  enqueuedAt: string
+  startedAt?: string
+  finishedAt?: string
+  error?: string
+}
+
+// `readInput` is called inside the handler, so a missing input fails the job like any other error
+export type JobHandler = (jobId: string, readInput: () => Promise<Buffer>, signal: AbortSignal) => Promise<void>
+
+/**
+ * Thrown by handlers when they stop because the job was cancelled
+ */
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`)
+    this.name = 'JobCancelledError'
+  }
+}
+
+const QUEUE_DIR = config.JOB_QUEUE_DIR
+
+let handler: JobHandler | null = null
+const running = new Map<string, AbortController>()
+let pumping = false
+let pumpAgain = false
+
+function entryPath(jobId: string): string {
+  return path.join(QUEUE_DIR, `${jobId}.json`)
+}
+
+function inputPath(jobId: string): string {
+  return path.join(QUEUE_DIR, `${jobId}.input`)
+}
+
+async function writeEntry(entry: QueueEntry): Promise<void> {
+  // Write-then-rename so a crash never leaves a half-written entry
+  const target = entryPath(entry.jobId)
+  await fs.writeFile(`${target}.tmp`, JSON.stringify(entry, null, 2), 'utf-8')
+  await fs.rename(`${target}.tmp`, target)
+}
+
+/**
+ * Load a queue entry (null if the job was never queued or has been removed)
+ */
+export async function getQueueEntry(jobId: string): Promise<QueueEntry | null> {
+  try {
+    return JSON.parse(await fs.readFile(entryPath(jobId), 'utf-8')) as QueueEntry
+  } catch (err) {
+    return null
+  }
+}
+
+async function listEntries(): Promise<QueueEntry[]> {
+  const files = (await fs.readdir(QUEUE_DIR)).filter(f => f.endsWith('.json'))
+  const entries = await Promise.all(files.map(f => getQueueEntry(f.replace('.json', ''))))
+  return entries.filter((e): e is QueueEntry => e !== null)
+}
+
+async function removeInput(jobId: string): Promise<void> {
+  await fs.unlink(inputPath(jobId)).catch(() => undefined)
+}
+
+/**
+ * Start the worker loop, recovering jobs a previous process left behind
+ * Returns the jobs that were re-queued and the ones that ran out of attempts.
+ */
+export async function initJobQueue(jobHandler: JobHandler): Promise<{ resumed: string[]; failed: string[] }> {
+  await fs.mkdir(QUEUE_DIR, { recursive: true })
+  handler = jobHandler
+
+  const resumed: string[] = []
+  const failed: string[] = []
+
+  for (const entry of await listEntries()) {
+    if (entry.state !== 'running' || running.has(entry.jobId)) continue
+
+    if (entry.attempts >= config.JOB_MAX_ATTEMPTS) {
+      entry.state = 'failed'
+      entry.error = `Interrupted ${entry.attempts} times, giving up`
+      entry.finishedAt = new Date().toISOString()
+      await removeInput(entry.jobId)
+      failed.push(entry.jobId)
+    } else {
+      entry.state = 'queued'
+      resumed.push(entry.jobId)
+    }
+    await writeEntry(entry)
+  }
+
+  const queued = (await listEntries()).filter(e => e.state === 'queued').length
+  info(`[Queue] Initialized: ${QUEUE_DIR} (${queued} queued, ${resumed.length} resumed, ${failed.length} failed, concurrency ${config.JOB_CONCURRENCY})`)
+
+  void pump()
+  return { resumed, failed }
+}
+
+/**
+ * Persist a job and its input, then wake the worker loop
+ */
+export async function enqueueJob(jobId: string, input: Buffer): Promise<void> {
+  await fs.mkdir(QUEUE_DIR, { recursive: true })
+  await fs.writeFile(inputPath(jobId), input)
+  await writeEntry({
+    jobId,
+    state: 'queued',
+    attempts: 0,
+    enqueuedAt: new Date().toISOString(),
+  })
+  info(`[Queue] Enqueued ${jobId}`)
+  void pump()
+}
+
+/**
+ * Cancel a job: queued jobs are cancelled immediately, running jobs are signalled
+ * Returns the resulting state, or null if the job is not queued or running.
+ */
+export async function cancelJob(jobId: string): Promise<'cancelled' | 'cancelling' | null> {
+  const controller = running.get(jobId)
+  if (controller) {
+    controller.abort()
+    info(`[Queue] Cancellation requested for running job ${jobId}`)
+    return 'cancelling'
+  }
+
+  const entry = await getQueueEntry(jobId)
+  if (!entry || entry.state !== 'queued') {
+    return null
+  }
+
+  await removeQueueEntry(jobId)
+  info(`[Queue] Cancelled queued job ${jobId}`)
+  return 'cancelled'
+}
+
+/**
+ * Remove a job that is not running from the queue
+ */
+export async function removeQueueEntry(jobId: string): Promise<void> {
+  if (running.has(jobId)) {
+    throw new Error(`Job ${jobId} is still running`)
+  }
+  await fs.unlink(entryPath(jobId)).catch(() => undefined)
+  await removeInput(jobId)
+}
+
+/**
+ * Start queued jobs until the concurrency limit is reached
+ */
+async function pump(): Promise<void> {
+  if (!handler) return
+  if (pumping) {
+    pumpAgain = true
+    return
+  }
+
+  pumping = true
+  try {
+    do {
+      pumpAgain = false
+      const concurrency = Math.max(1, config.JOB_CONCURRENCY)
+      if (running.size >= concurrency) break
+
+      const queued = (await listEntries())
+        .filter(e => e.state === 'queued' && !running.has(e.jobId))
+        .sort((a, b) => a.enqueuedAt.localeCompare(b.enqueuedAt))
+
+      for (const entry of queued.slice(0, concurrency - running.size)) {
+        await startEntry(entry)
+      }
+    } while (pumpAgain)
+  } catch (err) {
+    logError('[Queue] Worker loop failed:', err)
+  } finally {
+    pumping = false
+  }
+}
+
+async function startEntry(entry: QueueEntry): Promise<void> {
+  const controller = new AbortController()
+  running.set(entry.jobId, controller)
+
+  entry.state = 'running'
+  entry.attempts++
+  entry.startedAt = new Date().toISOString()
+  await writeEntry(entry)
+  info(`[Queue] Starting ${entry.jobId} (attempt ${entry.attempts})`)
+
+  handler!(entry.jobId, () => fs.readFile(inputPath(entry.jobId)), controller.signal)
+    .then(() => finishEntry(entry, 'completed'))
+    .catch(err => finishEntry(
+      entry,
+      controller.signal.aborted || err instanceof JobCancelledError ? 'cancelled' : 'failed',
+      err
+    ))
+    .finally(() => {
+      running.delete(entry.jobId)
+      void pump()
+    })
+}
+
+/**
+ * Drop a job the handler is done with (it has saved the final state on the job itself)
+ */
+async function finishEntry(entry: QueueEntry, state: QueueState, err?: unknown): Promise<void> {
+  if (state === 'failed') {
+    warn(`[Queue] Job ${entry.jobId} failed: ${err instanceof Error ? err.message : String(err)}`)
+  } else {
+    info(`[Queue] Job ${entry.jobId} ${state}`)
+  }
+
+  try {
+    await fs.unlink(entryPath(entry.jobId))
+    await removeInput(entry.jobId)
+  } catch (removeErr) {
+    logError(`[Queue] Failed to remove ${state} job ${entry.jobId}:`, removeErr)
+  }
+}
@@ -1,9 +1,11 @@
-import OpenAI from 'openai'
+import pLimit from 'p-limit'
 import config from '../config'
 import { info, warn, error } from '../utils/logging'
-import { ExtractedReference } from '../types-simple'
-
-const openai = config.OPENAI_API_KEY ? new OpenAI({ apiKey: config.OPENAI_API_KEY }) : null
+import { ExtractedReference, LLMUsage, RejectedReferenceItem } from '../types-simple'
+import { getLLMProvider, LLMProvider } from '../llm/provider'
+import { completeWithRetry } from '../llm/retry'
+import { chunkByEntries, mergeChunkReferences } from './chunking'
+import { REFERENCE_RESPONSE_SCHEMA, parseReferencePayload, validateReferenceItem, describeRejectedItem } from './referenceSchema'
 
 const BATCH_EXTRACTION_SYSTEM_PROMPT = `You are an expert bibliographic reference parser. Extract COMPLETE information from academic references.
   You will be given a text with references. You will need to extract the information from the text and return it in the format below.
@@ -66,167 +68,172 @@ EXAMPLES OF WHAT TO IGNORE:
 
 Return only the JSON array, no other text.`
 
-export async function extractAllReferencesWithLLM(fullText: string): Promise<ExtractedReference[]> {
-  if (!openai) {
-    error('OpenAI API key not configured - LLM extraction is disabled')
+export interface LLMExtractionOptions {
+  usage?: LLMUsage                                            // Accumulates tokens/cost across calls
+  onChunkComplete?: (completed: number, total: number) => void  // Progress callback
+  rejected?: RejectedReferenceItem[]                          // Collects items that failed validation
+  signal?: AbortSignal                                        // Skips remaining chunks once aborted
+}
+
+export async function extractAllReferencesWithLLM(
+  fullText: string,
+  options: LLMExtractionOptions = {}
+): Promise<ExtractedReference[]> {
+  const provider = getLLMProvider()
+  if (!provider) {
+    error(`LLM provider "${config.LLM_PROVIDER}" is not configured - LLM extraction is disabled`)
     return []
   }
 
   info(`Extracting all references from text (${fullText.length} chars)...`)
 
+  // For texts with many references, chunk into smaller pieces to avoid truncation
+  const maxChars = config.LLM_CHUNK_CHARS // ~3.5k tokens input, leaves room for 12k tokens output
+  
+  if (fullText.length > maxChars) {
+    warn(`Text is long (${fullText.length} chars), processing in chunks to avoid truncation...`)
+    return await extractInChunks(provider, fullText, maxChars, options)
+  }
+
   try {
-    // For texts with many references, chunk into smaller pieces to avoid truncation
-    const maxChars = 15000 // ~3.5k tokens input, leaves room for 12k tokens output
-    
-    if (fullText.length > maxChars) {
-      warn(`Text is long (${fullText.length} chars), processing in chunks to avoid truncation...`)
-      return await extractInChunks(fullText, maxChars)
-    }
-    
-    let textToProcess = fullText
-
-    const response = await openai.chat.completions.create({
-      model: config.OPENAI_MODEL,
-      messages: [
-        {
-          role: 'system',
-          content: BATCH_EXTRACTION_SYSTEM_PROMPT,
-        },
-        {
-          role: 'user',
-          content: `Extract all bibliographic references from the following text:\n\n${textToProcess}`,
-        },
-      ],
+    const references = mergeChunkReferences(await extractChunk(provider, fullText, 1, options))
+    options.onChunkComplete?.(1, 1)
+    return references
+  } catch (err) {
+    error(`LLM batch extraction failed: ${err instanceof Error ? err.message : String(err)}`)
+    return []
+  }
+}
+
+/**
+ * Extract references from a single chunk of text
+ * Items are validated one by one against the reference schema; rejected items are reported
+ * through `options.rejected`. A truncated response is followed by up to LLM_MAX_CONTINUATIONS
+ * re-asks that continue after the last complete entry.
+ */
+async function extractChunk(
+  provider: LLMProvider,
+  textToProcess: string,
+  chunk: number,
+  options: LLMExtractionOptions
+): Promise<ExtractedReference[]> {
+  const references: ExtractedReference[] = []
+  let itemIndex = 0
+
+  for (let attempt = 0; attempt <= config.LLM_MAX_CONTINUATIONS; attempt++) {
+    const lastComplete = references[references.length - 1]
+    const response = await completeWithRetry(provider, {
+      system: BATCH_EXTRACTION_SYSTEM_PROMPT,
+      user: attempt === 0 || !lastComplete
+        ? `Extract all bibliographic references from the following text:\n\n${textToProcess}`
+        : continuationPrompt(textToProcess, lastComplete),
       temperature: 0,
-      response_format: { type: 'json_object' },
-      max_tokens: 16000, // Increased to handle more references
-    })
+      json: true,
+      jsonSchema: REFERENCE_RESPONSE_SCHEMA,
+      maxTokens: 16000, // Increased to handle more references
+    }, options.usage)
 
-    const content = response.choices[0]?.message?.content
-    if (!content) {
+    if (!response.content) {
       throw new Error('No response from LLM')
     }
 
-    // Parse the response
-    let parsed: any
+    let payload: { items: unknown[]; truncated: boolean }
     try {
-      parsed = JSON.parse(content)
-    } catch (e) {
-      error('Failed to parse LLM response as JSON:', content.substring(0, 500))
-      warn('Attempting to fix truncated JSON...')
-      
-      // Try to fix truncated JSON by adding closing brackets
-      try {
-        const fixed = content.trim() + ']}'
-        parsed = JSON.parse(fixed)
-        warn('Successfully recovered from truncated response')
-      } catch (e2) {
-        // If still fails, try just getting the array
-        try {
-          const match = content.match(/\[[\s\S]*\]/)?.[0]
-          if (match) {
-            parsed = { references: JSON.parse(match) }
-            warn('Extracted partial array from response')
-          } else {
-            throw new Error('Could not recover truncated JSON')
-          }
-        } catch (e3) {
-          throw new Error(`Invalid JSON response from LLM (tried recovery): ${e instanceof Error ? e.message : String(e)}`)
-        }
-      }
+      payload = parseReferencePayload(response.content)
+    } catch (err) {
+      // Cut off before the first entry was complete - nothing to salvage from this response
+      if (response.finishReason !== 'length') throw err
+      payload = { items: [], truncated: true }
     }
 
-    // Handle both direct array and wrapped object formats
-    let referencesArray: any[] = []
-    if (Array.isArray(parsed)) {
-      referencesArray = parsed
-    } else if (parsed.references && Array.isArray(parsed.references)) {
-      referencesArray = parsed.references
-    } else if (parsed.items && Array.isArray(parsed.items)) {
-      referencesArray = parsed.items
-    } else {
-      error('LLM response is not an array:', parsed)
-      throw new Error('LLM did not return an array of references')
+    const model = `${provider.name}/${response.model || provider.model}`
+    let accepted = 0
+    for (const item of payload.items) {
+      const result = validateReferenceItem(item)
+      if (result.ok) {
+        // Provenance: the orchestrator adds the job, file, pages and text span
+        references.push({ ...result.reference, sources: [{ kind: 'pdf', chunk, model }] })
+        accepted++
+      } else {
+        options.rejected?.push(describeRejectedItem(item, result.reasons, chunk, itemIndex))
+      }
+      itemIndex++
     }
 
-    info(`LLM extracted ${referencesArray.length} references`)
-
-    // Map to ExtractedReference format
-    const references: ExtractedReference[] = referencesArray.map((ref, index) => ({
-      citationKey: ref.citationKey || ref.key || `Ref-${index + 1}`,
-      firstAuthor: ref.firstAuthor || ref.first_author || '',
-      otherAuthors: ref.otherAuthors || ref.other_authors || '',
-      title: ref.title || '',
-      year: ref.year || '',
-      publisherJournal: ref.publisherJournal || ref.publisher || ref.journal || '',
-      volumeIssue: ref.volumeIssue || ref.volume || '',
-      pages: ref.pages || '',
-      extraNotes: ref.extraNotes || ref.notes || '',
-      isbn: ref.isbn || '',
-      referenceRaw: ref.referenceRaw || ref.raw || '',
-      confidence: 'high',
-      extractionMethod: 'llm',
-    }))
-
-    // Filter out any invalid references
-    const validReferences = references.filter(ref => 
-      ref.citationKey && 
-      !ref.citationKey.toLowerCase().includes('unknown') &&
-      (ref.title || ref.firstAuthor) // Must have at least title or author
-    )
-
-    info(`Filtered to ${validReferences.length} valid references`)
-    return validReferences
+    info(`LLM returned ${payload.items.length} references (${accepted} valid)${attempt > 0 ? ` in continuation ${attempt}` : ''}`)
 
-  } catch (err) {
-    error(`LLM batch extraction failed: ${err instanceof Error ? err.message : String(err)}`)
-    return []
+    const truncated = payload.truncated || response.finishReason === 'length'
+    if (!truncated) break
+
+    if (accepted === 0) {
+      warn('Truncated response contained no new complete references - giving up on continuation')
+      break
+    }
+    if (attempt === config.LLM_MAX_CONTINUATIONS) {
+      warn(`Response still truncated after ${config.LLM_MAX_CONTINUATIONS} continuations - later references may be missing`)
+      break
+    }
+    warn(`Response truncated after ${references.length} references, asking the model to continue`)
   }
+
+  // Continuations may repeat boundary entries; callers merge on content fingerprints
+  return references.map((ref, index) =>
+    ref.citationKey ? ref : { ...ref, citationKey: `Ref-${index + 1}` }
+  )
+}
+
+/**
+ * Re-ask prompt after a truncated response: continue after the last complete entry
+ */
+function continuationPrompt(text: string, last: ExtractedReference): string {
+  const anchor = [last.citationKey && `[${last.citationKey}]`, last.firstAuthor, last.year, last.title && `"${last.title}"`]
+    .filter(Boolean)
+    .join(' ')
+
+  return `Your previous answer was cut off. The last reference you extracted completely was:
+${anchor}
+
+Extract ONLY the references that come AFTER that entry in the text below, in order. Do not repeat that entry or any before it.
+
+${text}`
 }
 
 /**
  * Extract references in chunks for very long texts
+ * Chunks are cut on entry boundaries with overlap; results are merged on content fingerprints.
  */
-async function extractInChunks(fullText: string, chunkSize: number): Promise<ExtractedReference[]> {
-  const chunks: string[] = []
-  let currentPos = 0
+async function extractInChunks(
+  provider: LLMProvider,
+  fullText: string,
+  chunkSize: number,
+  options: LLMExtractionOptions
+): Promise<ExtractedReference[]> {
+  const chunks = chunkByEntries(fullText, chunkSize, config.LLM_CHUNK_OVERLAP_ENTRIES)
   
-  // Split text into chunks, trying to break at paragraph boundaries
-  while (currentPos < fullText.length) {
-    let endPos = Math.min(currentPos + chunkSize, fullText.length)
-    
-    // Try to break at a paragraph boundary (double newline)
-    if (endPos < fullText.length) {
-      const nextBreak = fullText.indexOf('\n\n', endPos - 500)
-      if (nextBreak > endPos - 500 && nextBreak < endPos + 500) {
-        endPos = nextBreak
-      }
-    }
-    
-    chunks.push(fullText.substring(currentPos, endPos))
-    currentPos = endPos
-  }
+  info(`Processing ${chunks.length} chunks (overlap: ${config.LLM_CHUNK_OVERLAP_ENTRIES} entries, concurrency: ${config.LLM_CONCURRENCY})...`)
   
-  info(`Processing ${chunks.length} chunks...`)
+  // Extract from chunks in parallel; results keep chunk order for merging
+  const limit = pLimit(Math.max(1, config.LLM_CONCURRENCY))
+  let completed = 0
+  const chunkResults = await Promise.all(chunks.map((chunk, i) => limit(async () => {
+    if (options.signal?.aborted) return []
+    info(`Processing chunk ${i + 1}/${chunks.length} (${chunk.length} chars)...`)
+    let chunkRefs: ExtractedReference[] = []
+    try {
+      chunkRefs = await extractChunk(provider, chunk, i + 1, options)
+    } catch (err) {
+      error(`LLM extraction failed for chunk ${i + 1}/${chunks.length}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+    completed++
+    options.onChunkComplete?.(completed, chunks.length)
+    return chunkRefs
+  })))
   
-  // Extract from each chunk
-  const allReferences: ExtractedReference[] = []
-  for (let i = 0; i < chunks.length; i++) {
-    info(`Processing chunk ${i + 1}/${chunks.length} (${chunks[i].length} chars)...`)
-    const chunkRefs = await extractAllReferencesWithLLM(chunks[i])
-    allReferences.push(...chunkRefs)
-  }
+  const allReferences = chunkResults.reduce<ExtractedReference[]>((all, refs) => all.concat(refs), [])
   
-  // Deduplicate across chunks (same citation key or raw text)
-  const seen = new Set<string>()
-  const unique = allReferences.filter(ref => {
-    const key = ref.citationKey.toLowerCase()
-    if (seen.has(key)) return false
-    seen.add(key)
-    return true
-  })
+  // Merge overlap duplicates and boundary fragments by content, not by citation key
+  const unique = mergeChunkReferences(allReferences)
   
-  info(`Extracted ${allReferences.length} total, ${unique.length} unique after deduplication`)
+  info(`Extracted ${allReferences.length} total, ${unique.length} unique after merging`)
   return unique
 }
-
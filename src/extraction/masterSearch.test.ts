@@ -0,0 +1,59 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { searchReferences, referenceTerms, MasterQuery } from './masterSearch'
+import { ExtractedReference } from '../types-simple'
+
+const reference = (id: string, firstAuthor: string, title: string, year: string): ExtractedReference => ({
+  id, citationKey: '', firstAuthor, otherAuthors: '', title, year, publisherJournal: '', volumeIssue: '', pages: '',
+  extraNotes: '', isbn: '', referenceRaw: '', confidence: 'medium', extractionMethod: 'llm',
+})
+
+const TABLE = [
+  reference('a', 'Wiener, N.', 'Cybernetics', '1948'),
+  reference('b', 'Shannon, C. E.', 'A mathematical theory of communication', '1948'),
+  reference('c', 'Hill, D. R.', 'The book of ingenious devices', '1979'),
+  reference('d', 'Wiener, N.', 'The human use of human beings', '1950'),
+  reference('e', 'Mitchell, T. M.', 'Machine learning', '1997'),
+]
+
+function search(references: ExtractedReference[], query: MasterQuery) {
+  return searchReferences(references, prefix => new Set(
+    references.filter(ref => referenceTerms(ref).some(term => term.indexOf(prefix) === 0)).map(ref => ref.id!)
+  ), query)!
+}
+
+/**
+ * Follow nextCursor to the end, returning the IDs of each page
+ */
+function allPages(references: ExtractedReference[], query: MasterQuery): string[][] {
+  const pages: string[][] = []
+  let cursor: string | undefined
+  do {
+    const page = search(references, { ...query, cursor })
+    pages.push(page.references.map(ref => ref.id!))
+    cursor = page.nextCursor
+  } while (cursor)
+  return pages
+}
+
+test('pages through the table in order without repeats', () => {
+  assert.deepEqual(allPages(TABLE, { limit: 2 }), [['a', 'b'], ['c', 'd'], ['e']])
+  assert.equal(search(TABLE, { limit: 2 }).matched, 5)
+  assert.equal(search(TABLE, {}).nextCursor, undefined)
+})
+
+test('pages a sorted search with ties on the sort value', () => {
+  assert.deepEqual(allPages(TABLE, { sort: 'year', order: 'desc', limit: 2 }), [['e', 'c'], ['d', 'a'], ['b']])
+  assert.deepEqual(allPages(TABLE, { q: 'wien', limit: 1 }), [['a'], ['d']])
+})
+
+test('resumes after the sort position of a reference deleted since', () => {
+  const first = search(TABLE, { sort: 'year', limit: 2 })
+  assert.deepEqual(first.references.map(ref => ref.id), ['a', 'b'])
+  const rest = search(TABLE.filter(ref => ref.id !== 'b'), { sort: 'year', limit: 2, cursor: first.nextCursor })
+  assert.deepEqual(rest.references.map(ref => ref.id), ['d', 'c'])
+})
+
+test('rejects a cursor it did not issue', () => {
+  assert.equal(searchReferences(TABLE, () => new Set(), { cursor: 'not-a-cursor' }), null)
+})
@@ -0,0 +1,185 @@
+/**
+ * Search, filtering, sorting and cursor pagination for the master table
+ * The full-text part uses an inverted index (search_terms: token → reference ID) that the
+ * database updates in the same transaction as the reference itself.
+ */
+
+import { ExtractedReference, ReferenceAnnotations } from '../types-simple'
+import { tokenize, extractSurname, normalizeForComparison } from '../utils/similarity'
+import { citedByCount } from './provenance'
+import { ReadingStatus } from './annotations'
+import { fullFamilyName } from './authors'
+
+// Columns searched by ?q=
+const SEARCHED_FIELDS = ['citationKey', 'title', 'firstAuthor', 'otherAuthors', 'publisherJournal', 'extraNotes'] as const
+
+export const MASTER_SORT_FIELDS = ['added', 'title', 'firstAuthor', 'year', 'citationKey', 'confidence', 'citedBy', 'rating'] as const
+
+export type MasterSortField = typeof MASTER_SORT_FIELDS[number]
+
+export interface MasterQuery {
+  q?: string
+  yearFrom?: number
+  yearTo?: number
+  hasAffiliation?: boolean
+  author?: string              // Any author whose family name starts with this, or with this ORCID iD
+  confidence?: ExtractedReference['confidence'][]
+  jobId?: string               // Only references found by this extraction job
+  tags?: string[]              // Annotations: all of these tags
+  readingStatus?: (ReadingStatus | 'none')[]
+  minRating?: number
+  hasNotes?: boolean
+  sort?: MasterSortField       // Default: table order
+  order?: 'asc' | 'desc'
+  limit?: number               // Default: every match
+  cursor?: string              // nextCursor of the previous page
+}
+
+export interface MasterQueryResult {
+  matched: number
+  references: ExtractedReference[]
+  nextCursor?: string
+}
+
+/**
+ * Tokens a reference is found by (the search index rows for it)
+ */
+export function referenceTerms(ref: ExtractedReference): string[] {
+  const tokens = new Set<string>()
+  SEARCHED_FIELDS.forEach(field => tokenize(ref[field] || '').forEach(token => tokens.add(token)))
+  return Array.from(tokens)
+}
+
+function yearNumber(ref: ExtractedReference): number | null {
+  const match = (ref.year || '').match(/\d{4}/)
+  return match ? parseInt(match[0], 10) : null
+}
+
+function sortValue(ref: ExtractedReference, field: MasterSortField, position: number, annotations?: ReferenceAnnotations): string | number {
+  switch (field) {
+    case 'title': return (ref.title || '').toLowerCase().replace(/^(the|a|an)\s+/, '')
+    case 'firstAuthor': return extractSurname(ref.firstAuthor)
+    case 'year': return yearNumber(ref) ?? ''
+    case 'citationKey': return (ref.citationKey || '').toLowerCase()
+    case 'confidence': return ref.confidenceScore ?? (ref.confidence === 'high' ? 0.9 : ref.confidence === 'medium' ? 0.6 : 0.3)
+    case 'citedBy': return citedByCount(ref)
+    case 'rating': return annotations?.rating ?? ''
+    default: return position
+  }
+}
+
+/**
+ * Compare sort values; empty values go last in either direction
+ */
+function compareValues(a: string | number, b: string | number, descending: boolean): number {
+  if (a === '' || b === '') return a === b ? 0 : a === '' ? 1 : -1
+  if (a === b) return 0
+  const result = a < b ? -1 : 1
+  return descending ? -result : result
+}
+
+function encodeCursor(id: string, value: string | number): string {
+  return Buffer.from(JSON.stringify({ id, value }), 'utf-8').toString('base64url')
+}
+
+function decodeCursor(cursor: string): { id: string; value: string | number } | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'))
+    if (parsed && typeof parsed.id === 'string' && (typeof parsed.value === 'string' || typeof parsed.value === 'number')) {
+      return parsed
+    }
+  } catch (err) {
+    // Not one of ours
+  }
+  return null
+}
+
+/**
+ * Filter, search, sort and page the table
+ * Search terms must all match as word prefixes ("wien" finds "wiener"); `idsWithPrefix` looks
+ * a prefix up in the index; `annotations` (by reference ID) serve the reading-list filters.
+ * A cursor resumes after the reference it names; if that reference has since been deleted,
+ * after its sort position instead.
+ * Returns null when the cursor is not valid.
+ */
+export function searchReferences(
+  references: ExtractedReference[],
+  idsWithPrefix: (prefix: string) => Set<string>,
+  query: MasterQuery,
+  annotations: Map<string, ReferenceAnnotations> = new Map()
+): MasterQueryResult | null {
+  let matches = references.map((reference, position) => ({ reference, position }))
+
+  const terms = tokenize(query.q || '')
+  if (terms.length > 0) {
+    const idSets = terms.map(idsWithPrefix)
+    matches = matches.filter(({ reference }) => reference.id && idSets.every(ids => ids.has(reference.id!)))
+  }
+
+  if (query.yearFrom !== undefined || query.yearTo !== undefined) {
+    matches = matches.filter(({ reference }) => {
+      const year = yearNumber(reference)
+      return year !== null
+        && (query.yearFrom === undefined || year >= query.yearFrom)
+        && (query.yearTo === undefined || year <= query.yearTo)
+    })
+  }
+  if (query.author) {
+    const wanted = normalizeForComparison(query.author)
+    matches = matches.filter(({ reference }) => (reference.authors || []).some(author =>
+      author.orcid === query.author || normalizeForComparison(author.family).indexOf(wanted) === 0
+        || normalizeForComparison(fullFamilyName(author)).indexOf(wanted) === 0))
+  }
+  if (query.hasAffiliation !== undefined) {
+    matches = matches.filter(({ reference }) => Boolean(reference.firstAuthorAffiliation) === query.hasAffiliation)
+  }
+  if (query.confidence && query.confidence.length > 0) {
+    matches = matches.filter(({ reference }) => query.confidence!.indexOf(reference.confidence) !== -1)
+  }
+  if (query.jobId) {
+    matches = matches.filter(({ reference }) => (reference.sources || []).some(source => source.jobId === query.jobId))
+  }
+
+  const annotated = (reference: ExtractedReference) => (reference.id ? annotations.get(reference.id) : undefined)
+  if (query.tags && query.tags.length > 0) {
+    matches = matches.filter(({ reference }) => {
+      const tags = annotated(reference)?.tags || []
+      return query.tags!.every(tag => tags.indexOf(tag) !== -1)
+    })
+  }
+  if (query.readingStatus && query.readingStatus.length > 0) {
+    matches = matches.filter(({ reference }) => query.readingStatus!.indexOf(annotated(reference)?.readingStatus || 'none') !== -1)
+  }
+  if (query.minRating !== undefined) {
+    matches = matches.filter(({ reference }) => (annotated(reference)?.rating || 0) >= query.minRating!)
+  }
+  if (query.hasNotes !== undefined) {
+    matches = matches.filter(({ reference }) => Boolean(annotated(reference)?.notes) === query.hasNotes)
+  }
+
+  const field = query.sort || 'added'
+  const descending = query.order === 'desc'
+  const sorted = matches
+    .map(match => ({ ...match, value: sortValue(match.reference, field, match.position, annotated(match.reference)) }))
+    .sort((a, b) => compareValues(a.value, b.value, descending) || a.position - b.position)
+
+  let start = 0
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor)
+    if (!cursor) return null
+    const at = sorted.findIndex(item => item.reference.id === cursor.id)
+    start = at !== -1
+      ? at + 1
+      : sorted.filter(item => compareValues(item.value, cursor.value, descending) <= 0).length
+  }
+
+  const end = query.limit ? Math.min(start + query.limit, sorted.length) : sorted.length
+  const page = sorted.slice(start, end)
+  const last = page[page.length - 1]
+
+  return {
+    matched: sorted.length,
+    references: page.map(item => item.reference),
+    nextCursor: end < sorted.length && last && last.reference.id ? encodeCursor(last.reference.id, last.value) : undefined,
+  }
+}
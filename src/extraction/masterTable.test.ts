@@ -0,0 +1,90 @@
+import { test, after } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import config from '../config'
+import { createCollection } from './collections'
+import { createReference, updateReference, deleteReference, getReference, loadMasterTable, revertChange, restoreMasterTable } from './masterTable'
+import { referenceHistory } from './history'
+import { ChangeActor } from '../types-simple'
+
+// The database opens on first use, so pointing the config at a scratch file is enough
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'master-table-'))
+config.DATABASE_FILE = path.join(directory, 'biblio.db')
+
+const USER: ChangeActor = { kind: 'manual', user: 'reviewer' }
+let collections = 0
+
+// Change timestamps have millisecond resolution; keep the steps of a test apart
+const tick = () => new Promise(resolve => setTimeout(resolve, 5))
+
+after(() => {
+  fs.rmSync(directory, { recursive: true, force: true })
+})
+
+async function freshCollection(): Promise<string> {
+  const id = `test-${++collections}`
+  await createCollection(id)
+  return id
+}
+
+test('reverts a field update while the field still holds its value', async () => {
+  const collection = await freshCollection()
+  const created = await createReference(collection, { firstAuthor: 'Wiener, N.', title: 'Cybernetics', year: '1948' }, USER)
+  await updateReference(collection, created.id!, { year: '1949' }, USER)
+
+  const update = referenceHistory(collection, created.id!).find(change => change.action === 'update')!
+  assert.equal(update.field, 'year')
+  const reverted = await revertChange(collection, update.changeId, USER)
+  assert.equal(reverted!.year, '1948')
+  assert.equal(referenceHistory(collection, created.id!).pop()!.reverts, update.changeId)
+
+  await updateReference(collection, created.id!, { year: '1950' }, USER)
+  await assert.rejects(revertChange(collection, update.changeId, USER), /changed again/)
+  await assert.rejects(revertChange('default', update.changeId, USER), /No change/)
+})
+
+test('reverts a deletion back into its old position', async () => {
+  const collection = await freshCollection()
+  const first = await createReference(collection, { firstAuthor: 'Wiener, N.', title: 'Cybernetics' }, USER)
+  const second = await createReference(collection, { firstAuthor: 'Hill, D. R.', title: 'The book of ingenious devices' }, USER)
+  await createReference(collection, { firstAuthor: 'Mitchell, T. M.', title: 'Machine learning' }, USER)
+
+  await deleteReference(collection, second.id!, USER)
+  assert.equal(await getReference(collection, second.id!), null)
+
+  const deletion = referenceHistory(collection, second.id!).pop()!
+  assert.equal(deletion.action, 'delete')
+  await revertChange(collection, deletion.changeId, USER)
+  assert.deepEqual((await loadMasterTable(collection)).map(ref => ref.title), ['Cybernetics', 'The book of ingenious devices', 'Machine learning'])
+  await assert.rejects(revertChange(collection, deletion.changeId, USER), /exists again/)
+
+  const creation = referenceHistory(collection, first.id!)[0]
+  await revertChange(collection, creation.changeId, USER)
+  assert.equal(await getReference(collection, first.id!), null)
+})
+
+test('restores the table to an earlier time, and only previews with dryRun', async () => {
+  const collection = await freshCollection()
+  const kept = await createReference(collection, { firstAuthor: 'Wiener, N.', title: 'Cybernetics', year: '1948' }, USER)
+  const removed = await createReference(collection, { firstAuthor: 'Hill, D. R.', title: 'The book of ingenious devices', year: '1979' }, USER)
+  await tick()
+  const at = new Date().toISOString()
+  await tick()
+
+  await updateReference(collection, kept.id!, { year: '1961', publisherJournal: 'MIT Press' }, USER)
+  await deleteReference(collection, removed.id!, USER)
+  await createReference(collection, { firstAuthor: 'Mitchell, T. M.', title: 'Machine learning', year: '1997' }, USER)
+
+  const preview = await restoreMasterTable(collection, at, USER, { dryRun: true })
+  assert.deepEqual(preview, { at, undone: 4, created: 1, updated: 1, deleted: 1, total: 2 })
+  assert.equal((await loadMasterTable(collection)).length, 2)
+  assert.equal((await getReference(collection, kept.id!))!.year, '1961')
+
+  await restoreMasterTable(collection, at, USER)
+  const table = await loadMasterTable(collection)
+  assert.deepEqual(table.map(ref => [ref.title, ref.year]), [['Cybernetics', '1948'], ['The book of ingenious devices', '1979']])
+  assert.equal(table[0].publisherJournal, '')
+  assert.match(referenceHistory(collection, removed.id!).pop()!.note!, /^restore to /)
+})
@@ -1,200 +1,636 @@
 /**
  * Master References Table - Persistent storage across sessions
  * 
- * This maintains a single source of truth for all extracted references.
- * - Persists to disk (JSON + CSV)
- * - Deduplicates by citation key or raw text
+ * This maintains a single source of truth for all extracted references, one table per
+ * collection (project); every function takes the collection it works on.
+ * - Persists to the SQLite database (see database.ts); every change is one transaction
+ * - Deduplicates by citation key or raw text; fuzzy duplicates are reviewed and merged
+ * - Every entry has a stable generated `id`; curators get, create, patch and delete by ID
+ * - A search index is kept with the table for filtered, paginated queries
+ * - Every change is logged with who made it (history.ts); changes can be reverted
+ *   one at a time, or the whole table restored to a point in time
  * - Supports incremental additions
  * - Can be enhanced in Phase 2 (emails, affiliations, etc.)
+ * CSV / Excel / BibTeX files are generated on demand by the download routes.
  */
 
-import fs from 'fs/promises'
-import path from 'path'
-import { ExtractedReference } from '../types-simple'
-import { info, warn, error as logError } from '../utils/logging'
-import ExcelJS from 'exceljs'
-import { Parser } from 'json2csv'
-
-const MASTER_TABLE_DIR = path.join(process.cwd(), 'master-references')
-const MASTER_TABLE_JSON = path.join(MASTER_TABLE_DIR, 'references.json')
-const MASTER_TABLE_CSV = path.join(MASTER_TABLE_DIR, 'references.csv')
-const MASTER_TABLE_XLSX = path.join(MASTER_TABLE_DIR, 'references.xlsx')
-
-// Ensure directory exists
-async function ensureDir() {
-  try {
-    await fs.mkdir(MASTER_TABLE_DIR, { recursive: true })
-  } catch (err) {
-    logError('Failed to create master table directory:', err)
-  }
+import { ExtractedReference, ChangeActor, ReferenceChange } from '../types-simple'
+import { info, warn } from '../utils/logging'
+import { compareReferences, findDuplicateClusters, mergeReferences, clusterId, DuplicateCluster, MergeChoices, MergeColumn } from './duplicates'
+import { mergeSources } from './provenance'
+import { EditableField } from './referenceSchema'
+import { searchReferences, MasterQuery, MasterQueryResult } from './masterSearch'
+import { getDatabase, transaction, writeReferenceRow } from './database'
+import { recordChange, changedFields, changesAfter, getChange, ChangeDetails } from './history'
+import { loadAnnotations, copyAnnotations, mergeAnnotations } from './annotations'
+import { syncAuthors } from './authors'
+import { randomUUID } from 'crypto'
+
+/**
+ * All references in table order
+ */
+function selectReferences(collection: string): ExtractedReference[] {
+  const rows = getDatabase()
+    .prepare('SELECT data FROM master_references WHERE collection_id = ? ORDER BY position')
+    .all(collection) as { data: string }[]
+  return rows.map(row => JSON.parse(row.data) as ExtractedReference)
+}
+
+function selectReference(collection: string, id: string): ExtractedReference | null {
+  const row = getDatabase()
+    .prepare('SELECT data FROM master_references WHERE id = ? AND collection_id = ?')
+    .get(id, collection) as { data: string } | undefined
+  return row ? JSON.parse(row.data) as ExtractedReference : null
+}
+
+function selectPosition(id: string): number | undefined {
+  const row = getDatabase().prepare('SELECT position FROM master_references WHERE id = ?').get(id) as { position: number } | undefined
+  return row?.position
+}
+
+function countReferences(collection: string): number {
+  const row = getDatabase().prepare('SELECT COUNT(*) AS total FROM master_references WHERE collection_id = ?').get(collection)
+  return (row as { total: number }).total
 }
 
 /**
  * Load all references from master table
  */
-export async function loadMasterTable(): Promise<ExtractedReference[]> {
-  await ensureDir()
-  
-  try {
-    const data = await fs.readFile(MASTER_TABLE_JSON, 'utf-8')
-    const references = JSON.parse(data) as ExtractedReference[]
-    info(`Loaded ${references.length} references from master table`)
-    return references
-  } catch (err) {
-    // File doesn't exist yet, return empty array
-    info('Master table not found, starting fresh')
-    return []
-  }
+export async function loadMasterTable(collection: string): Promise<ExtractedReference[]> {
+  const references = selectReferences(collection)
+  info(`Loaded ${references.length} references from master table`)
+  return references
 }
 
 /**
- * Save references to master table (JSON + CSV + Excel)
+ * Write a reference and log how it differs from `before` (the stored version, null if new)
+ * A reference is never taken over from another collection (IDs are unique across them).
  */
-export async function saveMasterTable(references: ExtractedReference[]): Promise<void> {
-  await ensureDir()
-  
-  try {
-    // Save JSON
-    await fs.writeFile(MASTER_TABLE_JSON, JSON.stringify(references, null, 2), 'utf-8')
-    info(`Saved ${references.length} references to master table (JSON)`)
-    
-    // Save CSV
-    if (references.length > 0) {
-      const parser = new Parser({
-        fields: [
-          'citationKey',
-          'firstAuthor',
-          'otherAuthors',
-          'firstAuthorAffiliation',
-          'title',
-          'year',
-          'publisherJournal',
-          'volumeIssue',
-          'pages',
-          'extraNotes',
-          'isbn',
-        ],
-      })
-      const csv = parser.parse(references)
-      await fs.writeFile(MASTER_TABLE_CSV, csv, 'utf-8')
-      info(`Saved master table (CSV)`)
-      
-      // Save Excel
-      await saveAsExcel(references)
-      info(`Saved master table (Excel)`)
+function putReference(
+  collection: string,
+  before: ExtractedReference | null,
+  after: ExtractedReference,
+  actor: ChangeActor,
+  details: ChangeDetails = {}
+): void {
+  const db = getDatabase()
+  if (!before && after.id) {
+    const other = db.prepare('SELECT collection_id FROM master_references WHERE id = ?').get(after.id) as { collection_id: string } | undefined
+    if (other) {
+      throw new MasterTableError(`Reference ${after.id} is in collection ${other.collection_id}; move it back first`, 409)
     }
-  } catch (err) {
-    logError('Failed to save master table:', err)
-    throw err
   }
+  const previousPosition = before ? selectPosition(before.id!) : undefined
+  const position = writeReferenceRow(db, after, collection, details.position)
+  recordChange(db, collection, before, after, actor, { ...details, position, previousPosition })
+}
+
+function removeReference(collection: string, reference: ExtractedReference, actor: ChangeActor, details: ChangeDetails = {}): void {
+  const position = selectPosition(reference.id!)
+  getDatabase().prepare('DELETE FROM master_references WHERE id = ?').run(reference.id)
+  recordChange(getDatabase(), collection, reference, null, actor, { ...details, position })
+}
+
+export interface MasterTableDuplicate {
+  reference: ExtractedReference
+  matchedBy: 'citationKey' | 'referenceRaw'
+  existingKey: string        // Citation key of the entry it duplicates (or an earlier new entry)
+  existing: ExtractedReference
+}
+
+export interface MasterTablePlan {
+  toAdd: ExtractedReference[]
+  duplicates: MasterTableDuplicate[]
+  existingCount: number
 }
 
 /**
- * Add new references to master table (with deduplication)
+ * Decide which new references would be added and which are duplicates (nothing is saved)
+ * Deduplicates by normalized raw text, or by citation key (case-insensitive) when the content
+ * agrees too: generated keys like "Ref-3" repeat across PDFs for unrelated works. Checked
+ * against the table and against earlier references in the same batch.
  */
-export async function addToMasterTable(newReferences: ExtractedReference[]): Promise<{
-  added: number
-  duplicates: number
-  total: number
-}> {
-  const existing = await loadMasterTable()
+export function planMasterTableAdditions(existing: ExtractedReference[], newReferences: ExtractedReference[]): MasterTablePlan {
+  // Build lookups of existing reference identifiers
+  const existingKeys = new Map<string, ExtractedReference[]>()
+  const existingRawTexts = new Map<string, ExtractedReference>()
   
-  // Build a set of existing reference identifiers for fast lookup
-  const existingKeys = new Set<string>()
-  const existingRawTexts = new Set<string>()
-  
-  existing.forEach(ref => {
+  const remember = (ref: ExtractedReference) => {
     if (ref.citationKey) {
-      existingKeys.add(ref.citationKey.toLowerCase())
+      const key = ref.citationKey.toLowerCase()
+      existingKeys.set(key, (existingKeys.get(key) || []).concat(ref))
     }
     if (ref.referenceRaw) {
-      existingRawTexts.add(normalizeText(ref.referenceRaw))
+      existingRawTexts.set(normalizeText(ref.referenceRaw), ref)
     }
-  })
+  }
+  existing.forEach(remember)
   
-  // Filter out duplicates
-  let added = 0
-  let duplicates = 0
+  const toAdd: ExtractedReference[] = []
+  const duplicates: MasterTableDuplicate[] = []
   
   for (const newRef of newReferences) {
-    const isDuplicate = 
-      (newRef.citationKey && existingKeys.has(newRef.citationKey.toLowerCase())) ||
-      (newRef.referenceRaw && existingRawTexts.has(normalizeText(newRef.referenceRaw)))
+    const keyMatch = newRef.citationKey
+      ? (existingKeys.get(newRef.citationKey.toLowerCase()) || []).find(ref => isSameWork(ref, newRef))
+      : undefined
+    const rawMatch = newRef.referenceRaw ? existingRawTexts.get(normalizeText(newRef.referenceRaw)) : undefined
     
-    if (isDuplicate) {
-      duplicates++
-      warn(`Skipping duplicate: ${newRef.citationKey || newRef.title}`)
+    if (keyMatch !== undefined) {
+      duplicates.push({ reference: newRef, matchedBy: 'citationKey', existingKey: keyMatch.citationKey, existing: keyMatch })
+    } else if (rawMatch !== undefined) {
+      duplicates.push({ reference: newRef, matchedBy: 'referenceRaw', existingKey: rawMatch.citationKey, existing: rawMatch })
     } else {
-      existing.push(newRef)
-      added++
-      if (newRef.citationKey) {
-        existingKeys.add(newRef.citationKey.toLowerCase())
-      }
-      if (newRef.referenceRaw) {
-        existingRawTexts.add(normalizeText(newRef.referenceRaw))
-      }
+      toAdd.push(newRef)
+      remember(newRef)
     }
   }
   
-  // Save updated table
-  await saveMasterTable(existing)
+  return { toAdd, duplicates, existingCount: existing.length }
+}
+
+/**
+ * Same citation key: a duplicate unless both have titles and the content clearly differs
+ */
+function isSameWork(a: ExtractedReference, b: ExtractedReference): boolean {
+  if (!a.title || !b.title) return true
+  return compareReferences(a, b).score >= 0.5
+}
+
+/**
+ * Preview what addToMasterTable would do, without saving
+ */
+export async function previewMasterTableAdditions(collection: string, newReferences: ExtractedReference[]): Promise<MasterTablePlan> {
+  return planMasterTableAdditions(selectReferences(collection), newReferences)
+}
+
+/**
+ * Add references with deduplication (callers run it inside their transaction)
+ * A duplicate is not added again, but its sources are recorded on the entry it duplicates.
+ */
+function applyAdditions(collection: string, newReferences: ExtractedReference[], actor: ChangeActor, details: ChangeDetails = {}): MasterTablePlan {
+  // Copies, so recording sources does not change the caller's references
+  const plan = planMasterTableAdditions(selectReferences(collection), newReferences.map(ref => ({ ...ref })))
+
+  plan.toAdd.forEach(ref => putReference(collection, null, ref, actor, details))
+  plan.duplicates.forEach(duplicate => {
+    const before = { ...duplicate.existing }
+    duplicate.existing.sources = mergeSources(duplicate.existing.sources, duplicate.reference.sources)
+    putReference(collection, before, duplicate.existing, actor, details)
+  })
+  return plan
+}
+
+/**
+ * Add new references to master table (with deduplication)
+ */
+export async function addToMasterTable(collection: string, newReferences: ExtractedReference[], actor: ChangeActor): Promise<{
+  added: number
+  duplicates: number
+  total: number
+}> {
+  const { plan, total } = transaction(() => {
+    const plan = applyAdditions(collection, newReferences, actor)
+    return { plan, total: plan.existingCount + plan.toAdd.length }
+  })
   
-  info(`Master table updated: ${added} added, ${duplicates} duplicates skipped, ${existing.length} total`)
+  plan.duplicates.forEach(duplicate => {
+    warn(`Skipping duplicate: ${duplicate.reference.citationKey || duplicate.reference.title}`)
+  })
+  info(`Master table ${collection} updated: ${plan.toAdd.length} added, ${plan.duplicates.length} duplicates skipped, ${total} total`)
   
   return {
-    added,
-    duplicates,
-    total: existing.length,
+    added: plan.toAdd.length,
+    duplicates: plan.duplicates.length,
+    total,
+  }
+}
+
+/**
+ * Copy or move references (all, or those with the given IDs) to another collection
+ * The target deduplicates them like any addition. Copies get new IDs; moved references keep
+ * theirs and leave the source collection, including those the target already had.
+ */
+export async function transferReferences(
+  from: string,
+  to: string,
+  ids: string[] | undefined,
+  actor: ChangeActor,
+  options: { move?: boolean } = {}
+): Promise<{ transferred: number; duplicates: number; total: number }> {
+  if (from === to) {
+    throw new MasterTableError('Source and target collection are the same', 400)
+  }
+
+  const { plan, total } = transaction(() => {
+    const source = selectReferences(from)
+    let selected = source
+    if (ids) {
+      const missing = ids.filter(id => !source.some(ref => ref.id === id))
+      if (missing.length > 0) {
+        throw new MasterTableError(`No reference with ID ${missing.join(', ')} in collection ${from}`, 404)
+      }
+      selected = source.filter(ref => ids.indexOf(ref.id!) !== -1)
+    }
+
+    // Copies get their IDs up front so their annotations can be copied along
+    const originals = new Map<string, string>()
+    const incoming = selected.map(ref => {
+      if (options.move) return { ...ref }
+      const copy = { ...ref, id: randomUUID() }
+      originals.set(copy.id, ref.id!)
+      return copy
+    })
+    if (options.move) {
+      selected.forEach(ref => removeReference(from, ref, actor, { note: `moved to ${to}` }))
+    }
+    const plan = applyAdditions(to, incoming, actor, { note: options.move ? `moved from ${from}` : `copied from ${from}` })
+    plan.toAdd.forEach(ref => {
+      const original = originals.get(ref.id!)
+      if (original) copyAnnotations(getDatabase(), original, ref.id!)
+    })
+    if (options.move) {
+      plan.duplicates.forEach(duplicate => mergeAnnotations(getDatabase(), [duplicate.reference.id!], duplicate.existing.id!))
+    }
+    return { plan, total: plan.existingCount + plan.toAdd.length }
+  })
+
+  info(`${options.move ? 'Moved' : 'Copied'} ${plan.toAdd.length} references from ${from} to ${to} (${plan.duplicates.length} already there)`)
+  return { transferred: plan.toAdd.length, duplicates: plan.duplicates.length, total }
+}
+
+/**
+ * Candidate duplicate clusters in the master table, for review
+ */
+export async function getDuplicateClusters(collection: string, threshold?: number): Promise<DuplicateCluster[]> {
+  return findDuplicateClusters(selectReferences(collection), threshold)
+}
+
+/**
+ * A request the master table cannot carry out (unknown reference, invalid target, conflict)
+ */
+export class MasterTableError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'MasterTableError'
+    this.status = status
   }
 }
 
 /**
- * Update a specific reference in master table (for Phase 2 enhancement)
+ * Merge references into one entry that takes the place of the first of them
+ * Target a cluster from getDuplicateClusters (by ID), reference IDs or table indexes.
+ * The merged entry keeps the ID of the copy its columns default to.
+ * With dryRun the merged entry is returned but nothing is saved.
+ */
+export async function mergeMasterTableReferences(
+  collection: string,
+  target: { clusterId?: string; ids?: string[]; indexes?: number[] },
+  choices: MergeChoices,
+  actor: ChangeActor,
+  options: { dryRun?: boolean } = {}
+): Promise<{
+  reference: ExtractedReference
+  fieldSources: Partial<Record<MergeColumn, number | 'custom'>>
+  mergedIndexes: number[]
+  total: number
+}> {
+  const result = transaction(() => {
+    const references = selectReferences(collection)
+    let indexes: number[]
+
+    if (target.clusterId) {
+      const cluster = findDuplicateClusters(references).find(c => c.id === target.clusterId)
+        // Also accept clusters found with a different threshold, as long as the members are unchanged
+        || findDuplicateClusters(references, 0).find(c => c.id === target.clusterId)
+      if (!cluster) {
+        throw new MasterTableError(`Duplicate cluster ${target.clusterId} not found (the table may have changed)`, 404)
+      }
+      indexes = cluster.members.map(member => member.index)
+    } else if (target.ids) {
+      const missing = target.ids.filter(id => !references.some(ref => ref.id === id))
+      if (missing.length > 0) {
+        throw new MasterTableError(`No reference with ID ${missing.join(', ')}`, 404)
+      }
+      indexes = references
+        .map((ref, index) => (target.ids!.indexOf(ref.id!) !== -1 ? index : -1))
+        .filter(index => index !== -1)
+    } else {
+      indexes = Array.from(new Set(target.indexes || [])).sort((a, b) => a - b)
+      const invalid = indexes.filter(index => !Number.isInteger(index) || index < 0 || index >= references.length)
+      if (invalid.length > 0) {
+        throw new MasterTableError(`No reference at index ${invalid.join(', ')}`, 404)
+      }
+    }
+
+    if (indexes.length < 2) {
+      throw new MasterTableError('A merge needs at least two references', 400)
+    }
+
+    const members = indexes.map(index => references[index])
+    const { reference, fieldSources } = mergeReferences(members, choices)
+
+    if (options.dryRun) {
+      return { reference, fieldSources, mergedIndexes: indexes, total: references.length }
+    }
+
+    // The other copies are deleted; the one whose ID the merged entry keeps is updated in place
+    const position = selectPosition(members[0].id!)
+    members
+      .filter(member => member.id !== reference.id)
+      .forEach(member => removeReference(collection, member, actor, { note: 'merge' }))
+    const survivor = members.filter(member => member.id === reference.id)[0]
+    putReference(collection, survivor, reference, actor, { position, note: 'merge' })
+    mergeAnnotations(getDatabase(), members.map(member => member.id!), reference.id!)
+
+    info(`Merged ${indexes.length} references into ${reference.citationKey || reference.title} (cluster ${clusterId(members)})`)
+    return { reference, fieldSources, mergedIndexes: indexes, total: references.length - indexes.length + 1 }
+  })
+
+  return result
+}
+
+/**
+ * Get one reference by ID
+ */
+export async function getReference(collection: string, id: string): Promise<ExtractedReference | null> {
+  return selectReference(collection, id)
+}
+
+/**
+ * Add a reference entered by hand (fields already validated)
+ * Refused with 409 when it duplicates an entry, the same way extracted references are skipped.
+ */
+export async function createReference(collection: string, fields: Partial<Pick<ExtractedReference, EditableField>>, actor: ChangeActor): Promise<ExtractedReference> {
+  const reference: ExtractedReference = {
+    citationKey: '',
+    firstAuthor: '',
+    otherAuthors: '',
+    title: '',
+    year: '',
+    publisherJournal: '',
+    volumeIssue: '',
+    pages: '',
+    extraNotes: '',
+    isbn: '',
+    referenceRaw: '',
+    confidence: 'high',
+    ...fields,
+    extractionMethod: 'manual',
+  }
+  syncAuthors(reference, Object.keys(fields))
+
+  transaction(() => {
+    const plan = planMasterTableAdditions(selectReferences(collection), [reference])
+    if (plan.duplicates.length > 0) {
+      const existing = plan.duplicates[0].existing
+      throw new MasterTableError(`Duplicates reference ${existing.id} (${existing.citationKey || existing.title})`, 409)
+    }
+    putReference(collection, null, reference, actor)
+  })
+
+  info(`Created reference ${reference.id}: ${reference.citationKey || reference.title}`)
+  return reference
+}
+
+/**
+ * Update a specific reference in master table (manual edits and Phase 2 enhancement)
  */
 export async function updateReference(
-  citationKey: string,
-  updates: Partial<ExtractedReference>
-): Promise<boolean> {
-  const references = await loadMasterTable()
-  const index = references.findIndex(
-    ref => ref.citationKey.toLowerCase() === citationKey.toLowerCase()
-  )
+  collection: string,
+  id: string,
+  updates: Partial<ExtractedReference>,
+  actor: ChangeActor
+): Promise<ExtractedReference> {
+  const updated = transaction(() => {
+    const current = selectReference(collection, id)
+    if (!current) {
+      throw new MasterTableError(`No reference with ID ${id}`, 404)
+    }
+
+    // Merge updates (the ID never changes)
+    const updated: ExtractedReference = {
+      ...current,
+      ...updates,
+      id,
+    }
+    syncAuthors(updated, Object.keys(updates))
+    if (!updated.title && !updated.firstAuthor) {
+      throw new MasterTableError('A reference needs a title or a first author', 400)
+    }
+    putReference(collection, current, updated, actor)
+    return updated
+  })
   
-  if (index === -1) {
-    warn(`Reference not found for update: ${citationKey}`)
-    return false
+  info(`Updated reference ${id}: ${Object.keys(updates).join(', ')}`)
+  return updated
+}
+
+/**
+ * Delete one reference by ID
+ */
+export async function deleteReference(collection: string, id: string, actor: ChangeActor): Promise<{ reference: ExtractedReference; total: number }> {
+  const reference = transaction(() => {
+    const reference = selectReference(collection, id)
+    if (!reference) {
+      throw new MasterTableError(`No reference with ID ${id}`, 404)
+    }
+    removeReference(collection, reference, actor)
+    return reference
+  })
+
+  info(`Deleted reference ${id}: ${reference.citationKey || reference.title}`)
+  return { reference, total: countReferences(collection) }
+}
+
+/**
+ * IDs of references with an indexed token starting with `prefix`
+ */
+function idsWithTermPrefix(prefix: string): Set<string> {
+  const rows = getDatabase()
+    .prepare('SELECT DISTINCT reference_id FROM search_terms WHERE term >= ? AND term < ?')
+    .all(prefix, `${prefix}\uffff`) as { reference_id: string }[]
+  return new Set(rows.map(row => row.reference_id))
+}
+
+/**
+ * Search, filter, sort and page the master table (see masterSearch.ts)
+ */
+export async function queryMasterTable(collection: string, query: MasterQuery): Promise<MasterQueryResult & { total: number }> {
+  const references = selectReferences(collection)
+  const result = searchReferences(references, idsWithTermPrefix, query, await loadAnnotations(collection))
+  if (!result) {
+    throw new MasterTableError('Invalid cursor', 400)
   }
-  
-  // Merge updates
-  references[index] = {
-    ...references[index],
-    ...updates,
+  return { total: references.length, ...result }
+}
+
+/**
+ * Clear master table (for testing or reset; every deletion is logged, so it can be restored)
+ */
+export async function clearMasterTable(collection: string, actor: ChangeActor): Promise<void> {
+  transaction(() => {
+    selectReferences(collection).forEach(ref => removeReference(collection, ref, actor))
+  })
+  info(`Master table ${collection} cleared`)
+}
+
+/**
+ * Undo one logged change, as a new change by `actor`
+ * A field update is only reverted while the field still holds the value it set.
+ */
+export async function revertChange(collection: string, changeId: number, actor: ChangeActor): Promise<ExtractedReference | null> {
+  const reference = transaction(() => {
+    const change = getChange(changeId)
+    if (!change || change.collection !== collection) {
+      throw new MasterTableError(`No change ${changeId} in collection ${collection}`, 404)
+    }
+    const current = selectReference(collection, change.referenceId)
+    const details: ChangeDetails = { reverts: changeId }
+
+    if (change.action === 'create') {
+      if (!current) {
+        throw new MasterTableError(`Reference ${change.referenceId} has already been deleted`, 409)
+      }
+      removeReference(collection, current, actor, details)
+      return null
+    }
+
+    if (change.action === 'move') {
+      if (!current || selectPosition(change.referenceId) !== change.newValue) {
+        throw new MasterTableError(`Reference ${change.referenceId} has moved or been deleted since change ${changeId}`, 409)
+      }
+      putReference(collection, current, current, actor, { ...details, position: change.oldValue as number })
+      return current
+    }
+
+    if (change.action === 'delete') {
+      if (current) {
+        throw new MasterTableError(`Reference ${change.referenceId} exists again`, 409)
+      }
+      const restored = change.oldValue as ExtractedReference
+      putReference(collection, null, restored, actor, { ...details, position: change.position })
+      return restored
+    }
+
+    if (!current) {
+      throw new MasterTableError(`Reference ${change.referenceId} has been deleted; revert the deletion first`, 409)
+    }
+    const field = change.field as keyof ExtractedReference
+    if (JSON.stringify(current[field]) !== JSON.stringify(change.newValue)) {
+      throw new MasterTableError(`${change.field} has been changed again since change ${changeId}; revert the later change first`, 409)
+    }
+    const updated = setField(current, field, change.oldValue)
+    syncAuthors(updated, [field])
+    if (!updated.title && !updated.firstAuthor) {
+      throw new MasterTableError('A reference needs a title or a first author', 400)
+    }
+    putReference(collection, current, updated, actor, details)
+    return updated
+  })
+
+  info(`Reverted change ${changeId}`)
+  return reference
+}
+
+/**
+ * Put the table back the way it was at `at` (ISO timestamp) by undoing every later change
+ * The restore is itself logged, so it can be undone by restoring to a time before it.
+ * With dryRun the counts are returned but nothing is saved.
+ */
+export async function restoreMasterTable(collection: string, at: string, actor: ChangeActor, options: { dryRun?: boolean } = {}): Promise<{
+  at: string
+  undone: number
+  created: number
+  updated: number
+  deleted: number
+  total: number
+}> {
+  const result = transaction(() => {
+    const rows = getDatabase()
+      .prepare('SELECT data, position FROM master_references WHERE collection_id = ?')
+      .all(collection) as { data: string; position: number }[]
+    const current = new Map<string, { reference: ExtractedReference; position: number }>()
+    rows.forEach(row => {
+      const reference = JSON.parse(row.data) as ExtractedReference
+      current.set(reference.id!, { reference, position: row.position })
+    })
+
+    // Replay the log backwards on a copy of the table
+    const target = new Map(current)
+    const later = changesAfter(collection, at)
+    later.forEach((change: ReferenceChange) => {
+      if (change.action === 'create') {
+        target.delete(change.referenceId)
+      } else if (change.action === 'delete') {
+        target.set(change.referenceId, { reference: change.oldValue as ExtractedReference, position: change.position ?? 0 })
+      } else if (change.action === 'move') {
+        const entry = target.get(change.referenceId)
+        if (entry) target.set(change.referenceId, { ...entry, position: change.oldValue as number })
+      } else {
+        const entry = target.get(change.referenceId)
+        if (entry) {
+          const field = change.field as keyof ExtractedReference
+          target.set(change.referenceId, { ...entry, reference: setField(entry.reference, field, change.oldValue) })
+        }
+      }
+    })
+
+    const removed: ExtractedReference[] = []
+    current.forEach((entry, id) => {
+      if (!target.has(id)) removed.push(entry.reference)
+    })
+    const written: { before: ExtractedReference | null; after: ExtractedReference; position: number }[] = []
+    target.forEach((entry, id) => {
+      const before = current.get(id)
+      if (!before || before.position !== entry.position || changedFields(before.reference, entry.reference).length > 0) {
+        written.push({ before: before ? before.reference : null, after: entry.reference, position: entry.position })
+      }
+    })
+
+    if (!options.dryRun) {
+      const details: ChangeDetails = { note: `restore to ${at}` }
+      removed.forEach(ref => removeReference(collection, ref, actor, details))
+      written.forEach(({ before, after, position }) => putReference(collection, before, after, actor, { ...details, position }))
+    }
+
+    return {
+      at,
+      undone: later.length,
+      created: written.filter(item => !item.before).length,
+      updated: written.filter(item => item.before).length,
+      deleted: removed.length,
+      total: target.size,
+    }
+  })
+
+  if (!options.dryRun) {
+    info(`Master table ${collection} restored to ${at}: ${result.created} re-created, ${result.updated} updated, ${result.deleted} deleted`)
   }
-  
-  await saveMasterTable(references)
-  info(`Updated reference: ${citationKey}`)
-  return true
+  return result
 }
 
 /**
- * Clear master table (for testing or reset)
+ * Copy of a reference with one field set (undefined removes it)
  */
-export async function clearMasterTable(): Promise<void> {
-  await ensureDir()
-  await fs.writeFile(MASTER_TABLE_JSON, '[]', 'utf-8')
-  info('Master table cleared')
+function setField(reference: ExtractedReference, field: keyof ExtractedReference, value: unknown): ExtractedReference {
+  const copy = { ...reference }
+  if (value === undefined) delete copy[field]
+  else Object.assign(copy, { [field]: value })
+  return copy
 }
 
 /**
  * Get statistics about master table
  */
-export async function getMasterTableStats(): Promise<{
+export async function getMasterTableStats(collection: string): Promise<{
   total: number
   withEmails: number
   withAffiliations: number
   needsEnhancement: number
 }> {
-  const references = await loadMasterTable()
+  const references = await loadMasterTable(collection)
   
   return {
     total: references.length,
@@ -214,56 +650,3 @@ function normalizeText(text: string): string {
     .replace(/[^\w\s]/g, '')
     .trim()
 }
-
-/**
- * Save as Excel file
- */
-async function saveAsExcel(references: ExtractedReference[]): Promise<void> {
-  const workbook = new ExcelJS.Workbook()
-  const worksheet = workbook.addWorksheet('References')
-  
-  // Define columns
-  worksheet.columns = [
-    { header: '#', key: 'index', width: 6 },
-    { header: 'Citation Key', key: 'citationKey', width: 15 },
-    { header: 'First Author', key: 'firstAuthor', width: 20 },
-    { header: 'Other Authors', key: 'otherAuthors', width: 30 },
-    { header: 'Affiliation', key: 'firstAuthorAffiliation', width: 35 },
-    { header: 'Title', key: 'title', width: 50 },
-    { header: 'Year', key: 'year', width: 8 },
-    { header: 'Publisher / Journal', key: 'publisherJournal', width: 30 },
-    { header: 'Volume / Issue', key: 'volumeIssue', width: 15 },
-    { header: 'Pages', key: 'pages', width: 15 },
-    { header: 'ISBN', key: 'isbn', width: 15 },
-    { header: 'Extra Notes', key: 'extraNotes', width: 40 },
-  ]
-  
-  // Add data
-  references.forEach((ref, index) => {
-    worksheet.addRow({
-      index: index + 1,
-      citationKey: ref.citationKey,
-      firstAuthor: ref.firstAuthor,
-      otherAuthors: ref.otherAuthors,
-      firstAuthorAffiliation: ref.firstAuthorAffiliation || '',
-      title: ref.title,
-      year: ref.year,
-      publisherJournal: ref.publisherJournal,
-      volumeIssue: ref.volumeIssue,
-      pages: ref.pages,
-      isbn: ref.isbn,
-      extraNotes: ref.extraNotes,
-    })
-  })
-  
-  // Style header row
-  worksheet.getRow(1).font = { bold: true }
-  worksheet.getRow(1).fill = {
-    type: 'pattern',
-    pattern: 'solid',
-    fgColor: { argb: 'FFE0E0E0' },
-  }
-  
-  await workbook.xlsx.writeFile(MASTER_TABLE_XLSX)
-}
-
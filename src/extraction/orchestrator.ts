@@ -1,41 +1,69 @@
 /**
  * Simplified orchestrator for LLM-only batch extraction
- * Steps: PDF → Extract Text → LLM Extract All → Store
+ * Steps: PDF → Extract Text → Locate Bibliography → LLM Extract All (+ rule cross-check) → Store
+ * Identifier jobs (DOI / arXiv / PMID / ISBN): Resolve Metadata → Store
  */
 
 import { randomUUID } from 'crypto'
-import { ExtractionJob, ExtractionRequest } from '../types-simple'
+import { ExtractionJob, ExtractionRequest, ExtractedReference, ExtractionBatch, BatchFile, LLMUsage, RejectedReferenceItem } from '../types-simple'
 import { extractPdfSmart } from '../pipeline/ocr'
+import { locateBibliography } from '../pipeline/bibliography'
 import { extractAllReferencesWithLLM } from './llmBatchExtractor'
-import { saveJob, loadJob } from './storage'
+import { extractReferencesFromIdentifiers } from './identifierExtractor'
+import { extractReferencesWithRules, crossCheckReferences, splitReferenceEntries } from './ruleParser'
+import { scoreReferences } from './confidence'
+import { createUsage } from '../llm/retry'
+import { saveJob, loadJob, saveBatch, loadBatch } from './storage'
+import { UploadedDocument } from './uploads'
+import { initJobQueue, enqueueJob, cancelJob, removeQueueEntry, JobCancelledError } from './jobQueue'
 import { addToMasterTable } from './masterTable'
-import { info, error as logError } from '../utils/logging'
+import { DEFAULT_COLLECTION } from './database'
+import { attachProvenance, indexPdfText, recoverReferenceRaw } from './provenance'
+import config from '../config'
+import { info, warn, error as logError } from '../utils/logging'
 
-// In-memory progress tracking
-const jobProgress = new Map<string, {
+interface JobProgress {
   status: ExtractionJob['status']
   progress: number
   currentStep: string
-}>()
+  chunks?: { completed: number; total: number }
+  usage?: LLMUsage
+}
+
+// In-memory progress tracking
+const jobProgress = new Map<string, JobProgress>()
 
 /**
  * Start extraction job - new simplified flow
+ * The job is persisted and queued; the queue worker runs it (see initExtractionQueue).
  */
 export async function startExtraction(request: ExtractionRequest): Promise<string> {
+  const source: ExtractionJob['source'] = request.identifiers ? 'identifiers' : 'pdf'
+  if (source === 'identifiers' && request.identifiers!.length === 0) {
+    throw new Error('No identifiers provided')
+  }
+  if (source === 'pdf' && !request.pdfBuffer) {
+    throw new Error('No PDF buffer provided')
+  }
+
   const jobId = randomUUID()
   
   console.log(`\n╔════════════════════════════════════════════════════════════════╗`)
-  console.log(`║  🚀 Starting LLM Batch Extraction                            ║`)
+  console.log(`║  🚀 Queueing LLM Batch Extraction                            ║`)
   console.log(`║  Job ID: ${jobId}                        ║`)
   console.log(`╚════════════════════════════════════════════════════════════════╝\n`)
 
   // Initialize job
   const job: ExtractionJob = {
     jobId,
-    status: 'processing',
+    status: 'queued',
     progress: 0,
     totalReferences: 0,
     extractedReferences: [],
+    filename: request.filename,
+    batchId: request.batchId,
+    collection: request.collection,
+    source,
     createdAt: new Date().toISOString(),
   }
 
@@ -44,71 +72,236 @@ export async function startExtraction(request: ExtractionRequest): Promise<strin
   
   // Update progress tracker
   jobProgress.set(jobId, {
-    status: 'processing',
+    status: 'queued',
     progress: 0,
-    currentStep: 'initializing',
+    currentStep: 'queued',
   })
 
-  // Run extraction in background
-  processExtraction(jobId, request).catch(async (err) => {
-    logError(`Extraction failed for job ${jobId}:`, err)
-    updateJobProgress(jobId, 'failed', 100, 'error')
+  // Queue input: the PDF itself, or the identifier list as JSON
+  const input = request.identifiers
+    ? Buffer.from(JSON.stringify(request.identifiers), 'utf-8')
+    : request.pdfBuffer!
+  await enqueueJob(jobId, input)
+
+  return jobId
+}
+
+/**
+ * Start a batch: one queued extraction job per document
+ * Files rejected at upload are recorded on the batch so /status can report them.
+ */
+export async function startBatchExtraction(documents: UploadedDocument[], rejected: BatchFile[], collection?: string): Promise<ExtractionBatch> {
+  const batchId = randomUUID()
+  const files: BatchFile[] = []
+
+  for (const document of documents) {
+    const jobId = await startExtraction({ pdfBuffer: document.pdfBuffer, filename: document.filename, batchId, collection })
+    files.push({ filename: document.filename, jobId })
+  }
+
+  const batch: ExtractionBatch = {
+    batchId,
+    files: files.concat(rejected),
+    collection,
+    createdAt: new Date().toISOString(),
+  }
+  await saveBatch(batch)
+  info(`[Batch ${batchId}] Queued ${documents.length} document(s), rejected ${rejected.length}`)
+  return batch
+}
+
+export interface BatchFileStatus extends BatchFile {
+  status: ExtractionJob['status'] | 'rejected'
+  progress: number
+  extractedCount: number
+}
+
+export interface BatchStatus {
+  batchId: string
+  collection?: string
+  status: ExtractionJob['status']
+  progress: number
+  counts: Record<BatchFileStatus['status'], number>
+  files: BatchFileStatus[]
+}
+
+/**
+ * Aggregate status of a batch: overall progress is the mean over accepted files
+ * The batch is processing while any child is queued or running, then completed if at
+ * least one child completed and failed otherwise.
+ */
+export async function getBatchStatus(batchId: string): Promise<BatchStatus | null> {
+  const batch = await loadBatch(batchId)
+  if (!batch) return null
+
+  // Batches saved before they recorded their collection take their jobs'
+  let collection = batch.collection
+  const files = await Promise.all(batch.files.map(async (file): Promise<BatchFileStatus> => {
+    if (!file.jobId) {
+      return { ...file, status: 'rejected', progress: 0, extractedCount: 0 }
+    }
+    const job = await loadJob(file.jobId)
+    if (!job) {
+      return { ...file, status: 'failed', progress: 0, extractedCount: 0, error: 'Job not found' }
+    }
+    if (!batch.collection && job.collection) collection = job.collection
+    const live = jobProgress.get(file.jobId)
+    return {
+      ...file,
+      status: job.status,
+      progress: job.status === 'processing' && live ? live.progress : job.progress,
+      extractedCount: job.extractedReferences.length,
+      error: job.error,
+    }
+  }))
+
+  const counts: BatchStatus['counts'] = { queued: 0, processing: 0, completed: 0, failed: 0, cancelled: 0, rejected: 0 }
+  files.forEach(file => { counts[file.status]++ })
+
+  const accepted = files.filter(file => file.status !== 'rejected')
+  const progress = accepted.length > 0
+    ? Math.round(accepted.reduce((sum, file) => sum + (file.status === 'queued' ? 0 : file.status === 'processing' ? file.progress : 100), 0) / accepted.length)
+    : 100
+
+  let status: ExtractionJob['status']
+  if (counts.processing > 0) status = 'processing'
+  else if (counts.queued > 0) status = counts.queued === accepted.length ? 'queued' : 'processing'
+  else if (counts.completed > 0) status = 'completed'
+  else if (accepted.length > 0 && counts.cancelled === accepted.length) status = 'cancelled'
+  else status = 'failed'
+
+  return { batchId, collection, status, progress, counts, files }
+}
+
+/**
+ * Start the extraction queue worker and reconcile jobs interrupted by a restart
+ */
+export async function initExtractionQueue(): Promise<void> {
+  const { resumed, failed } = await initJobQueue(runQueuedExtraction)
+
+  for (const jobId of resumed) {
+    const job = await loadJob(jobId)
+    if (job && job.status !== 'queued') {
+      warn(`[${jobId}] Interrupted by restart, re-queued`)
+      job.status = 'queued'
+      job.progress = 0
+      await saveJob(job)
+    }
+  }
+
+  for (const jobId of failed) {
+    const job = await loadJob(jobId)
+    if (job) {
+      job.status = 'failed'
+      job.error = 'Job was interrupted too many times'
+      job.completedAt = new Date().toISOString()
+      await saveJob(job)
+    }
+    await removeQueueEntry(jobId)
+  }
+}
+
+/**
+ * Queue handler: run one extraction and record failure/cancellation on the job
+ */
+async function runQueuedExtraction(jobId: string, readInput: () => Promise<Buffer>, signal: AbortSignal): Promise<void> {
+  const job = await loadJob(jobId)
+  if (job) {
+    job.status = 'processing'
+    await saveJob(job)
+  }
+  updateJobProgress(jobId, 'processing', 0, 'initializing')
+
+  try {
+    const input = await readInput()
+    const request: ExtractionRequest = job?.source === 'identifiers'
+      ? { identifiers: JSON.parse(input.toString('utf-8')) as string[] }
+      : { pdfBuffer: input }
+    request.filename = job?.filename
+    request.collection = job?.collection
+    await processExtraction(jobId, request, signal)
+  } catch (err) {
+    const cancelled = signal.aborted || err instanceof JobCancelledError
+    if (cancelled) {
+      info(`[${jobId}] Extraction cancelled`)
+    } else {
+      logError(`Extraction failed for job ${jobId}:`, err)
+    }
+    updateJobProgress(jobId, cancelled ? 'cancelled' : 'failed', 100, cancelled ? 'cancelled' : 'error')
+
     const failedJob = await loadJob(jobId)
     if (failedJob) {
-      failedJob.status = 'failed'
-      failedJob.error = err instanceof Error ? err.message : String(err)
+      failedJob.status = cancelled ? 'cancelled' : 'failed'
+      if (!cancelled) {
+        failedJob.error = err instanceof Error ? err.message : String(err)
+      }
       failedJob.completedAt = new Date().toISOString()
       await saveJob(failedJob)
     }
-  })
+    throw err
+  }
+}
 
-  return jobId
+/**
+ * Cancel a queued or running extraction
+ * Queued jobs are cancelled immediately; running jobs stop at the next step boundary.
+ */
+export async function cancelExtraction(jobId: string): Promise<'cancelled' | 'cancelling' | null> {
+  const result = await cancelJob(jobId)
+
+  if (result === 'cancelled') {
+    updateJobProgress(jobId, 'cancelled', 100, 'cancelled')
+    const job = await loadJob(jobId)
+    if (job) {
+      job.status = 'cancelled'
+      job.completedAt = new Date().toISOString()
+      await saveJob(job)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Stop between pipeline steps once the job has been cancelled
+ */
+function throwIfCancelled(jobId: string, signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new JobCancelledError(jobId)
+  }
+}
+
+interface ExtractionOutcome {
+  references: ExtractedReference[]
+  details: Partial<ExtractionJob>  // Source-specific fields saved on the job
 }
 
 /**
  * Process extraction in background
  */
-async function processExtraction(jobId: string, request: ExtractionRequest): Promise<void> {
+async function processExtraction(jobId: string, request: ExtractionRequest, signal?: AbortSignal): Promise<void> {
   const startTime = Date.now()
   
   try {
-    // Step 1: Extract text from PDF
-    info(`[${jobId}] Step 1: Extracting text from PDF...`)
-    updateJobProgress(jobId, 'processing', 10, 'extracting text from PDF')
-    
-    if (!request.pdfBuffer) {
-      throw new Error('No PDF buffer provided')
-    }
-
-    const pages = await extractPdfSmart(request.pdfBuffer)
-    const fullText = pages.map(p => p.text).join('\n\n')
-    
-    info(`[${jobId}] Extracted ${fullText.length} characters from ${pages.length} pages`)
-    updateJobProgress(jobId, 'processing', 30, 'text extraction complete')
-
-    // Step 2: LLM extracts all references at once
-    info(`[${jobId}] Step 2: LLM extracting all references...`)
-    updateJobProgress(jobId, 'processing', 40, 'LLM processing references')
-    
-    const references = await extractAllReferencesWithLLM(fullText)
-    
-    if (references.length === 0) {
-      throw new Error('No references were extracted from the text')
-    }
+    // Steps 1-3 depend on the source; storing the results is shared
+    const { references, details } = request.identifiers
+      ? await resolveIdentifierReferences(jobId, request.identifiers, signal)
+      : await extractPdfReferences(jobId, request, signal)
 
-    info(`[${jobId}] LLM extracted ${references.length} references`)
-    updateJobProgress(jobId, 'processing', 90, 'extraction complete')
+    // Last point to stop: the master table is shared, so a cancelled job must not touch it
+    throwIfCancelled(jobId, signal)
 
-    // Step 3: Add to master table (with deduplication)
+    // Step 4: Add to master table (with deduplication)
     info(`[${jobId}] Adding to master references table...`)
-    const masterStats = await addToMasterTable(references)
+    const masterStats = await addToMasterTable(request.collection || DEFAULT_COLLECTION, references, { kind: 'extraction', jobId })
     info(`[${jobId}] Master table: ${masterStats.added} new, ${masterStats.duplicates} duplicates, ${masterStats.total} total`)
 
-    // Step 4: Save job results
+    // Step 5: Save job results
     const job = await loadJob(jobId)
     if (job) {
       job.totalReferences = masterStats.total
       job.extractedReferences = references
+      Object.assign(job, details)
       job.status = 'completed'
       job.progress = 100
       job.completedAt = new Date().toISOString()
@@ -129,11 +322,137 @@ async function processExtraction(jobId: string, request: ExtractionRequest): Pro
     console.log(`╚════════════════════════════════════════════════════════════════╝\n`)
 
   } catch (err) {
-    logError(`[${jobId}] Extraction failed:`, err)
+    if (!(err instanceof JobCancelledError)) {
+      logError(`[${jobId}] Extraction failed:`, err)
+    }
     throw err
   }
 }
 
+/**
+ * Steps 1-3 for PDFs: text extraction, bibliography location, LLM + rule-based parsing
+ */
+async function extractPdfReferences(jobId: string, request: ExtractionRequest, signal?: AbortSignal): Promise<ExtractionOutcome> {
+  // Step 1: Extract text from PDF
+  info(`[${jobId}] Step 1: Extracting text from PDF...`)
+  updateJobProgress(jobId, 'processing', 10, 'extracting text from PDF')
+  
+  if (!request.pdfBuffer) {
+    throw new Error('No PDF buffer provided')
+  }
+
+  const pages = await extractPdfSmart(request.pdfBuffer)
+  const fullText = pages.map(p => p.text).join('\n\n')
+  
+  info(`[${jobId}] Extracted ${fullText.length} characters from ${pages.length} pages`)
+  throwIfCancelled(jobId, signal)
+  updateJobProgress(jobId, 'processing', 30, 'text extraction complete')
+
+  // Step 2: Locate bibliography section(s) so body text is not sent to the LLM
+  info(`[${jobId}] Step 2: Locating bibliography sections...`)
+  updateJobProgress(jobId, 'processing', 35, 'locating bibliography')
+
+  const bibliography = locateBibliography(pages)
+  let referenceText = fullText
+  if (bibliography.length > 0) {
+    referenceText = bibliography.map(section => section.text).join('\n\n')
+    const ranges = bibliography.map(s => `${s.startPage}-${s.endPage}`).join(', ')
+    info(`[${jobId}] Found ${bibliography.length} bibliography section(s) on pages ${ranges} (${referenceText.length} chars)`)
+  } else {
+    warn(`[${jobId}] No bibliography section detected, sending full text to LLM`)
+  }
+
+  // Step 3: LLM extracts all references at once
+  info(`[${jobId}] Step 3: LLM extracting all references...`)
+  updateJobProgress(jobId, 'processing', 40, 'LLM processing references')
+  
+  // Chunks map onto 40% → 90%; usage is shared with the progress tracker so /status sees it live
+  const usage = createUsage()
+  const rejectedItems: RejectedReferenceItem[] = []
+  const llmReferences = await extractAllReferencesWithLLM(referenceText, {
+    usage,
+    rejected: rejectedItems,
+    signal,
+    onChunkComplete: (completed, total) => {
+      const progress = 40 + Math.round((completed / total) * 50)
+      updateJobProgress(jobId, 'processing', progress, `LLM processed chunk ${completed}/${total}`, {
+        chunks: { completed, total },
+        usage,
+      })
+    },
+  })
+  throwIfCancelled(jobId, signal)
+  info(`[${jobId}] LLM usage: ${usage.calls} calls, ${usage.retries} retries, ${usage.inputTokens} in / ${usage.outputTokens} out tokens, ~$${usage.estimatedCostUsd.toFixed(4)}`)
+  if (rejectedItems.length > 0) {
+    warn(`[${jobId}] Rejected ${rejectedItems.length} LLM item(s) that failed schema validation`)
+  }
+  const ruleReferences = extractReferencesWithRules(referenceText)
+
+  // Rule-based parser: fallback when the LLM produced nothing, cross-check otherwise
+  let references: ExtractedReference[]
+  if (llmReferences.length > 0) {
+    info(`[${jobId}] LLM extracted ${llmReferences.length} references, cross-checking with rule-based parser...`)
+    references = crossCheckReferences(llmReferences, ruleReferences)
+  } else {
+    warn(`[${jobId}] LLM returned no references, falling back to rule-based parser`)
+    references = ruleReferences
+  }
+  
+  if (references.length === 0) {
+    throw new Error('No references were extracted from the text')
+  }
+
+  // LLM references come without their raw text; take it from the bibliography entries
+  references = recoverReferenceRaw(references, splitReferenceEntries(referenceText))
+  references = scoreReferences(references, referenceText)
+  references = attachProvenance(references, { kind: 'pdf', jobId, filename: request.filename }, indexPdfText(pages))
+  const byConfidence = (level: ExtractedReference['confidence']) => references.filter(r => r.confidence === level).length
+  info(`[${jobId}] Extracted ${references.length} references (confidence: ${byConfidence('high')} high, ${byConfidence('medium')} medium, ${byConfidence('low')} low)`)
+  updateJobProgress(jobId, 'processing', 90, 'extraction complete')
+
+  return {
+    references,
+    details: {
+      bibliographySections: bibliography.map(({ heading, startPage, endPage }) => ({ heading, startPage, endPage })),
+      usage,
+      rejectedItems,
+    },
+  }
+}
+
+/**
+ * Steps 1-3 for identifier lists: resolve each identifier against the metadata source
+ */
+async function resolveIdentifierReferences(jobId: string, identifiers: string[], signal?: AbortSignal): Promise<ExtractionOutcome> {
+  info(`[${jobId}] Step 1: Resolving ${identifiers.length} identifiers...`)
+  updateJobProgress(jobId, 'processing', 10, 'resolving identifiers')
+
+  // Lookups map onto 10% → 90%
+  const { references, failures } = await extractReferencesFromIdentifiers(identifiers, {
+    signal,
+    onResolved: (completed, total) => {
+      const progress = 10 + Math.round((completed / total) * 80)
+      updateJobProgress(jobId, 'processing', progress, `resolved ${completed}/${total} identifiers`)
+    },
+  })
+  throwIfCancelled(jobId, signal)
+
+  if (failures.length > 0) {
+    warn(`[${jobId}] ${failures.length} identifier(s) could not be resolved`)
+  }
+  if (references.length === 0) {
+    throw new Error(`None of the ${identifiers.length} identifiers could be resolved`)
+  }
+
+  info(`[${jobId}] Resolved ${references.length} references`)
+  updateJobProgress(jobId, 'processing', 90, 'identifiers resolved')
+
+  return {
+    references: attachProvenance(references, { kind: 'identifier', jobId, model: config.METADATA_RESOLVER }),
+    details: { identifierFailures: failures },
+  }
+}
+
 /**
  * Update job progress
  */
@@ -141,20 +460,24 @@ function updateJobProgress(
   jobId: string,
   status: ExtractionJob['status'],
   progress: number,
-  step: string
+  step: string,
+  details: Pick<JobProgress, 'chunks' | 'usage'> = {}
 ): void {
-  jobProgress.set(jobId, { status, progress, currentStep: step })
+  const previous = jobProgress.get(jobId)
+  jobProgress.set(jobId, {
+    status,
+    progress,
+    currentStep: step,
+    chunks: details.chunks ?? previous?.chunks,
+    usage: details.usage ?? previous?.usage,
+  })
   info(`[${jobId}] Progress: ${progress}% - ${step}`)
 }
 
 /**
  * Get job progress (for polling)
  */
-export function getProgress(jobId: string): {
-  status: ExtractionJob['status']
-  progress: number
-  currentStep: string
-} | null {
+export function getProgress(jobId: string): JobProgress | null {
   return jobProgress.get(jobId) || null
 }
 
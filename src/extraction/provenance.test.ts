@@ -0,0 +1,56 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { findSourceEntry, recoverReferenceRaw, attachProvenance, indexPdfText, mergeSources } from './provenance'
+import { ExtractedReference } from '../types-simple'
+
+const ENTRIES = [
+  'Wiener, N. (1948). Cybernetics: Or control and communication in the animal and the machine. MIT Press.',
+  'Wiener, N. (1950). The human use of human beings. Houghton Mifflin.',
+  'Hill, D. R. (1979). The book of ingenious devices. Reidel.',
+]
+
+const llmReference = (fields: Partial<ExtractedReference>): ExtractedReference => ({
+  citationKey: '', firstAuthor: '', otherAuthors: '', title: '', year: '', publisherJournal: '', volumeIssue: '',
+  pages: '', extraNotes: '', isbn: '', referenceRaw: '', confidence: 'medium', extractionMethod: 'llm', ...fields,
+})
+
+test('finds the entry holding the title', () => {
+  const ref = llmReference({ firstAuthor: 'Norbert Wiener', title: 'The Human Use of Human Beings', year: '1950' })
+  assert.equal(findSourceEntry(ref, ENTRIES), ENTRIES[1])
+})
+
+test('falls back to the first author and year', () => {
+  const ref = llmReference({ firstAuthor: 'D. R. Hill', title: 'Book of Ingenious Devices (Kitab al-Hiyal)', year: '1979' })
+  assert.equal(findSourceEntry(ref, ENTRIES), ENTRIES[2])
+  assert.equal(findSourceEntry(llmReference({ firstAuthor: 'Mitchell, T.', title: 'Machine learning', year: '1997' }), ENTRIES), '')
+})
+
+test('gives each reference its own entry and keeps raw text already set', () => {
+  const refs = recoverReferenceRaw([
+    llmReference({ firstAuthor: 'Wiener, N.', title: 'Cybernetics', year: '1948' }),
+    llmReference({ firstAuthor: 'Wiener, N.', title: 'Human use', year: '1950' }),
+    llmReference({ firstAuthor: 'Hill, D.', title: 'Devices', referenceRaw: 'As printed' }),
+  ], ENTRIES)
+  assert.deepEqual(refs.map(ref => ref.referenceRaw), [ENTRIES[0], ENTRIES[1], 'As printed'])
+})
+
+test('locates recovered entries on their PDF pages', () => {
+  const pages = [
+    { page: 11, text: `References\n${ENTRIES[0]}` },
+    { page: 12, text: `${ENTRIES[1]}\n${ENTRIES[2]}` },
+  ]
+  const refs = recoverReferenceRaw([llmReference({ firstAuthor: 'Hill, D. R.', title: 'The book of ingenious devices', year: '1979' })], ENTRIES)
+  const [ref] = attachProvenance(refs, { kind: 'pdf', jobId: 'job-1', filename: 'paper.pdf' }, indexPdfText(pages))
+  const source = ref.sources![0]
+  assert.deepEqual(source.pages, [12])
+  const fullText = pages.map(page => page.text).join('\n\n')
+  assert.equal(fullText.substring(source.span!.start, source.span!.end), ENTRIES[2])
+})
+
+test('keeps sources without entry text apart', () => {
+  const a = { kind: 'pdf' as const, jobId: 'job-1', filename: 'paper.pdf', referenceRaw: '', chunk: 1 }
+  const b = { ...a, chunk: 2 }
+  assert.equal(mergeSources([a], [b, a]).length, 2)
+  const printed = { kind: 'pdf' as const, jobId: 'job-1', filename: 'paper.pdf', referenceRaw: ENTRIES[0] }
+  assert.equal(mergeSources([printed], [{ ...printed, referenceRaw: ENTRIES[0].replace(/ /g, '\n') }]).length, 1)
+})
@@ -0,0 +1,187 @@
+/**
+ * Reference provenance
+ * Records where each reference was found (job, file, pages, chunk, text span, model)
+ * and counts how many documents cite a master-table entry.
+ */
+
+import { ExtractedReference, ReferenceSource } from '../types-simple'
+import { parseAuthorList } from './authors'
+import { normalizeForComparison } from '../utils/similarity'
+
+interface PageText {
+  page: number
+  text: string
+}
+
+/**
+ * Extracted PDF text prepared for locating entries: whitespace-free and lowercased,
+ * with each kept character's offset in the original text
+ */
+export interface PdfTextIndex {
+  compact: string
+  offsets: number[]
+  pageRanges: { page: number; start: number; end: number }[]
+}
+
+/**
+ * Index pages joined the way the orchestrator joins them ("\n\n" between pages)
+ */
+export function indexPdfText(pages: PageText[]): PdfTextIndex {
+  let compact = ''
+  const offsets: number[] = []
+  const pageRanges: PdfTextIndex['pageRanges'] = []
+  let position = 0
+
+  pages.forEach((page, i) => {
+    if (i > 0) position += 2
+    pageRanges.push({ page: page.page, start: position, end: position + page.text.length })
+    for (let j = 0; j < page.text.length; j++) {
+      const char = page.text[j]
+      if (!/\s/.test(char)) {
+        compact += char.toLowerCase()
+        offsets.push(position + j)
+      }
+    }
+    position += page.text.length
+  })
+
+  return { compact, offsets, pageRanges }
+}
+
+/**
+ * Find an entry's raw text in the PDF text, ignoring whitespace and line-break differences
+ * Falls back to matching the first and last characters when the model tidied the middle.
+ */
+export function locateEntry(raw: string, index: PdfTextIndex): { span?: { start: number; end: number }; pages?: number[] } {
+  const needle = raw.replace(/\s+/g, '').toLowerCase()
+  if (needle.length < 8) return {}
+
+  let startAt = index.compact.indexOf(needle)
+  let endAt = startAt === -1 ? -1 : startAt + needle.length - 1
+
+  if (startAt === -1) {
+    const head = needle.substring(0, 40)
+    const tail = needle.substring(needle.length - 25)
+    startAt = index.compact.indexOf(head)
+    if (startAt === -1) return {}
+
+    const tailAt = index.compact.indexOf(tail, startAt + head.length)
+    endAt = tailAt !== -1 && tailAt - startAt < needle.length * 1.5
+      ? tailAt + tail.length - 1
+      : Math.min(startAt + needle.length, index.compact.length) - 1
+  }
+
+  const span = { start: index.offsets[startAt], end: index.offsets[endAt] + 1 }
+  const pages = index.pageRanges
+    .filter(range => range.start < span.end && range.end > span.start)
+    .map(range => range.page)
+
+  return { span, pages }
+}
+
+/**
+ * The bibliography entry a reference was read from ('' if none fits)
+ * LLM references come without their raw text; the entry holding the title is taken, or
+ * failing that one naming the first author and the year. Entries already claimed by another
+ * reference are only reused when nothing else fits.
+ */
+export function findSourceEntry(ref: ExtractedReference, entries: string[], claimed: Set<number> = new Set()): string {
+  const title = normalizeForComparison(ref.title)
+  const family = normalizeForComparison((parseAuthorList(ref.firstAuthor, '').authors[0] || { family: '' }).family)
+  const year = (ref.year.match(/\d{4}/) || [''])[0]
+
+  let best = -1
+  let bestScore = 0
+  entries.forEach((entry, i) => {
+    const text = ` ${normalizeForComparison(entry)} `
+    const hasFamily = family !== '' && text.indexOf(` ${family} `) !== -1
+    let score = 0
+    if (title.length >= 8 && text.indexOf(title) !== -1) score = hasFamily ? 3 : 2
+    else if (hasFamily && year && text.indexOf(year) !== -1) score = 1
+    if (score > 0 && !claimed.has(i)) score += 0.5
+    if (score > bestScore) {
+      best = i
+      bestScore = score
+    }
+  })
+
+  if (best === -1) return ''
+  claimed.add(best)
+  return entries[best]
+}
+
+/**
+ * Fill in the raw text of references that have none from the bibliography entries
+ */
+export function recoverReferenceRaw(references: ExtractedReference[], entries: string[]): ExtractedReference[] {
+  const claimed = new Set<number>()
+  return references.map(ref => {
+    if (ref.referenceRaw) return ref
+    const entry = findSourceEntry(ref, entries, claimed)
+    return entry ? { ...ref, referenceRaw: entry } : ref
+  })
+}
+
+/**
+ * Give each reference one source describing this job
+ * Keeps what the extractor already recorded (chunk, model) and adds the job, file,
+ * raw text and, for PDFs, the text span and pages.
+ */
+export function attachProvenance(
+  references: ExtractedReference[],
+  base: ReferenceSource,
+  pdfText?: PdfTextIndex
+): ExtractedReference[] {
+  const addedAt = new Date().toISOString()
+
+  return references.map(ref => {
+    const source: ReferenceSource = {
+      ...(ref.sources && ref.sources[0]),
+      ...base,
+      referenceRaw: ref.referenceRaw,
+      addedAt,
+    }
+    if (pdfText && ref.referenceRaw) {
+      Object.assign(source, locateEntry(ref.referenceRaw, pdfText))
+    }
+    return { ...ref, sources: [source] }
+  })
+}
+
+function sourceKey(source: ReferenceSource): string {
+  const raw = (source.referenceRaw || '').replace(/\s+/g, ' ').trim()
+  // Without the entry text, only a repeat of the very same source is one
+  if (!raw) return JSON.stringify(source)
+  return [source.kind, source.jobId || '', source.filename || '', raw].join('|')
+}
+
+/**
+ * Sources of both references, without repeating one already recorded
+ */
+export function mergeSources(target: ReferenceSource[] | undefined, incoming: ReferenceSource[] | undefined): ReferenceSource[] {
+  const merged = (target || []).slice()
+  const seen = new Set(merged.map(sourceKey))
+  ;(incoming || []).forEach(source => {
+    const key = sourceKey(source)
+    if (!seen.has(key)) {
+      seen.add(key)
+      merged.push(source)
+    }
+  })
+  return merged
+}
+
+/**
+ * Number of distinct documents (PDFs and imported bibliographies) that cite a reference
+ * Identifier lookups are not citations; entries added before provenance was recorded count 0.
+ * An import sent without a filename counts as one document per request.
+ */
+export function citedByCount(ref: ExtractedReference): number {
+  const documents = new Set<string>()
+  ;(ref.sources || []).forEach(source => {
+    if (source.kind === 'identifier') return
+    const document = source.filename || source.jobId || source.addedAt
+    if (document) documents.add(`${source.kind}:${document}`)
+  })
+  return documents.size
+}
@@ -0,0 +1,71 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { validateReferenceItem, validateReferenceEdit, parseReferencePayload } from './referenceSchema'
+
+const ITEM = {
+  citationKey: 'Wiener48', firstAuthor: 'Wiener, N.', otherAuthors: '', title: 'Cybernetics', year: '1948',
+  publisherJournal: 'MIT Press', volumeIssue: '', pages: '', extraNotes: '', isbn: '', confidence: 'High',
+}
+
+const reasons = (item: unknown) => {
+  const result = validateReferenceItem(item)
+  return result.ok ? [] : result.reasons
+}
+
+test('maps a valid item, accepting numbers for string fields', () => {
+  const result = validateReferenceItem({ ...ITEM, year: 1948, title: '  Cybernetics ' })
+  assert.ok(result.ok)
+  assert.equal(result.reference.year, '1948')
+  assert.equal(result.reference.title, 'Cybernetics')
+  assert.equal(result.reference.confidence, 'high')
+  assert.equal(result.reference.extractionMethod, 'llm')
+})
+
+test('rejects items with wrong types, no title or author, placeholders or no year', () => {
+  assert.deepEqual(reasons('Wiener 1948'), ['item is not an object'])
+  assert.deepEqual(reasons({ ...ITEM, otherAuthors: ['Rosenblueth, A.'] }), ['otherAuthors must be a string (got array)'])
+  assert.deepEqual(reasons({ ...ITEM, confidence: 'certain' }), ['confidence must be one of high, medium, low'])
+  assert.deepEqual(reasons({ ...ITEM, title: '', firstAuthor: '' }), ['missing both title and firstAuthor'])
+  assert.deepEqual(reasons({ ...ITEM, year: 'forties' }), ['year "forties" has no 4-digit year'])
+  assert.deepEqual(reasons({ ...ITEM, year: 'n.d.' }), [])
+})
+
+test('rejects placeholder citation keys only', () => {
+  assert.deepEqual(reasons({ ...ITEM, citationKey: 'Unknown' }), ['placeholder "Unknown" values'])
+  assert.deepEqual(reasons({ ...ITEM, citationKey: 'unknown2' }), ['placeholder "Unknown" values'])
+  assert.deepEqual(reasons({ ...ITEM, firstAuthor: 'Unknown' }), ['placeholder "Unknown" values'])
+  assert.deepEqual(reasons({ ...ITEM, citationKey: 'UnknownSoldier1921', title: 'The unknown masterpiece' }), [])
+  assert.deepEqual(reasons({ ...ITEM, citationKey: 'knownUnknowns2002' }), [])
+})
+
+test('parses complete and truncated payloads', () => {
+  assert.deepEqual(parseReferencePayload(JSON.stringify({ references: [ITEM] })), { items: [ITEM], truncated: false })
+  assert.deepEqual(parseReferencePayload(JSON.stringify([ITEM])), { items: [ITEM], truncated: false })
+
+  const cut = `{"references": [${JSON.stringify(ITEM)}, {"citationKey": "Hill79", "title": "The book of {ingenious`
+  assert.deepEqual(parseReferencePayload(cut), { items: [ITEM], truncated: true })
+  assert.throws(() => parseReferencePayload('{"items": []}'), /no "references" array/)
+  assert.throws(() => parseReferencePayload('Sorry, I cannot help'), /no references array found/)
+})
+
+test('validates curator edits', () => {
+  const created = validateReferenceEdit({ title: 'Cybernetics', year: 1948, isbn: null }, { partial: false })
+  assert.deepEqual(created, { ok: true, values: { title: 'Cybernetics', year: '1948', isbn: '' } })
+
+  const rejected = validateReferenceEdit({ id: 'x', isbn: '90-277-0833-0', confidence: 'certain' }, { partial: true })
+  assert.deepEqual(rejected, { ok: false, reasons: ['id is not an editable field', 'confidence must be one of high, medium, low', 'invalid ISBN 90-277-0833-0'] })
+  assert.deepEqual(validateReferenceEdit({}, { partial: true }), { ok: false, reasons: ['no fields to update'] })
+  assert.deepEqual(validateReferenceEdit({ year: '1948' }, { partial: false }), { ok: false, reasons: ['title or an author is required'] })
+})
+
+test('validates a structured author list', () => {
+  const result = validateReferenceEdit({ authors: [{ family: 'Carberry', given: 'Josiah', orcid: 'https://orcid.org/0000-0002-1825-0097' }] }, { partial: true })
+  assert.deepEqual(result, { ok: true, values: { authors: [{ family: 'Carberry', given: 'Josiah', initials: 'J.', orcid: '0000-0002-1825-0097' }] } })
+
+  const invalid = validateReferenceEdit({ authors: [{ given: 'Josiah', orcid: '0000-0002-1825-0098', role: 'editor' }] }, { partial: true })
+  assert.deepEqual(invalid, { ok: false, reasons: [
+    'authors[0].role is not an author field',
+    'authors[0] needs a family name',
+    'authors[0].orcid "0000-0002-1825-0098" is not a valid ORCID iD',
+  ] })
+})
@@ -0,0 +1,397 @@
+/**
+ * Strict schema for the LLM reference payload
+ *
+ * - REFERENCE_RESPONSE_SCHEMA is sent to providers with structured-output support
+ * - validateReferenceItem checks each returned item; good items are kept and bad ones
+ *   are reported with reasons instead of failing the whole response
+ * - parseReferencePayload salvages complete entries from truncated JSON
+ * - validateReferenceEdit checks fields sent by curators to the master-table endpoints
+ */
+
+import { ExtractedReference, RejectedReferenceItem, Author, AuthorAffiliation } from '../types-simple'
+import { isValidIsbn } from './confidence'
+import { initialsOf, formatAffiliation } from './authors'
+
+const STRING_FIELDS = [
+  'citationKey',
+  'firstAuthor',
+  'otherAuthors',
+  'title',
+  'year',
+  'publisherJournal',
+  'volumeIssue',
+  'pages',
+  'extraNotes',
+  'isbn',
+] as const
+
+const CONFIDENCE_VALUES = ['high', 'medium', 'low']
+
+/**
+ * JSON Schema for { references: [...] } (strict mode: all fields required, no extras)
+ */
+export const REFERENCE_RESPONSE_SCHEMA = {
+  name: 'bibliographic_references',
+  schema: {
+    type: 'object',
+    properties: {
+      references: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            ...STRING_FIELDS.reduce<Record<string, { type: 'string' }>>((props, field) => {
+              props[field] = { type: 'string' }
+              return props
+            }, {}),
+            confidence: { type: 'string', enum: CONFIDENCE_VALUES },
+          },
+          required: [...STRING_FIELDS, 'confidence'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['references'],
+    additionalProperties: false,
+  } as Record<string, unknown>,
+}
+
+export type ReferenceItemResult =
+  | { ok: true; reference: ExtractedReference }
+  | { ok: false; reasons: string[] }
+
+/**
+ * Validate one item of the "references" array and map it to an ExtractedReference
+ */
+export function validateReferenceItem(item: unknown): ReferenceItemResult {
+  if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+    return { ok: false, reasons: ['item is not an object'] }
+  }
+
+  const raw = item as Record<string, unknown>
+  const reasons: string[] = []
+  const values: Record<string, string> = {}
+
+  for (const field of STRING_FIELDS) {
+    const value = raw[field]
+    if (value === undefined || value === null) {
+      values[field] = ''
+    } else if (typeof value === 'string') {
+      values[field] = value.trim()
+    } else if (typeof value === 'number') {
+      // Models without structured output sometimes emit years/pages as numbers
+      values[field] = String(value)
+    } else {
+      reasons.push(`${field} must be a string (got ${Array.isArray(value) ? 'array' : typeof value})`)
+    }
+  }
+
+  const confidence = typeof raw.confidence === 'string' ? raw.confidence.trim().toLowerCase() : ''
+  if (raw.confidence !== undefined && !CONFIDENCE_VALUES.includes(confidence)) {
+    reasons.push(`confidence must be one of ${CONFIDENCE_VALUES.join(', ')}`)
+  }
+
+  if (reasons.length === 0) {
+    if (!values.title && !values.firstAuthor) {
+      reasons.push('missing both title and firstAuthor')
+    }
+    if (/^unknown\d*$/i.test(values.citationKey) || /^unknown$/i.test(values.title) || /^unknown$/i.test(values.firstAuthor)) {
+      reasons.push('placeholder "Unknown" values')
+    }
+    if (!isAcceptedYear(values.year)) {
+      reasons.push(`year "${values.year}" has no 4-digit year`)
+    }
+  }
+
+  if (reasons.length > 0) {
+    return { ok: false, reasons }
+  }
+
+  const modelConfidence = (confidence || 'medium') as ExtractedReference['confidence']
+  return {
+    ok: true,
+    reference: {
+      citationKey: values.citationKey,
+      firstAuthor: values.firstAuthor,
+      otherAuthors: values.otherAuthors,
+      title: values.title,
+      year: values.year,
+      publisherJournal: values.publisherJournal,
+      volumeIssue: values.volumeIssue,
+      pages: values.pages,
+      extraNotes: values.extraNotes,
+      isbn: values.isbn,
+      referenceRaw: '',
+      // Final confidence is computed by the scorer; start from the model's own rating
+      confidence: modelConfidence,
+      modelConfidence,
+      extractionMethod: 'llm',
+    },
+  }
+}
+
+/**
+ * Empty, a 4-digit year somewhere in the value, or "n.d." / "in press" / "forthcoming"
+ */
+function isAcceptedYear(year: string): boolean {
+  return !year || /\d{4}/.test(year) || /^(n\.\s?d\.?|in press|forthcoming)$/i.test(year)
+}
+
+// Columns curators may set; everything else on a reference is derived or provenance
+const EDITABLE_FIELDS = [...STRING_FIELDS, 'firstAuthorAffiliation', 'referenceRaw'] as const
+
+export type EditableField = typeof EDITABLE_FIELDS[number] | 'confidence' | 'authors' | 'etAl'
+
+const AUTHOR_STRING_FIELDS = ['family', 'given', 'particle', 'suffix', 'initials', 'orcid', 'affiliation'] as const
+
+const AFFILIATION_SOURCES = ['semantic-scholar', 'perplexity', 'openalex'] as const
+
+/**
+ * Affiliation details as returned by the API (sent back with an edited author list)
+ */
+function validateAffiliationDetails(value: unknown, path: string, reasons: string[]): AuthorAffiliation | undefined {
+  const raw = (typeof value === 'object' && value !== null && !Array.isArray(value) ? value : {}) as Record<string, unknown>
+  const valid = typeof raw.institution === 'string' && raw.institution.trim() !== '' &&
+    (raw.countryCode === undefined || (typeof raw.countryCode === 'string' && /^[A-Z]{2}$/.test(raw.countryCode))) &&
+    (AFFILIATION_SOURCES as readonly unknown[]).indexOf(raw.source) !== -1 &&
+    CONFIDENCE_VALUES.includes(raw.confidence as string) &&
+    typeof raw.foundAt === 'string' &&
+    Object.keys(raw).every(key => ['institution', 'countryCode', 'source', 'confidence', 'foundAt'].indexOf(key) !== -1)
+  if (!valid) {
+    reasons.push(`${path} must be { institution, countryCode?, source, confidence, foundAt }`)
+    return undefined
+  }
+  return raw as unknown as AuthorAffiliation
+}
+
+/**
+ * ORCID iD with a valid ISO 7064 11,2 check digit
+ */
+function isValidOrcid(orcid: string): boolean {
+  if (!/^\d{4}-\d{4}-\d{4}-\d{3}[\dX]$/.test(orcid)) return false
+  const digits = orcid.replace(/-/g, '')
+  let total = 0
+  for (let i = 0; i < 15; i++) {
+    total = (total + parseInt(digits[i], 10)) * 2
+  }
+  const check = (12 - (total % 11)) % 11
+  return digits[15] === (check === 10 ? 'X' : String(check))
+}
+
+/**
+ * Validate a structured author list; missing initials are derived from the given name
+ */
+function validateAuthors(value: unknown, reasons: string[]): Author[] | undefined {
+  if (!Array.isArray(value)) {
+    reasons.push('authors must be a list of { family, given?, particle?, suffix?, orcid?, affiliation?, affiliationDetails?, literal? }')
+    return undefined
+  }
+
+  return value.map((item, index) => {
+    const author: Author = { family: '', given: '', initials: '' }
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      reasons.push(`authors[${index}] must be an object`)
+      return author
+    }
+    const raw = item as Record<string, unknown>
+    Object.keys(raw).forEach(field => {
+      const fieldValue = raw[field]
+      if (field === 'literal') {
+        if (typeof fieldValue !== 'boolean') reasons.push(`authors[${index}].literal must be true or false`)
+        else if (fieldValue) author.literal = true
+      } else if (field === 'affiliationDetails') {
+        if (fieldValue !== null) author.affiliationDetails = validateAffiliationDetails(fieldValue, `authors[${index}].affiliationDetails`, reasons)
+      } else if ((AUTHOR_STRING_FIELDS as readonly string[]).indexOf(field) === -1) {
+        reasons.push(`authors[${index}].${field} is not an author field`)
+      } else if (fieldValue !== null && fieldValue !== undefined && typeof fieldValue !== 'string') {
+        reasons.push(`authors[${index}].${field} must be a string`)
+      } else if (fieldValue) {
+        author[field as typeof AUTHOR_STRING_FIELDS[number]] = (fieldValue as string).trim()
+      }
+    })
+
+    if (!author.family) reasons.push(`authors[${index}] needs a family name`)
+    if (author.orcid) {
+      author.orcid = author.orcid.replace(/^https?:\/\/orcid\.org\//i, '').toUpperCase()
+      if (!isValidOrcid(author.orcid)) reasons.push(`authors[${index}].orcid "${author.orcid}" is not a valid ORCID iD`)
+    }
+    if (author.literal) {
+      author.given = ''
+      author.initials = ''
+    } else if (!author.initials) {
+      author.initials = initialsOf(author.given)
+    }
+    // Optional parts left empty are dropped rather than stored as ""
+    ;(['particle', 'suffix', 'orcid', 'affiliation', 'affiliationDetails'] as const).forEach(field => {
+      if (!author[field]) delete author[field]
+    })
+    // Details describe the affiliation enhancement found; one changed by hand drops them
+    if (author.affiliationDetails && author.affiliation !== formatAffiliation(author.affiliationDetails)) {
+      delete author.affiliationDetails
+    }
+    return author
+  })
+}
+
+export type ReferenceEditResult =
+  | { ok: true; values: Partial<Pick<ExtractedReference, EditableField>> }
+  | { ok: false; reasons: string[] }
+
+/**
+ * Validate fields for creating (all optional, title or firstAuthor required) or patching a reference
+ * Unknown and read-only fields are rejected rather than ignored, so typos do not pass silently.
+ */
+export function validateReferenceEdit(body: unknown, options: { partial: boolean }): ReferenceEditResult {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { ok: false, reasons: ['body must be a JSON object'] }
+  }
+
+  const raw = body as Record<string, unknown>
+  const reasons: string[] = []
+  const values: Record<string, unknown> = {}
+
+  Object.keys(raw).forEach(field => {
+    const value = raw[field]
+    if (field === 'authors') {
+      values.authors = validateAuthors(value, reasons)
+    } else if (field === 'etAl') {
+      if (typeof value !== 'boolean') reasons.push('etAl must be true or false')
+      else values.etAl = value
+    } else if (field === 'confidence') {
+      if (typeof value !== 'string' || !CONFIDENCE_VALUES.includes(value)) {
+        reasons.push(`confidence must be one of ${CONFIDENCE_VALUES.join(', ')}`)
+      } else {
+        values.confidence = value
+      }
+    } else if ((EDITABLE_FIELDS as readonly string[]).indexOf(field) === -1) {
+      reasons.push(`${field} is not an editable field`)
+    } else if (value === null) {
+      values[field] = ''
+    } else if (typeof value === 'string') {
+      values[field] = value.trim()
+    } else if (typeof value === 'number') {
+      values[field] = String(value)
+    } else {
+      reasons.push(`${field} must be a string (got ${Array.isArray(value) ? 'array' : typeof value})`)
+    }
+  })
+
+  if (values.year !== undefined && !isAcceptedYear(values.year as string)) {
+    reasons.push(`year "${values.year}" has no 4-digit year`)
+  }
+  if (values.isbn) {
+    const invalid = (values.isbn as string).split(/\s*[;,]\s*/).filter(isbn => !isValidIsbn(isbn))
+    if (invalid.length > 0) reasons.push(`invalid ISBN ${invalid.join(', ')}`)
+  }
+  if (values.authors && (values.firstAuthor !== undefined || values.otherAuthors !== undefined)) {
+    reasons.push('send either authors or firstAuthor / otherAuthors')
+  }
+  const hasAuthor = Boolean(values.firstAuthor) || Boolean(values.authors && (values.authors as Author[]).length > 0)
+  if (!options.partial && !values.title && !hasAuthor) {
+    reasons.push('title or an author is required')
+  }
+  if (options.partial && Object.keys(raw).length === 0) {
+    reasons.push('no fields to update')
+  }
+
+  if (reasons.length > 0) {
+    return { ok: false, reasons }
+  }
+  return { ok: true, values: values as Partial<Pick<ExtractedReference, EditableField>> }
+}
+
+/**
+ * Split the JSON objects of a (possibly truncated) array, returning only complete ones
+ * `start` must point just after the opening "[".
+ */
+function completeArrayItems(content: string, start: number): string[] {
+  const items: string[] = []
+  let depth = 0
+  let inString = false
+  let escaped = false
+  let itemStart = -1
+
+  for (let i = start; i < content.length; i++) {
+    const char = content[i]
+
+    if (inString) {
+      if (escaped) escaped = false
+      else if (char === '\\') escaped = true
+      else if (char === '"') inString = false
+      continue
+    }
+
+    if (char === '"') {
+      inString = true
+    } else if (char === '{') {
+      if (depth === 0) itemStart = i
+      depth++
+    } else if (char === '}') {
+      depth--
+      if (depth === 0 && itemStart !== -1) {
+        items.push(content.slice(itemStart, i + 1))
+        itemStart = -1
+      }
+    } else if (char === ']' && depth === 0) {
+      break
+    }
+  }
+
+  return items
+}
+
+/**
+ * Parse the LLM response into raw items
+ * `truncated` is true when the JSON was incomplete and only complete entries were salvaged.
+ */
+export function parseReferencePayload(content: string): { items: unknown[]; truncated: boolean } {
+  try {
+    const parsed = JSON.parse(content)
+    if (parsed && Array.isArray(parsed.references)) {
+      return { items: parsed.references, truncated: false }
+    }
+    if (Array.isArray(parsed)) {
+      return { items: parsed, truncated: false }
+    }
+    throw new Error('LLM response has no "references" array')
+  } catch (err) {
+    if (!(err instanceof SyntaxError)) {
+      throw err
+    }
+  }
+
+  // Truncated JSON: keep every complete object in the references array
+  const key = content.indexOf('"references"')
+  const arrayStart = content.indexOf('[', key === -1 ? 0 : key)
+  if (arrayStart === -1) {
+    throw new Error('Invalid JSON response from LLM (no references array found)')
+  }
+
+  const items: unknown[] = []
+  for (const text of completeArrayItems(content, arrayStart + 1)) {
+    try {
+      items.push(JSON.parse(text))
+    } catch (err) {
+      // Skip malformed entries; they are not recoverable
+    }
+  }
+  return { items, truncated: true }
+}
+
+/**
+ * Short description of a rejected item for reporting
+ */
+export function describeRejectedItem(item: unknown, reasons: string[], chunk: number, index: number): RejectedReferenceItem {
+  let preview: string
+  try {
+    preview = JSON.stringify(item)
+  } catch (err) {
+    preview = String(item)
+  }
+  return {
+    chunk,
+    index,
+    reasons,
+    item: preview.length > 300 ? `${preview.substring(0, 300)}…` : preview,
+  }
+}
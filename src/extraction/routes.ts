@@ -3,9 +3,27 @@
  */
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
-import { startExtraction, getResult, getProgress } from './orchestrator'
+import { startExtraction, startBatchExtraction, getBatchStatus, getResult, getProgress, cancelExtraction } from './orchestrator'
+import { removeQueueEntry } from './jobQueue'
+import { expandUpload, createUploadBudget, uploadFilename, UploadedDocument } from './uploads'
+import { parseIdentifier, splitIdentifierList } from '../metadata/identifiers'
+import { BatchFile, ExtractedReference, ChangeActor } from '../types-simple'
+import config from '../config'
 import { loadJob, listJobs, deleteJob } from './storage'
-import { loadMasterTable, clearMasterTable, getMasterTableStats } from './masterTable'
+import { loadMasterTable, clearMasterTable, getMasterTableStats, addToMasterTable, previewMasterTableAdditions, getDuplicateClusters, mergeMasterTableReferences, MasterTableError, getReference, createReference, updateReference, deleteReference, queryMasterTable, revertChange, restoreMasterTable, transferReferences } from './masterTable'
+import { referenceHistory, listChanges } from './history'
+import { listCollections, getCollection, createCollection, updateCollection, deleteCollection } from './collections'
+import { DEFAULT_COLLECTION } from './database'
+import { MASTER_SORT_FIELDS, MasterQuery, MasterSortField } from './masterSearch'
+import { getAnnotations, loadAnnotations, updateAnnotations, listTags, validateAnnotationEdit, normalizeTag, READING_STATUSES, ReadingStatus } from './annotations'
+import { validateReferenceEdit } from './referenceSchema'
+import { formatAuthorList, formatAuthorAffiliations, authorStrings, referenceAuthorList } from './authors'
+import { listAuthors, getAuthor, mergeAuthors, splitAuthor } from './authorIndex'
+import { MERGE_COLUMNS, MergeChoices, MergeColumn } from './duplicates'
+import { attachProvenance, citedByCount } from './provenance'
+import { detectFormat, parseBibliography, IMPORT_FORMATS, ImportFormat, ImportIssue } from '../formats/importer'
+import { serializeReferences, EXPORT_FORMATS, EXPORT_FILE_TYPES } from '../formats/exporter'
+import { formatBibliography, CITATION_STYLES, CITATION_OUTPUTS, CITATION_CONTENT_TYPES, CitationStyle, CitationOutput } from '../formats/citations'
 import { startEnhancement, getEnhancementStatus, getAllEnhancementJobs } from '../enhancement/orchestrator'
 import ExcelJS from 'exceljs'
 import { Parser } from 'json2csv'
@@ -19,23 +37,59 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
     return { status: 'ok', timestamp: new Date().toISOString(), mode: 'llm-only' }
   })
 
-  // Extract references from PDF
-  fastify.post('/extract', async (request: FastifyRequest, reply: FastifyReply) => {
+  // Extract references from one or more PDFs / ZIP archives of PDFs
+  // ZIP archives may exceed MAX_FILE_SIZE; the PDFs in them are checked individually in uploads.ts
+  const uploadLimit = Math.max(config.MAX_FILE_SIZE, config.MAX_ARCHIVE_SIZE)
+  fastify.post('/extract', { bodyLimit: uploadLimit }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
     try {
-      const data: any = await request.file()
-      
-      if (!data) {
+      const documents: UploadedDocument[] = []
+      const rejected: BatchFile[] = []
+      let uploads = 0
+      let oversized = 0
+      const budget = createUploadBudget()
+
+      for await (const part of request.files({ limits: { fileSize: uploadLimit } })) {
+        const filename = uploadFilename(part.filename, uploads++)
+        const buffer = await part.toBuffer()
+        console.log(`[API] Received upload: ${filename} (${buffer.length} bytes)`)
+
+        const expanded = await expandUpload(filename, buffer, budget)
+        documents.push(...expanded.documents)
+        rejected.push(...expanded.rejected)
+        oversized += expanded.oversized
+      }
+
+      if (uploads === 0) {
         return reply.code(400).send({ error: 'No file uploaded' })
       }
 
-      const buffer = await data.toBuffer()
-      
-      console.log(`[API] Received PDF upload: ${data.filename} (${buffer.length} bytes)`)
+      if (documents.length === 0 && oversized > 0 && oversized === rejected.length) {
+        return reply.code(413).send({ error: 'Upload exceeds the size limits', rejected })
+      }
+      if (documents.length === 0) {
+        return reply.code(400).send({ error: 'No PDF files found in upload', rejected })
+      }
 
-      const jobId = await startExtraction({ pdfBuffer: buffer })
+      // A single PDF is a plain job, as before
+      if (documents.length === 1 && rejected.length === 0) {
+        const jobId = await startExtraction({ pdfBuffer: documents[0].pdfBuffer, filename: documents[0].filename, collection })
+        return reply.send({ jobId })
+      }
 
-      return reply.send({ jobId })
+      // Several documents: a parent batch; /status/:batchId reports aggregate progress
+      const batch = await startBatchExtraction(documents, rejected, collection)
+      return reply.send({
+        jobId: batch.batchId,
+        batchId: batch.batchId,
+        jobIds: batch.files.filter(f => f.jobId).map(f => f.jobId),
+        files: batch.files,
+      })
     } catch (error) {
+      if ((error as { code?: string }).code === 'FST_REQ_FILE_TOO_LARGE') {
+        return reply.code(413).send({ error: `Upload larger than ${uploadLimit} bytes` })
+      }
       console.error('[API] Upload failed:', error)
       return reply.code(500).send({
         error: 'Failed to process PDF',
@@ -44,12 +98,64 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
     }
   })
 
+  // Extract references from identifiers (DOI, arXiv ID, PMID, ISBN)
+  // Body: { "identifiers": [...] } or { "identifiers": "one per line" }, or a text/plain list
+  fastify.post('/extract/identifiers', async (request: FastifyRequest<{ Body: { identifiers?: string[] | string } | string }>, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    const body = request.body
+    const raw = typeof body === 'string' ? body : body?.identifiers
+    const identifiers = Array.isArray(raw)
+      ? raw.map(String).map(id => id.trim()).filter(id => id.length > 0)
+      : splitIdentifierList(raw || '')
+
+    if (identifiers.length === 0) {
+      return reply.code(400).send({ error: 'No identifiers provided' })
+    }
+
+    const unrecognised = identifiers.filter(id => !parseIdentifier(id))
+    if (unrecognised.length === identifiers.length) {
+      return reply.code(400).send({ error: 'No recognised DOI, arXiv ID, PMID or ISBN', unrecognised })
+    }
+
+    try {
+      console.log(`[API] Received ${identifiers.length} identifiers (${unrecognised.length} unrecognised)`)
+      const jobId = await startExtraction({ identifiers, collection })
+      return reply.send({ jobId, accepted: identifiers.length - unrecognised.length, unrecognised })
+    } catch (error) {
+      console.error('[API] Identifier extraction failed:', error)
+      return reply.code(500).send({
+        error: 'Failed to start identifier extraction',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  })
+
   // Get extraction status
   fastify.get('/status/:jobId', async (request: FastifyRequest<{ Params: { jobId: string } }>, reply: FastifyReply) => {
     const { jobId } = request.params
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+
+    // Batch IDs share the endpoint with job IDs
+    const batch = await getBatchStatus(jobId)
+    if (batch && inCollection(batch, collection)) {
+      const done = batch.counts.completed + batch.counts.failed + batch.counts.cancelled
+      return reply.send({
+        jobId,
+        batchId: batch.batchId,
+        status: batch.status,
+        progress: batch.progress,
+        extractedCount: batch.files.reduce((sum, file) => sum + file.extractedCount, 0),
+        currentStep: `${done}/${batch.files.length - batch.counts.rejected} files done`,
+        counts: batch.counts,
+        files: batch.files,
+        failures: batch.files.filter(f => f.status === 'failed' || f.status === 'rejected'),
+      })
+    }
 
     const job = await loadJob(jobId)
-    if (!job) {
+    if (!job || !inCollection(job, collection)) {
       return reply.code(404).send({ error: 'Job not found' })
     }
 
@@ -58,10 +164,14 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
     return reply.send({
       jobId,
       status: job.status,
-      progress: job.progress,
+      progress: job.status === 'processing' && progress ? progress.progress : job.progress,
       totalReferences: job.totalReferences,
       extractedCount: job.extractedReferences.length,
       currentStep: progress?.currentStep || 'unknown',
+      chunks: progress?.chunks,
+      usage: job.usage || progress?.usage,
+      rejectedCount: job.rejectedItems?.length || 0,
+      identifierFailures: job.identifierFailures,
       error: job.error,
     })
   })
@@ -69,9 +179,21 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
   // Get extraction results
   fastify.get('/results/:jobId', async (request: FastifyRequest<{ Params: { jobId: string } }>, reply: FastifyReply) => {
     const { jobId } = request.params
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+
+    const batch = await getBatchStatus(jobId)
+    if (batch && inCollection(batch, collection)) {
+      // Batch: per-file status plus all references extracted so far
+      const jobs = await Promise.all(batch.files.map(f => (f.jobId ? loadJob(f.jobId) : Promise.resolve(null))))
+      const extractedReferences = jobs.reduce<ExtractedReference[]>(
+        (all, child) => (child ? all.concat(child.extractedReferences) : all), []
+      )
+      return reply.send({ ...batch, extractedReferences })
+    }
 
     const job = await loadJob(jobId)
-    if (!job) {
+    if (!job || !inCollection(job, collection)) {
       return reply.code(404).send({ error: 'Job not found' })
     }
 
@@ -81,9 +203,11 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
   // Download CSV
   fastify.get('/download/:jobId.csv', async (request: FastifyRequest<{ Params: { jobId: string } }>, reply: FastifyReply) => {
     const { jobId } = request.params
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
 
     const job = await loadJob(jobId)
-    if (!job) {
+    if (!job || !inCollection(job, collection)) {
       return reply.code(404).send({ error: 'Job not found' })
     }
 
@@ -94,7 +218,7 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
     // Convert to CSV format
     const fields = [
       { label: 'Citation Key', value: 'citationKey' },
-      { label: 'Authors', value: (row: any) => row.authors.join('; ') },
+      { label: 'Authors', value: formatAuthorList },
       { label: 'Title', value: 'title' },
       { label: 'Year', value: 'year' },
       { label: 'Publisher / Journal', value: 'publisherJournal' },
@@ -103,6 +227,8 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
       { label: 'Extra Notes', value: 'extraNotes' },
       { label: 'ISBN', value: 'isbn' },
       { label: 'Confidence', value: 'confidence' },
+      { label: 'Confidence Score', value: 'confidenceScore' },
+      { label: 'Confidence Notes', value: (row: ExtractedReference) => (row.confidenceReasons || []).join('; ') },
     ]
 
     const parser = new Parser({ fields })
@@ -116,9 +242,11 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
   // Download Excel
   fastify.get('/download/:jobId.xlsx', async (request: FastifyRequest<{ Params: { jobId: string } }>, reply: FastifyReply) => {
     const { jobId } = request.params
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
 
     const job = await loadJob(jobId)
-    if (!job) {
+    if (!job || !inCollection(job, collection)) {
       return reply.code(404).send({ error: 'Job not found' })
     }
 
@@ -142,6 +270,8 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
       { header: 'Extra Notes', key: 'extraNotes', width: 40 },
       { header: 'ISBN', key: 'isbn', width: 20 },
       { header: 'Confidence', key: 'confidence', width: 12 },
+      { header: 'Confidence Score', key: 'confidenceScore', width: 16 },
+      { header: 'Confidence Notes', key: 'confidenceReasons', width: 40 },
     ]
 
     // Style header row
@@ -154,12 +284,9 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
 
     // Add data
     job.extractedReferences.forEach(ref => {
-      const authors = ref.otherAuthors 
-        ? `${ref.firstAuthor}; ${ref.otherAuthors}` 
-        : ref.firstAuthor
       worksheet.addRow({
         citationKey: ref.citationKey,
-        authors: authors,
+        authors: formatAuthorList(ref),
         title: ref.title,
         year: ref.year,
         publisherJournal: ref.publisherJournal,
@@ -168,6 +295,8 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
         extraNotes: ref.extraNotes,
         isbn: ref.isbn,
         confidence: ref.confidence,
+        confidenceScore: ref.confidenceScore ?? '',
+        confidenceReasons: (ref.confidenceReasons || []).join('; '),
       })
     })
 
@@ -179,9 +308,35 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
     return reply.send(buffer)
   })
 
+  // Download as BibTeX (.bib), BibLaTeX (.biblatex.bib), RIS (.ris) or CSL-JSON (.json)
+  EXPORT_FORMATS.forEach(format => {
+    const { extension, contentType } = EXPORT_FILE_TYPES[format]
+
+    fastify.get(`/download/:jobId.${extension}`, async (request: FastifyRequest<{ Params: { jobId: string } }>, reply: FastifyReply) => {
+      const { jobId } = request.params
+      const collection = await requestCollection(request)
+      if (!collection) return sendUnknownCollection(request, reply)
+
+      const job = await loadJob(jobId)
+      if (!job || !inCollection(job, collection)) {
+        return reply.code(404).send({ error: 'Job not found' })
+      }
+
+      if (job.status !== 'completed') {
+        return reply.code(400).send({ error: 'Job not completed yet' })
+      }
+
+      reply.header('Content-Type', contentType)
+      reply.header('Content-Disposition', `attachment; filename="references-${jobId}.${extension}"`)
+      return reply.send(serializeReferences(job.extractedReferences, format))
+    })
+  })
+
   // List all jobs
   fastify.get('/jobs', async (request: FastifyRequest, reply: FastifyReply) => {
-    const jobIds = await listJobs()
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    const jobIds = await listJobs(collection)
     
     const jobs = await Promise.all(
       jobIds.map(async id => {
@@ -189,6 +344,8 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
         return job ? {
           jobId: job.jobId,
           status: job.status,
+          filename: job.filename,
+          batchId: job.batchId,
           totalReferences: job.totalReferences,
           createdAt: job.createdAt,
           completedAt: job.completedAt,
@@ -199,11 +356,30 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
     return reply.send(jobs.filter(j => j !== null))
   })
 
-  // Delete a job
+  // Cancel a queued/running job, or delete a finished one
   fastify.delete('/jobs/:jobId', async (request: FastifyRequest<{ Params: { jobId: string } }>, reply: FastifyReply) => {
     const { jobId } = request.params
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+
+    const job = await loadJob(jobId)
+    if (!job || !inCollection(job, collection)) {
+      return reply.code(404).send({ error: 'Job not found' })
+    }
 
     try {
+      if (job.status === 'queued' || job.status === 'processing') {
+        const result = await cancelExtraction(jobId)
+        if (result) {
+          return reply.send({
+            message: result === 'cancelled' ? 'Job cancelled' : 'Job cancellation requested',
+            jobId,
+            status: result,
+          })
+        }
+      }
+
+      await removeQueueEntry(jobId)
       await deleteJob(jobId)
       return reply.send({ message: 'Job deleted' })
     } catch (error) {
@@ -211,37 +387,293 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
     }
   })
 
+  // ===========================================
+  // COLLECTION ROUTES (one master table per project)
+  // ===========================================
+
+  // List collections with their reference and job counts
+  fastify.get('/collections', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      return reply.send(await listCollections())
+    } catch (error) {
+      return reply.code(500).send({ error: 'Failed to list collections' })
+    }
+  })
+
+  // Body: { id: "group-a", name?, description? }
+  fastify.post('/collections', async (request: FastifyRequest<{ Body: { id?: unknown; name?: unknown; description?: unknown } }>, reply: FastifyReply) => {
+    const { id, name, description } = request.body || {}
+    if (typeof id !== 'string' || (name !== undefined && typeof name !== 'string') || (description !== undefined && typeof description !== 'string')) {
+      return reply.code(400).send({ error: 'Provide id, and optionally name and description, as strings' })
+    }
+
+    try {
+      const collection = await createCollection(id, name, description)
+      return reply.code(201).send(collection)
+    } catch (error) {
+      return sendMasterTableError(reply, error, 'Failed to create collection')
+    }
+  })
+
+  fastify.get('/collections/:id', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      const collection = (await listCollections()).find(c => c.id === request.params.id)
+      if (!collection) {
+        return reply.code(404).send({ error: 'Collection not found' })
+      }
+      return reply.send(collection)
+    } catch (error) {
+      return reply.code(500).send({ error: 'Failed to load collection' })
+    }
+  })
+
+  // Rename or describe a collection (its ID stays)
+  fastify.patch('/collections/:id', async (request: FastifyRequest<{ Params: { id: string }; Body: { name?: unknown; description?: unknown } }>, reply: FastifyReply) => {
+    const { name, description } = request.body || {}
+    if ((name !== undefined && typeof name !== 'string') || (description !== undefined && typeof description !== 'string')) {
+      return reply.code(400).send({ error: 'name and description must be strings' })
+    }
+
+    try {
+      return reply.send(await updateCollection(request.params.id, { name, description }))
+    } catch (error) {
+      return sendMasterTableError(reply, error, 'Failed to update collection')
+    }
+  })
+
+  // Delete a collection with its references and jobs
+  fastify.delete('/collections/:id', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    try {
+      await deleteCollection(request.params.id, changeActor(request))
+      return reply.send({ message: 'Collection deleted' })
+    } catch (error) {
+      return sendMasterTableError(reply, error, 'Failed to delete collection')
+    }
+  })
+
   // ===========================================
   // MASTER TABLE ROUTES (Persistent Storage)
+  // Every route works on ?collection= (default: the default collection)
   // ===========================================
 
   // Get master references table
-  fastify.get('/master', async (request: FastifyRequest, reply: FastifyReply) => {
+  // Optional: ?q= full-text search, ?author= ?yearFrom= ?yearTo= ?hasAffiliation= ?confidence=high,medium ?jobId=
+  // filters, reading-list filters ?tag=a,b ?readingStatus=to-read,none ?minRating= ?hasNotes=,
+  // ?sort= ?order=asc|desc, and ?limit= with ?cursor= (the previous page's nextCursor)
+  fastify.get('/master', async (request: FastifyRequest<{ Querystring: MasterQueryString }>, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    const parsed = parseMasterQuery(request.query)
+    if ('error' in parsed) {
+      return reply.code(400).send({ error: parsed.error })
+    }
+
     try {
-      const references = await loadMasterTable()
+      const result = await queryMasterTable(collection, parsed)
+      const annotations = await loadAnnotations(collection)
       return reply.send({
-        total: references.length,
-        references,
+        ...result,
+        references: result.references.map(ref => ({ ...ref, citedBy: citedByCount(ref), annotations: annotations.get(ref.id!) || null })),
       })
     } catch (error) {
+      if (error instanceof MasterTableError) {
+        return reply.code(error.status).send({ error: error.message })
+      }
       return reply.code(500).send({ error: 'Failed to load master table' })
     }
   })
 
   // Get master table statistics
   fastify.get('/master/stats', async (request: FastifyRequest, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
     try {
-      const stats = await getMasterTableStats()
+      const stats = await getMasterTableStats(collection)
       return reply.send(stats)
     } catch (error) {
       return reply.code(500).send({ error: 'Failed to load stats' })
     }
   })
 
+  // Candidate duplicate clusters with pair scores (?threshold= overrides DUPLICATE_THRESHOLD)
+  fastify.get('/master/duplicates', async (request: FastifyRequest<{ Querystring: { threshold?: string } }>, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    const threshold = request.query.threshold !== undefined ? parseFloat(request.query.threshold) : undefined
+    if (threshold !== undefined && (isNaN(threshold) || threshold < 0 || threshold > 1)) {
+      return reply.code(400).send({ error: 'threshold must be between 0 and 1' })
+    }
+
+    try {
+      const clusters = await getDuplicateClusters(collection, threshold)
+      return reply.send({
+        threshold: threshold ?? config.DUPLICATE_THRESHOLD,
+        clusters: clusters.length,
+        references: clusters.reduce((sum, cluster) => sum + cluster.members.length, 0),
+        duplicates: clusters,
+      })
+    } catch (error) {
+      return reply.code(500).send({ error: 'Failed to find duplicates' })
+    }
+  })
+
+  // Merge a duplicate cluster (or explicit reference IDs / table indexes) into one reference
+  // Body: { clusterId }, { ids: [...] } or { indexes: [...] }, plus optional { fields: { title: 1, year: "1970" } }
+  // picking a member (by position) or a literal value per column; ?dryRun=true previews the result
+  fastify.post('/master/duplicates/merge', async (request: FastifyRequest<{
+    Querystring: { dryRun?: string }
+    Body: { clusterId?: string; ids?: string[]; indexes?: number[]; fields?: Record<string, number | string> }
+  }>, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    const { clusterId, ids, indexes, fields = {} } = request.body || {}
+    const dryRun = request.query.dryRun === 'true' || request.query.dryRun === '1'
+
+    if (!clusterId && !Array.isArray(ids) && !Array.isArray(indexes)) {
+      return reply.code(400).send({ error: 'Provide clusterId, ids or indexes' })
+    }
+
+    const unknownColumns = Object.keys(fields).filter(column => MERGE_COLUMNS.indexOf(column as MergeColumn) === -1)
+    const badValues = Object.keys(fields).filter(column => typeof fields[column] !== 'number' && typeof fields[column] !== 'string')
+    if (unknownColumns.length > 0 || badValues.length > 0) {
+      return reply.code(400).send({
+        error: 'Invalid merge fields: use a column name with a member position or a string value',
+        unknownColumns,
+        badValues,
+        columns: MERGE_COLUMNS,
+      })
+    }
+
+    try {
+      const result = await mergeMasterTableReferences(collection, { clusterId, ids, indexes }, fields as MergeChoices, changeActor(request), { dryRun })
+      return reply.send({ dryRun, ...result })
+    } catch (error) {
+      if (error instanceof MasterTableError) {
+        return reply.code(error.status).send({ error: error.message })
+      }
+      console.error('[API] Merge failed:', error)
+      return reply.code(400).send({
+        error: 'Failed to merge references',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  })
+
+  // Copy or move references to another collection: { to: "group-b", ids?: [...] } (all when ids is missing)
+  ;(['copy', 'move'] as const).forEach(operation => {
+    fastify.post(`/master/${operation}`, async (request: FastifyRequest<{ Body: { to?: unknown; ids?: unknown } }>, reply: FastifyReply) => {
+      const collection = await requestCollection(request)
+      if (!collection) return sendUnknownCollection(request, reply)
+
+      const { to, ids } = request.body || {}
+      if (typeof to !== 'string' || (ids !== undefined && !(Array.isArray(ids) && ids.every(id => typeof id === 'string')))) {
+        return reply.code(400).send({ error: 'Provide the target collection as to, and optionally ids as a list of reference IDs' })
+      }
+      if (!(await getCollection(to))) {
+        return reply.code(404).send({ error: `Collection "${to}" not found` })
+      }
+
+      try {
+        const result = await transferReferences(collection, to, ids as string[] | undefined, changeActor(request), { move: operation === 'move' })
+        return reply.send({ from: collection, to, ...result })
+      } catch (error) {
+        return sendMasterTableError(reply, error, `Failed to ${operation} references`)
+      }
+    })
+  })
+
+  // Tags used in the collection with their reference counts
+  fastify.get('/master/tags', async (request: FastifyRequest, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    try {
+      return reply.send({ tags: await listTags(collection) })
+    } catch (error) {
+      return reply.code(500).send({ error: 'Failed to load tags' })
+    }
+  })
+
+  // Authors index: name variants clustered into authors, most referenced first (?q= filters by name)
+  fastify.get('/master/authors', async (request: FastifyRequest<{ Querystring: { q?: string } }>, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    try {
+      const authors = await listAuthors(collection, request.query.q)
+      return reply.send({ total: authors.length, authors })
+    } catch (error) {
+      return sendMasterTableError(reply, error, 'Failed to build authors index')
+    }
+  })
+
+  // Merge authors into the first one. Body: { ids: [...] }
+  fastify.post('/master/authors/merge', async (request: FastifyRequest<{ Body: { ids?: unknown } }>, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    const { ids } = request.body || {}
+    if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string')) {
+      return reply.code(400).send({ error: 'ids must be a list of author IDs' })
+    }
+
+    try {
+      const author = await mergeAuthors(collection, ids as string[], changeActor(request).user)
+      return reply.send({ author })
+    } catch (error) {
+      return sendMasterTableError(reply, error, 'Failed to merge authors')
+    }
+  })
+
+  // One author with every reference naming them
+  fastify.get('/master/authors/:authorId', async (request: FastifyRequest<{ Params: { authorId: string } }>, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    try {
+      const found = await getAuthor(collection, request.params.authorId)
+      if (!found) {
+        return reply.code(404).send({ error: `No author ${request.params.authorId}` })
+      }
+      return reply.send(found)
+    } catch (error) {
+      return sendMasterTableError(reply, error, 'Failed to load author')
+    }
+  })
+
+  // Move part of an author to a new one. Body: { referenceIds: [...] } and/or { names: ["Wiener, N."] }
+  fastify.post('/master/authors/:authorId/split', async (request: FastifyRequest<{
+    Params: { authorId: string }
+    Body: { referenceIds?: unknown; names?: unknown }
+  }>, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    const { referenceIds, names } = request.body || {}
+    const stringList = (value: unknown) => value === undefined || (Array.isArray(value) && value.every(item => typeof item === 'string'))
+    if ((referenceIds === undefined && names === undefined) || !stringList(referenceIds) || !stringList(names)) {
+      return reply.code(400).send({ error: 'Provide referenceIds and/or names as lists of strings' })
+    }
+
+    try {
+      const result = await splitAuthor(
+        collection, request.params.authorId,
+        { referenceIds: referenceIds as string[] | undefined, names: names as string[] | undefined },
+        changeActor(request).user
+      )
+      return reply.send(result)
+    } catch (error) {
+      return sendMasterTableError(reply, error, 'Failed to split author')
+    }
+  })
+
   // Download master table as CSV
   fastify.get('/master/download/csv', async (request: FastifyRequest, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
     try {
-      const references = await loadMasterTable()
+      const references = await loadMasterTable(collection)
+      const annotations = await loadAnnotations(collection)
+      const annotated = (ref: ExtractedReference) => annotations.get(ref.id!)
+      const names = (ref: ExtractedReference) => {
+        const { authors, etAl } = referenceAuthorList(ref)
+        return authorStrings(authors, etAl)
+      }
       
       if (references.length === 0) {
         return reply.code(404).send({ error: 'Master table is empty' })
@@ -249,9 +681,10 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
 
       const fields = [
         { label: 'Citation Key', value: 'citationKey' },
-        { label: 'First Author', value: 'firstAuthor' },
-        { label: 'Other Authors', value: 'otherAuthors' },
+        { label: 'First Author', value: (ref: ExtractedReference) => names(ref).firstAuthor },
+        { label: 'Other Authors', value: (ref: ExtractedReference) => names(ref).otherAuthors },
         { label: 'Affiliation', value: 'firstAuthorAffiliation' },
+        { label: 'Author Affiliations', value: formatAuthorAffiliations },
         { label: 'Title', value: 'title' },
         { label: 'Year', value: 'year' },
         { label: 'Publisher / Journal', value: 'publisherJournal' },
@@ -259,13 +692,18 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
         { label: 'Pages', value: 'pages' },
         { label: 'Extra Notes', value: 'extraNotes' },
         { label: 'ISBN', value: 'isbn' },
+        { label: 'Cited By', value: citedByCount },
+        { label: 'Tags', value: (ref: ExtractedReference) => (annotated(ref)?.tags || []).join('; ') },
+        { label: 'Reading Status', value: (ref: ExtractedReference) => annotated(ref)?.readingStatus || '' },
+        { label: 'Rating', value: (ref: ExtractedReference) => annotated(ref)?.rating ?? '' },
+        { label: 'Notes', value: (ref: ExtractedReference) => annotated(ref)?.notes || '' },
       ]
 
       const parser = new Parser({ fields })
       const csv = parser.parse(references)
 
       reply.header('Content-Type', 'text/csv')
-      reply.header('Content-Disposition', 'attachment; filename="references-master.csv"')
+      reply.header('Content-Disposition', `attachment; filename="references-${exportName(collection)}.csv"`)
       return reply.send(csv)
     } catch (error) {
       return reply.code(500).send({ error: 'Failed to export CSV' })
@@ -274,8 +712,11 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
 
   // Download master table as Excel
   fastify.get('/master/download/excel', async (request: FastifyRequest, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
     try {
-      const references = await loadMasterTable()
+      const references = await loadMasterTable(collection)
+      const annotations = await loadAnnotations(collection)
       
       if (references.length === 0) {
         return reply.code(404).send({ error: 'Master table is empty' })
@@ -290,6 +731,7 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
         { header: 'First Author', key: 'firstAuthor', width: 20 },
         { header: 'Other Authors', key: 'otherAuthors', width: 30 },
         { header: 'Affiliation', key: 'firstAuthorAffiliation', width: 35 },
+        { header: 'Author Affiliations', key: 'authorAffiliations', width: 50 },
         { header: 'Title', key: 'title', width: 50 },
         { header: 'Year', key: 'year', width: 8 },
         { header: 'Publisher / Journal', key: 'publisherJournal', width: 30 },
@@ -297,15 +739,24 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
         { header: 'Pages', key: 'pages', width: 15 },
         { header: 'ISBN', key: 'isbn', width: 15 },
         { header: 'Extra Notes', key: 'extraNotes', width: 40 },
+        { header: 'Cited By', key: 'citedBy', width: 10 },
+        { header: 'Tags', key: 'tags', width: 25 },
+        { header: 'Reading Status', key: 'readingStatus', width: 14 },
+        { header: 'Rating', key: 'rating', width: 8 },
+        { header: 'Notes', key: 'notes', width: 40 },
       ]
 
       references.forEach((ref, index) => {
+        const annotated = annotations.get(ref.id!)
+        const { authors, etAl } = referenceAuthorList(ref)
+        const names = authorStrings(authors, etAl)
         worksheet.addRow({
           index: index + 1,
           citationKey: ref.citationKey,
-          firstAuthor: ref.firstAuthor,
-          otherAuthors: ref.otherAuthors,
+          firstAuthor: names.firstAuthor,
+          otherAuthors: names.otherAuthors,
           firstAuthorAffiliation: ref.firstAuthorAffiliation || '',
+          authorAffiliations: formatAuthorAffiliations(ref),
           title: ref.title,
           year: ref.year,
           publisherJournal: ref.publisherJournal,
@@ -313,6 +764,11 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
           pages: ref.pages,
           isbn: ref.isbn,
           extraNotes: ref.extraNotes,
+          citedBy: citedByCount(ref),
+          tags: (annotated?.tags || []).join('; '),
+          readingStatus: annotated?.readingStatus || '',
+          rating: annotated?.rating ?? '',
+          notes: annotated?.notes || '',
         })
       })
 
@@ -326,31 +782,367 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
       const buffer = await workbook.xlsx.writeBuffer()
 
       reply.header('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')
-      reply.header('Content-Disposition', 'attachment; filename="references-master.xlsx"')
+      reply.header('Content-Disposition', `attachment; filename="references-${exportName(collection)}.xlsx"`)
       return reply.send(buffer)
     } catch (error) {
       return reply.code(500).send({ error: 'Failed to export Excel' })
     }
   })
 
-  // Clear master table (for testing/reset)
+  // Download master table as BibTeX, BibLaTeX, RIS or CSL-JSON
+  EXPORT_FORMATS.forEach(format => {
+    const { extension, contentType } = EXPORT_FILE_TYPES[format]
+
+    fastify.get(`/master/download/${format}`, async (request: FastifyRequest, reply: FastifyReply) => {
+      const collection = await requestCollection(request)
+      if (!collection) return sendUnknownCollection(request, reply)
+      try {
+        const references = await loadMasterTable(collection)
+        reply.header('Content-Type', contentType)
+        reply.header('Content-Disposition', `attachment; filename="${exportName(collection)}-references.${extension}"`)
+        return reply.send(serializeReferences(references, format))
+      } catch (error) {
+        return reply.code(500).send({ error: `Failed to export ${format}` })
+      }
+    })
+  })
+
+  // Formatted reference list: ?style=apa|mla|chicago|ieee|harvard&format=text|html|markdown|rtf
+  // ?id= or ?key= renders a single reference by ID or citation key
+  fastify.get('/master/citations', async (request: FastifyRequest<{ Querystring: CitationQuery & { id?: string; key?: string } }>, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    try {
+      const references = await loadMasterTable(collection)
+      const { id, key } = request.query
+      const selected = id
+        ? references.filter(ref => ref.id === id)
+        : key ? references.filter(ref => ref.citationKey === key) : references
+      if (id && selected.length === 0) {
+        return reply.code(404).send({ error: `No reference with ID "${id}"` })
+      }
+      if (key && selected.length === 0) {
+        return reply.code(404).send({ error: `No reference with citation key "${key}"` })
+      }
+      return sendCitations(reply, selected, request.query)
+    } catch (error) {
+      return reply.code(500).send({ error: 'Failed to format citations' })
+    }
+  })
+
+  // Clear master table (for testing/reset; POST /master/restore brings it back)
   fastify.delete('/master', async (request: FastifyRequest, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
     try {
-      await clearMasterTable()
+      await clearMasterTable(collection, changeActor(request))
       return reply.send({ message: 'Master table cleared' })
     } catch (error) {
       return reply.code(500).send({ error: 'Failed to clear master table' })
     }
   })
 
+  // Change log of the whole table, newest first (?since= ISO timestamp, ?jobId=, ?limit=)
+  fastify.get('/master/history', async (request: FastifyRequest<{ Querystring: { since?: string; jobId?: string; limit?: string } }>, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    const since = request.query.since !== undefined ? parseTimestamp(request.query.since) : undefined
+    if (since === null) {
+      return reply.code(400).send({ error: 'since must be an ISO date or timestamp' })
+    }
+    const limit = request.query.limit !== undefined ? parseInt(request.query.limit, 10) : undefined
+    if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+      return reply.code(400).send({ error: 'limit must be a positive number' })
+    }
+
+    try {
+      const changes = listChanges(collection, { since, jobId: request.query.jobId, limit })
+      return reply.send({ changes: changes.length, history: changes })
+    } catch (error) {
+      return reply.code(500).send({ error: 'Failed to load history' })
+    }
+  })
+
+  // Undo one change (logged as a new change)
+  fastify.post('/master/history/:changeId/revert', async (request: FastifyRequest<{ Params: { changeId: string } }>, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    if (!/^\d+$/.test(request.params.changeId)) {
+      return reply.code(400).send({ error: 'Invalid change ID' })
+    }
+    const changeId = parseInt(request.params.changeId, 10)
+
+    try {
+      const reference = await revertChange(collection, changeId, changeActor(request))
+      return reply.send({ reverted: changeId, reference })
+    } catch (error) {
+      return sendMasterTableError(reply, error, 'Failed to revert change')
+    }
+  })
+
+  // Put the table back the way it was at a point in time
+  // Body: { at: "2024-05-01T12:00:00Z" } (or ?at=); ?dryRun=true only counts what would change
+  fastify.post('/master/restore', async (request: FastifyRequest<{ Querystring: { at?: string; dryRun?: string }; Body: { at?: string } }>, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    const at = parseTimestamp((request.body && request.body.at) || request.query.at || '')
+    const dryRun = request.query.dryRun === 'true' || request.query.dryRun === '1'
+    if (!at) {
+      return reply.code(400).send({ error: 'Provide at, an ISO date or timestamp' })
+    }
+
+    try {
+      const result = await restoreMasterTable(collection, at, changeActor(request), { dryRun })
+      return reply.send({ dryRun, ...result })
+    } catch (error) {
+      return sendMasterTableError(reply, error, 'Failed to restore master table')
+    }
+  })
+
+  // Single references by stable ID (curator edits)
+  fastify.get('/master/:id', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    try {
+      const reference = await getReference(collection, request.params.id)
+      if (!reference) {
+        return reply.code(404).send({ error: 'Reference not found' })
+      }
+      return reply.send({ ...reference, citedBy: citedByCount(reference), annotations: await getAnnotations(reference.id!) })
+    } catch (error) {
+      return reply.code(500).send({ error: 'Failed to load reference' })
+    }
+  })
+
+  fastify.post('/master', async (request: FastifyRequest<{ Body: unknown }>, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    const validation = validateReferenceEdit(request.body, { partial: false })
+    if (!validation.ok) {
+      return reply.code(400).send({ error: 'Invalid reference', reasons: validation.reasons })
+    }
+
+    try {
+      const reference = await createReference(collection, validation.values, changeActor(request))
+      return reply.code(201).send(reference)
+    } catch (error) {
+      return sendMasterTableError(reply, error, 'Failed to create reference')
+    }
+  })
+
+  // Only the fields sent are changed; null or "" clears one
+  fastify.patch('/master/:id', async (request: FastifyRequest<{ Params: { id: string }; Body: unknown }>, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    const validation = validateReferenceEdit(request.body, { partial: true })
+    if (!validation.ok) {
+      return reply.code(400).send({ error: 'Invalid update', reasons: validation.reasons })
+    }
+
+    try {
+      const reference = await updateReference(collection, request.params.id, validation.values, changeActor(request))
+      return reply.send({ ...reference, citedBy: citedByCount(reference) })
+    } catch (error) {
+      return sendMasterTableError(reply, error, 'Failed to update reference')
+    }
+  })
+
+  // Every change to one reference, oldest first (still available after it is deleted)
+  fastify.get('/master/:id/history', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    try {
+      const changes = referenceHistory(collection, request.params.id)
+      const reference = await getReference(collection, request.params.id)
+      if (!reference && changes.length === 0) {
+        return reply.code(404).send({ error: 'Reference not found' })
+      }
+      return reply.send({ referenceId: request.params.id, deleted: !reference, history: changes })
+    } catch (error) {
+      return reply.code(500).send({ error: 'Failed to load history' })
+    }
+  })
+
+  // Tags, notes, reading status and rating (kept apart from the extracted fields)
+  fastify.get('/master/:id/annotations', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    try {
+      if (!(await getReference(collection, request.params.id))) {
+        return reply.code(404).send({ error: 'Reference not found' })
+      }
+      const annotations = await getAnnotations(request.params.id)
+      return reply.send(annotations || { tags: [], notes: '' })
+    } catch (error) {
+      return reply.code(500).send({ error: 'Failed to load annotations' })
+    }
+  })
+
+  // Body: any of { tags, addTags, removeTags, notes, readingStatus, rating }; null clears a field
+  fastify.patch('/master/:id/annotations', async (request: FastifyRequest<{ Params: { id: string }; Body: unknown }>, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    const validation = validateAnnotationEdit(request.body)
+    if (!validation.ok) {
+      return reply.code(400).send({ error: 'Invalid annotations', reasons: validation.reasons })
+    }
+
+    try {
+      if (!(await getReference(collection, request.params.id))) {
+        return reply.code(404).send({ error: 'Reference not found' })
+      }
+      return reply.send(await updateAnnotations(request.params.id, validation.values, changeActor(request).user))
+    } catch (error) {
+      return sendMasterTableError(reply, error, 'Failed to update annotations')
+    }
+  })
+
+  fastify.delete('/master/:id', async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    try {
+      const { reference, total } = await deleteReference(collection, request.params.id, changeActor(request))
+      return reply.send({ message: 'Reference deleted', reference, total })
+    } catch (error) {
+      return sendMasterTableError(reply, error, 'Failed to delete reference')
+    }
+  })
+
+  // Bibliography files may be posted as raw text with their own content types
+  fastify.addContentTypeParser(
+    ['application/x-bibtex', 'application/x-research-info-systems', 'application/xml', 'text/xml'],
+    { parseAs: 'string' },
+    (request, body, done) => done(null, body)
+  )
+
+  // Import a BibTeX / RIS / CSL-JSON / EndNote XML file into the master table
+  // ?format= overrides detection; ?dryRun=true reports what would be added without saving
+  fastify.post('/import', async (request: FastifyRequest<{ Querystring: { format?: string; dryRun?: string } }>, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    const { format: requestedFormat, dryRun: dryRunParam } = request.query
+    const dryRun = dryRunParam === 'true' || dryRunParam === '1'
+
+    if (requestedFormat && !IMPORT_FORMATS.includes(requestedFormat as ImportFormat)) {
+      return reply.code(400).send({ error: `Unknown format "${requestedFormat}"`, formats: IMPORT_FORMATS })
+    }
+
+    // Multipart upload(s), or the file content as the request body
+    const files: { filename?: string; content: string }[] = []
+    try {
+      if (request.isMultipart()) {
+        for await (const part of request.files()) {
+          files.push({ filename: part.filename, content: (await part.toBuffer()).toString('utf8') })
+        }
+      } else if (typeof request.body === 'string') {
+        files.push({ content: request.body })
+      } else if (request.body) {
+        // application/json: CSL-JSON already parsed by Fastify
+        files.push({ content: JSON.stringify(request.body) })
+      }
+    } catch (error) {
+      return reply.code(400).send({ error: 'Failed to read upload', details: error instanceof Error ? error.message : 'Unknown error' })
+    }
+
+    if (files.length === 0 || files.every(file => !file.content.trim())) {
+      return reply.code(400).send({ error: 'No bibliography file provided' })
+    }
+
+    const references: ExtractedReference[] = []
+    const issues: (ImportIssue & { file?: string })[] = []
+    const formats: ImportFormat[] = []
+
+    for (const file of files) {
+      const format = (requestedFormat as ImportFormat) || detectFormat(file.content, file.filename)
+      if (!format) {
+        issues.push({ file: file.filename, index: 0, entry: '', reason: 'Could not detect the file format; pass ?format=' })
+        continue
+      }
+      const parsed = parseBibliography(file.content, format)
+      console.log(`[API] Parsed ${file.filename || 'request body'} as ${format}: ${parsed.references.length} references, ${parsed.issues.length} issues`)
+      references.push(...attachProvenance(parsed.references, { kind: 'import', filename: file.filename, model: format }))
+      issues.push(...parsed.issues.map(issue => ({ ...issue, file: file.filename })))
+      if (formats.indexOf(format) === -1) formats.push(format)
+    }
+
+    if (references.length === 0) {
+      return reply.code(400).send({ error: 'No references could be imported', formats, issues })
+    }
+
+    try {
+      // Same deduplication as PDF imports; the dry run only plans it
+      const plan = await previewMasterTableAdditions(collection, references)
+      const result = dryRun
+        ? { added: plan.toAdd.length, duplicates: plan.duplicates.length, total: plan.existingCount + plan.toAdd.length }
+        : await addToMasterTable(collection, references, changeActor(request, 'import'))
+
+      return reply.send({
+        format: formats.length === 1 ? formats[0] : formats,
+        dryRun,
+        parsed: references.length,
+        ...result,
+        issues,
+        preview: {
+          added: plan.toAdd,
+          duplicates: plan.duplicates.map(duplicate => ({
+            citationKey: duplicate.reference.citationKey,
+            title: duplicate.reference.title,
+            matchedBy: duplicate.matchedBy,
+            existingKey: duplicate.existingKey,
+          })),
+        },
+      })
+    } catch (error) {
+      console.error('[API] Import failed:', error)
+      return reply.code(500).send({
+        error: 'Failed to import references',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  })
+
+  // Format references sent in the body ({ references: [...] }, an array, or a single reference)
+  fastify.post('/citations', async (request: FastifyRequest<{ Querystring: CitationQuery; Body: unknown }>, reply: FastifyReply) => {
+    const body = request.body as { references?: unknown } | unknown[] | null
+    const items = Array.isArray(body) ? body : body && Array.isArray(body.references) ? body.references : body ? [body] : []
+    const references = items.filter((item): item is Partial<ExtractedReference> =>
+      typeof item === 'object' && item !== null && ('title' in item || 'firstAuthor' in item || 'authors' in item))
+
+    if (references.length === 0) {
+      return reply.code(400).send({ error: 'No references provided' })
+    }
+
+    // Fill and stringify the columns the formatter reads so partial references degrade instead of failing
+    const columns: (keyof ExtractedReference)[] = [
+      'citationKey', 'firstAuthor', 'otherAuthors', 'title', 'year', 'publisherJournal',
+      'volumeIssue', 'pages', 'extraNotes', 'isbn', 'referenceRaw',
+    ]
+    const complete = references.map(ref => {
+      const filled = { confidence: 'high', extractionMethod: 'llm', ...ref } as ExtractedReference
+      columns.forEach(column => {
+        const value = ref[column]
+        Object.assign(filled, { [column]: value === undefined || value === null ? '' : String(value) })
+      })
+      // A malformed author list falls back to the author strings
+      const authorList: unknown[] = Array.isArray(ref.authors) ? ref.authors : []
+      if (!Array.isArray(ref.authors) || authorList.some(author => typeof author !== 'object' || author === null || typeof (author as { family?: unknown }).family !== 'string')) {
+        delete filled.authors
+      }
+      return filled
+    })
+    return sendCitations(reply, complete, request.query)
+  })
+
   // ===========================================
   // ENHANCEMENT ROUTES (Phase 2)
   // ===========================================
 
   // Start enhancement process (find affiliations)
   fastify.post('/enhance', async (request: FastifyRequest, reply: FastifyReply) => {
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
     try {
-      const jobId = startEnhancement()
+      const jobId = startEnhancement(collection)
       return reply.send({ jobId, message: 'Enhancement started' })
     } catch (error) {
       console.error('[API] Enhancement failed:', error)
@@ -364,21 +1156,189 @@ export async function registerExtractionRoutes(fastify: FastifyInstance) {
   // Get enhancement status
   fastify.get('/enhance/status/:jobId', async (request: FastifyRequest<{ Params: { jobId: string } }>, reply: FastifyReply) => {
     const { jobId } = request.params
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
 
     const job = getEnhancementStatus(jobId)
-    if (!job) {
+    if (!job || !inCollection(job, collection)) {
       return reply.code(404).send({ error: 'Enhancement job not found' })
     }
 
     return reply.send(job)
   })
 
-  // List all enhancement jobs
+  // List the collection's enhancement jobs
   fastify.get('/enhance/jobs', async (request: FastifyRequest, reply: FastifyReply) => {
-    const jobs = getAllEnhancementJobs()
+    const collection = await requestCollection(request)
+    if (!collection) return sendUnknownCollection(request, reply)
+    const jobs = getAllEnhancementJobs().filter(job => inCollection(job, collection))
     return reply.send(jobs)
   })
 
   console.log('[Routes] ✅ Extraction routes registered')
 }
 
+interface MasterQueryString {
+  q?: string
+  yearFrom?: string
+  yearTo?: string
+  author?: string
+  hasAffiliation?: string
+  confidence?: string
+  jobId?: string
+  tag?: string
+  readingStatus?: string
+  minRating?: string
+  hasNotes?: string
+  sort?: string
+  order?: string
+  limit?: string
+  cursor?: string
+}
+
+const MAX_PAGE_SIZE = 500
+
+/**
+ * Validate the /master query string
+ */
+function parseMasterQuery(query: MasterQueryString): MasterQuery | { error: string } {
+  const parsed: MasterQuery = { q: query.q, author: query.author && query.author.trim(), jobId: query.jobId, cursor: query.cursor }
+
+  for (const bound of ['yearFrom', 'yearTo'] as const) {
+    if (query[bound] !== undefined) {
+      if (!/^\d{4}$/.test(query[bound]!)) return { error: `${bound} must be a 4-digit year` }
+      parsed[bound] = parseInt(query[bound]!, 10)
+    }
+  }
+  if (query.hasAffiliation !== undefined) {
+    if (!/^(true|false|1|0)$/.test(query.hasAffiliation)) return { error: 'hasAffiliation must be true or false' }
+    parsed.hasAffiliation = query.hasAffiliation === 'true' || query.hasAffiliation === '1'
+  }
+  if (query.confidence) {
+    const levels = query.confidence.split(',').map(level => level.trim().toLowerCase())
+    if (levels.some(level => ['high', 'medium', 'low'].indexOf(level) === -1)) {
+      return { error: 'confidence must be a comma-separated list of high, medium, low' }
+    }
+    parsed.confidence = levels as MasterQuery['confidence']
+  }
+  if (query.tag) {
+    parsed.tags = query.tag.split(',').map(normalizeTag).filter(tag => tag.length > 0)
+  }
+  if (query.readingStatus) {
+    const statuses = query.readingStatus.split(',').map(status => status.trim().toLowerCase())
+    if (statuses.some(status => status !== 'none' && READING_STATUSES.indexOf(status as ReadingStatus) === -1)) {
+      return { error: `readingStatus must be a comma-separated list of ${READING_STATUSES.join(', ')}, none` }
+    }
+    parsed.readingStatus = statuses as MasterQuery['readingStatus']
+  }
+  if (query.minRating !== undefined) {
+    if (!/^[1-5]$/.test(query.minRating)) return { error: 'minRating must be a whole number from 1 to 5' }
+    parsed.minRating = parseInt(query.minRating, 10)
+  }
+  if (query.hasNotes !== undefined) {
+    if (!/^(true|false|1|0)$/.test(query.hasNotes)) return { error: 'hasNotes must be true or false' }
+    parsed.hasNotes = query.hasNotes === 'true' || query.hasNotes === '1'
+  }
+  if (query.sort) {
+    if (MASTER_SORT_FIELDS.indexOf(query.sort as MasterSortField) === -1) {
+      return { error: `sort must be one of ${MASTER_SORT_FIELDS.join(', ')}` }
+    }
+    parsed.sort = query.sort as MasterSortField
+  }
+  if (query.order) {
+    if (query.order !== 'asc' && query.order !== 'desc') return { error: 'order must be asc or desc' }
+    parsed.order = query.order
+  }
+  if (query.limit !== undefined) {
+    const limit = parseInt(query.limit, 10)
+    if (!/^\d+$/.test(query.limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` }
+    }
+    parsed.limit = limit
+  }
+
+  return parsed
+}
+
+interface CitationQuery {
+  style?: string
+  format?: string
+}
+
+/**
+ * Validate ?style= / ?format= and send the formatted list (RTF as a download for Word)
+ */
+function sendCitations(reply: FastifyReply, references: ExtractedReference[], query: CitationQuery) {
+  const style = (query.style || 'apa').toLowerCase() as CitationStyle
+  const output = (query.format || 'text').toLowerCase() as CitationOutput
+
+  if (!CITATION_STYLES.includes(style)) {
+    return reply.code(400).send({ error: `Unknown style "${query.style}"`, styles: CITATION_STYLES })
+  }
+  if (!CITATION_OUTPUTS.includes(output)) {
+    return reply.code(400).send({ error: `Unknown format "${query.format}"`, formats: CITATION_OUTPUTS })
+  }
+
+  reply.header('Content-Type', CITATION_CONTENT_TYPES[output])
+  if (output === 'rtf') {
+    reply.header('Content-Disposition', `attachment; filename="references-${style}.rtf"`)
+  }
+  return reply.send(formatBibliography(references, style, output))
+}
+
+/**
+ * Send a MasterTableError with its status, anything else as a 500
+ */
+function sendMasterTableError(reply: FastifyReply, error: unknown, message: string) {
+  if (error instanceof MasterTableError) {
+    return reply.code(error.status).send({ error: error.message })
+  }
+  console.error(`[API] ${message}:`, error)
+  return reply.code(500).send({
+    error: message,
+    details: error instanceof Error ? error.message : 'Unknown error',
+  })
+}
+
+/**
+ * Who makes a change through the API: a curator (named by the optional X-User header)
+ */
+function changeActor(request: FastifyRequest, kind: ChangeActor['kind'] = 'manual'): ChangeActor {
+  const user = request.headers['x-user']
+  return typeof user === 'string' && user.trim() ? { kind, user: user.trim() } : { kind }
+}
+
+/**
+ * ISO form of a date or timestamp, null if it cannot be parsed
+ */
+function parseTimestamp(value: string): string | null {
+  const time = value ? new Date(value).getTime() : NaN
+  return isNaN(time) ? null : new Date(time).toISOString()
+}
+
+/**
+ * The collection a request works on (?collection=, or the default one); null if it does not exist
+ */
+async function requestCollection(request: FastifyRequest): Promise<string | null> {
+  const id = (request.query as { collection?: string }).collection || DEFAULT_COLLECTION
+  return (await getCollection(id)) ? id : null
+}
+
+function sendUnknownCollection(request: FastifyRequest, reply: FastifyReply) {
+  const id = (request.query as { collection?: string }).collection
+  return reply.code(404).send({ error: `Collection "${id}" not found` })
+}
+
+/**
+ * Whether a job or batch belongs to the collection (older ones without one to the default)
+ */
+function inCollection(item: { collection?: string }, collection: string): boolean {
+  return (item.collection || DEFAULT_COLLECTION) === collection
+}
+
+/**
+ * File name part for master-table exports ("master" for the default collection)
+ */
+function exportName(collection: string): string {
+  return collection === DEFAULT_COLLECTION ? 'master' : collection
+}
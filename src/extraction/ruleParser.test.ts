@@ -0,0 +1,65 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { splitReferenceEntries, splitAuthors, parseReference, extractReferencesWithRules, compareReferences } from './ruleParser'
+
+const APA_BIBLIOGRAPHY = `Wiener, N. (1948). Cybernetics: Or control and communication in the animal and the machine. MIT Press.
+Hill, D. R. (1979). The book of ingenious devices. Dordrecht: Reidel. ISBN 90-277-0833-9.
+Mitchell, T. M. (1997). Machine learning. McGraw Hill.`
+
+test('splits author-date entries at "Surname, X" after a finished line', () => {
+  const entries = splitReferenceEntries(APA_BIBLIOGRAPHY)
+  assert.equal(entries.length, 3)
+  assert.match(entries[1], /^Hill, D\. R\. \(1979\)/)
+})
+
+test('joins wrapped lines of numbered entries', () => {
+  const entries = splitReferenceEntries(`[1] N. Wiener, "Cybernetics,"
+MIT Press, 1948.
+[2] T. M. Mitchell, "Machine Learning," McGraw Hill, 1997.
+[3] D. R. Hill, "The book of ingenious devices," Reidel, 1979.`)
+  assert.equal(entries.length, 3)
+  assert.equal(entries[0], '[1] N. Wiener, "Cybernetics," MIT Press, 1948.')
+})
+
+test('splits author lists on commas, "and" and "&"', () => {
+  assert.deepEqual(splitAuthors('N. Wiener, A. Rosenblueth and J. Bigelow'), ['N. Wiener', 'A. Rosenblueth', 'J. Bigelow'])
+})
+
+test('parses an APA journal article', () => {
+  const ref = parseReference('Rosenblueth, A., Wiener, N., & Bigelow, J. (1943). Behavior, purpose and teleology. Philosophy of Science, 10(1), 18-24.', 0)!
+  assert.equal(ref.firstAuthor, 'Rosenblueth, A.')
+  assert.equal(ref.otherAuthors, 'Wiener, N.; Bigelow, J.')
+  assert.equal(ref.title, 'Behavior, purpose and teleology')
+  assert.equal(ref.year, '1943')
+  assert.equal(ref.publisherJournal, 'Philosophy of Science')
+  assert.equal(ref.volumeIssue, '10(1)')
+  assert.equal(ref.pages, '18-24')
+  assert.equal(ref.extractionMethod, 'rule')
+})
+
+test('parses IEEE, MLA and alpha-key entries', () => {
+  const ieee = parseReference('[1] N. Wiener, "Cybernetics," MIT Press, 1948.', 0)!
+  assert.equal(ieee.firstAuthor, 'N. Wiener')
+  assert.equal(ieee.title, 'Cybernetics')
+  assert.equal(ieee.year, '1948')
+
+  const mla = parseReference('Wiener, Norbert. Cybernetics. MIT Press, 1948.', 0)!
+  assert.equal(mla.firstAuthor, 'Wiener, Norbert')
+  assert.equal(mla.publisherJournal, 'MIT Press')
+
+  const alpha = parseReference("[Hill '79] D. R. Hill (1979). The book of ingenious devices. Reidel.", 0)!
+  assert.equal(alpha.citationKey, "Hill '79")
+  assert.equal(alpha.firstAuthor, 'D. R. Hill')
+})
+
+test('extracts every entry of a bibliography and reads ISBNs', () => {
+  const references = extractReferencesWithRules(APA_BIBLIOGRAPHY)
+  assert.equal(references.length, 3)
+  assert.equal(references[1].isbn, '90-277-0833-9')
+})
+
+test('reports the fields an LLM reading disagrees on', () => {
+  const ref = parseReference('Mitchell, T. M. (1997). Machine learning. McGraw Hill.', 0)!
+  assert.deepEqual(compareReferences(ref, { ...ref }), [])
+  assert.deepEqual(compareReferences({ ...ref, year: '1979' }, ref), ['year'])
+})
@@ -0,0 +1,388 @@
+/**
+ * Deterministic rule-based reference parser
+ *
+ * Used as:
+ * 1. A fallback when the LLM is unavailable or returns nothing
+ * 2. A field-by-field cross-check of LLM output (disagreements lower the confidence score)
+ *
+ * Supported styles (heuristically):
+ * - APA / Harvard:    Wiener, N. (1948). Cybernetics. MIT Press.
+ * - MLA:              Wiener, Norbert. Cybernetics. MIT Press, 1948.
+ * - Chicago:          Wiener, Norbert. 1948. Cybernetics. Cambridge, MA: MIT Press.
+ * - IEEE numbered:    [1] N. Wiener, "Cybernetics," MIT Press, 1948.
+ * - Alpha keys:       [Hill '79] D. R. Hill (1979). The book of ingenious devices...
+ */
+
+import { ExtractedReference } from '../types-simple'
+import { info } from '../utils/logging'
+import { titleSimilarity, extractSurname, digitsOnly, normalizeForComparison } from '../utils/similarity'
+
+// Entry starts
+const BRACKET_KEY_START = /^\s*\[([^\]]{1,25})\]\s*/
+const NUMBERED_START = /^\s*(\d{1,3})[.)]\s+(?=\S)/
+const INVERTED_AUTHOR_START = /^\s*[A-Z][A-Za-z'’\-]+(?:\s[A-Z][A-Za-z'’\-]+)?,\s+(?:[A-Z]\.|[A-Z][a-z]+)/
+
+// Fields
+const YEAR = /\b(1[5-9]\d{2}|20\d{2})[a-z]?\b/
+const PAREN_YEAR = /\((1[5-9]\d{2}|20\d{2}[a-z]?|n\.d\.)\)/
+const QUOTED_TITLE = /[“"]([^”"]{3,})[”"]/
+const PAGES = /\bpp?\.\s*(\d+(?:\s*[-–—]\s*\d+)?)/i
+const TRAILING_PAGE_RANGE = /[,:]\s*(\d+\s*[-–—]\s*\d+)\.?\s*$/
+const VOLUME_ISSUE = /\b(\d+)\s*\((\d+(?:[-–]\d+)?)\)/
+const VOL_NO = /\bvol\.?\s*(\d+)(?:\s*,?\s*no\.?\s*(\d+))?/i
+const ISBN = /\bISBN(?:-1[03])?:?\s*([\dXx][\dXx\s-]{8,16}[\dXx])/i
+const MLA_AUTHORS = /^(?:([A-Z][A-Za-z'’\-]+,\s+[A-Z][a-z]+(?:\s+[A-Z]\.)*(?:,?\s+(?:and|&)\s+[^.]+?)?)\.\s+|([A-Z][A-Za-z'’\-]+,\s+[A-Z][a-z]+(?:\s+[A-Z]\.)+)\s+)/
+const INITIALS_AUTHORS = /^(?:(?:[A-Z]\.\s?-?)+\s?[A-Z][A-Za-z'’\-]+(?:,\s*(?:and\s+)?|\s+and\s+|\s*&\s*)?)+/
+const PUBLISHER_AFTER_PLACE = /(?:^|\.\s+)[A-Z][A-Za-z .,]+?:\s*([^,.]+(?:Press|Publishers?|Verlag|Books|Inc\.?|Ltd\.?|[A-Z][A-Za-z&' -]+))/
+
+/**
+ * Split bibliography text into individual reference entries
+ */
+export function splitReferenceEntries(text: string): string[] {
+  const lines = text.split('\n').map(l => l.trim())
+  const nonEmpty = lines.filter(l => l.length > 0)
+  if (nonEmpty.length === 0) return []
+
+  // Choose the entry-start rule used by most lines
+  const bracketStarts = nonEmpty.filter(l => BRACKET_KEY_START.test(l)).length
+  const numberedStarts = nonEmpty.filter(l => NUMBERED_START.test(l)).length
+  const minStarts = Math.max(2, Math.floor(nonEmpty.length * 0.1))
+
+  let isEntryStart: (line: string, previous: string) => boolean
+  if (bracketStarts >= minStarts) {
+    isEntryStart = line => BRACKET_KEY_START.test(line)
+  } else if (numberedStarts >= minStarts) {
+    isEntryStart = line => NUMBERED_START.test(line)
+  } else {
+    // Author-date styles: a new entry starts with "Surname, X" after a line ending a sentence
+    isEntryStart = (line, previous) =>
+      INVERTED_AUTHOR_START.test(line) && (previous === '' || /[.)\]]$/.test(previous))
+  }
+
+  const entries: string[] = []
+  let current: string[] = []
+  let previous = ''
+
+  for (const line of lines) {
+    if (line === '') {
+      previous = ''
+      continue
+    }
+    if (isEntryStart(line, previous) && current.length > 0) {
+      entries.push(joinEntryLines(current))
+      current = []
+    }
+    current.push(line)
+    previous = line
+  }
+  if (current.length > 0) {
+    entries.push(joinEntryLines(current))
+  }
+
+  return entries.filter(e => e.length >= 15)
+}
+
+/**
+ * Join wrapped lines of one entry (dehyphenating line-end hyphens)
+ */
+function joinEntryLines(lines: string[]): string {
+  return lines
+    .join('\n')
+    .replace(/(\w)-\n(\w)/g, '$1$2')
+    .replace(/\s*\n\s*/g, ' ')
+    .trim()
+}
+
+/**
+ * Split an author segment into individual names
+ */
+export function splitAuthors(segment: string): string[] {
+  const cleaned = segment
+    .replace(/\bet al\.?/i, '')
+    .replace(/\(eds?\.?\)|\beds?\.$/i, '')
+    .replace(/[,;\s]+$/, '')
+    .replace(/([a-z]{2,})\.$/, '$1')
+    .trim()
+  if (!cleaned) return []
+
+  if (cleaned.includes(';')) {
+    return cleaned.split(';').map(a => a.replace(/^\s*(?:and|&)\s+/i, '').trim()).filter(Boolean)
+  }
+
+  // Inverted names: "Smith, J. A., Jones, K., & Lee, M."
+  const inverted = cleaned.match(/[A-Z][A-Za-z'’\-]+(?:\s[A-Z][A-Za-z'’\-]+)*,\s(?:[A-Z]\.\s?-?)+/g)
+  if (inverted && inverted.length >= 1 && inverted.join('').length >= cleaned.replace(/,?\s*(?:and|&)\s*/g, '').length * 0.6) {
+    return inverted.map(a => a.trim())
+  }
+
+  // MLA first author inverted, then natural order: "Wiener, Norbert, and John von Neumann"
+  const parts = cleaned.split(/\s*,\s*(?:and\s+|&\s*)?|\s+(?:and|&)\s+/).filter(Boolean)
+  if (parts.length >= 2 && !/\s/.test(parts[0]) && /^[A-Z]/.test(parts[1]) && !/\./.test(parts[0])) {
+    return [`${parts[0]}, ${parts[1]}`, ...parts.slice(2)]
+  }
+  return parts
+}
+
+/**
+ * Parse a single reference entry
+ */
+export function parseReference(entry: string, index: number): ExtractedReference | null {
+  let rest = entry.trim()
+  let citationKey = ''
+
+  const bracket = rest.match(BRACKET_KEY_START)
+  const numbered = rest.match(NUMBERED_START)
+  if (bracket) {
+    citationKey = bracket[1].trim()
+    rest = rest.slice(bracket[0].length)
+  } else if (numbered) {
+    citationKey = numbered[1]
+    rest = rest.slice(numbered[0].length)
+  }
+
+  let authorSegment = ''
+  let title = ''
+  let afterTitle = ''
+  let year = ''
+
+  const parenYear = rest.match(PAREN_YEAR)
+  const quoted = rest.match(QUOTED_TITLE)
+
+  if (parenYear && parenYear.index !== undefined && parenYear.index < 200) {
+    // APA / Harvard / alpha: Authors (Year). Title. Source.
+    authorSegment = rest.slice(0, parenYear.index)
+    year = parenYear[1] === 'n.d.' ? '' : parenYear[1]
+    const afterYear = rest.slice(parenYear.index + parenYear[0].length).replace(/^[.,:\s]+/, '')
+    const quotedAfter = afterYear.match(QUOTED_TITLE)
+    if (quotedAfter && quotedAfter.index === 0) {
+      title = quotedAfter[1]
+      afterTitle = afterYear.slice(quotedAfter[0].length)
+    } else {
+      const split = splitSentence(afterYear)
+      title = split[0]
+      afterTitle = split[1]
+    }
+  } else if (quoted && quoted.index !== undefined) {
+    // IEEE / MLA / Chicago articles: Authors, "Title," Source
+    authorSegment = rest.slice(0, quoted.index)
+    // Chicago author-date: Authors. Year. "Title."
+    const yearAfterAuthors = authorSegment.match(/,?\s+(1[5-9]\d{2}|20\d{2})[a-z]?[.,]?\s*$/)
+    if (yearAfterAuthors && yearAfterAuthors.index !== undefined) {
+      year = yearAfterAuthors[1]
+      authorSegment = authorSegment.slice(0, yearAfterAuthors.index)
+    }
+    title = quoted[1]
+    afterTitle = rest.slice(quoted.index + quoted[0].length)
+  } else {
+    // MLA / Chicago books: Authors. [Year.] Title. Source.
+    // IEEE books:          N. Wiener, Title. Place: Publisher, Year.
+    const invertedAuthors = rest.match(MLA_AUTHORS)
+    const initialsAuthors = rest.match(INITIALS_AUTHORS)
+    let remaining: string
+    if (invertedAuthors) {
+      authorSegment = invertedAuthors[1] || invertedAuthors[2]
+      remaining = rest.slice(invertedAuthors[0].length)
+    } else if (initialsAuthors) {
+      authorSegment = initialsAuthors[0]
+      remaining = rest.slice(initialsAuthors[0].length)
+    } else {
+      const first = splitSentence(rest)
+      authorSegment = first[0]
+      remaining = first[1]
+    }
+    const leadingYear = remaining.match(/^\s*(1[5-9]\d{2}|20\d{2})[a-z]?\.\s*/)
+    if (leadingYear) {
+      year = leadingYear[1]
+      remaining = remaining.slice(leadingYear[0].length)
+    }
+    const second = splitSentence(remaining)
+    title = second[0]
+    afterTitle = second[1]
+  }
+
+  if (!year) {
+    // Last year-like token in the rest of the entry (source part first)
+    const years = (afterTitle.match(new RegExp(YEAR.source, 'g')) || rest.match(new RegExp(YEAR.source, 'g')) || [])
+    year = years.length > 0 ? years[years.length - 1].replace(/[a-z]$/, '') : ''
+  }
+
+  const authors = splitAuthors(authorSegment)
+  title = cleanTitle(title)
+
+  if (!title && authors.length === 0) {
+    return null
+  }
+
+  const isbnMatch = entry.match(ISBN)
+  const pagesMatch = afterTitle.match(PAGES) || afterTitle.match(TRAILING_PAGE_RANGE)
+  const volumeIssueMatch = afterTitle.match(VOLUME_ISSUE)
+  const volNoMatch = afterTitle.match(VOL_NO)
+
+  let volumeIssue = ''
+  if (volumeIssueMatch) {
+    volumeIssue = `${volumeIssueMatch[1]}(${volumeIssueMatch[2]})`
+  } else if (volNoMatch) {
+    volumeIssue = volNoMatch[2] ? `Vol. ${volNoMatch[1]}, No. ${volNoMatch[2]}` : `Vol. ${volNoMatch[1]}`
+  }
+
+  const pages = pagesMatch ? pagesMatch[1].replace(/\s*[-–—]\s*/, '-') : ''
+  const firstAuthor = authors[0] || ''
+
+  if (!citationKey) {
+    const surname = firstAuthor ? firstAuthor.split(',')[0].split(' ').pop() || '' : ''
+    citationKey = surname && year ? `${surname} ${year}` : `Ref-${index + 1}`
+  }
+
+  return {
+    citationKey,
+    firstAuthor,
+    otherAuthors: authors.slice(1).join('; '),
+    title,
+    year,
+    publisherJournal: extractSource(afterTitle),
+    volumeIssue,
+    pages,
+    extraNotes: '',
+    isbn: isbnMatch ? isbnMatch[1].replace(/\s+/g, '').toUpperCase() : '',
+    referenceRaw: entry,
+    confidence: firstAuthor && title && year ? 'medium' : 'low',
+    extractionMethod: 'rule',
+    sources: [{ kind: 'pdf', model: 'rule-parser' }],
+  }
+}
+
+/**
+ * Split at the first sentence end (". "), ignoring initials like "J. " and abbreviations
+ */
+function splitSentence(text: string): [string, string] {
+  const re = /[.?!]\s+/g
+  let match: RegExpExecArray | null
+  while ((match = re.exec(text)) !== null) {
+    const before = text.slice(0, match.index)
+    const lastWord = before.split(/\s/).pop() || ''
+    // Skip initials ("J."), "eds.", "vol.", "pp.", "et al."
+    if (/^[A-Z]$/.test(lastWord) || /^(?:eds?|vol|no|pp?|al|ed|trans|Jr|Sr|St|Dr)$/i.test(lastWord)) {
+      continue
+    }
+    return [before.trim(), text.slice(match.index + match[0].length).trim()]
+  }
+  return [text.trim(), '']
+}
+
+function cleanTitle(title: string): string {
+  return title
+    .replace(/^[“"'‘]+|[”"'’]+$/g, '')
+    .replace(/[,.;:\s]+$/, '')
+    .replace(/^In:?\s+/i, '')
+    .trim()
+}
+
+/**
+ * Journal or publisher from the part of the entry after the title
+ */
+function extractSource(afterTitle: string): string {
+  const text = afterTitle.replace(/^[\s,.;:]+/, '').replace(/^In:?\s+/i, '')
+  if (!text) return ''
+
+  const publisher = text.match(PUBLISHER_AFTER_PLACE)
+  if (publisher) {
+    return publisher[1].trim()
+  }
+
+  // Journal: text up to the volume/pages/year part ("Journal Name, 13(2), 197-219.")
+  const source = text.split(/,\s*(?=(?:vol\.|no\.|pp?\.|\d))|\.\s+(?=(?:ISBN|doi|https?:|pp?\.|vol\.|\d))|\s\d+\s*\(/i)[0]
+  return source.replace(/[,.;:\s]+$/, '').trim()
+}
+
+/**
+ * Extract all references from bibliography text using rules only
+ */
+export function extractReferencesWithRules(text: string): ExtractedReference[] {
+  const entries = splitReferenceEntries(text)
+  const references = entries
+    .map((entry, index) => parseReference(entry, index))
+    .filter((ref): ref is ExtractedReference => ref !== null && !!(ref.title || ref.firstAuthor))
+
+  info(`Rule-based parser: ${references.length} references from ${entries.length} entries`)
+  return references
+}
+
+/**
+ * Find the rule-parsed reference that corresponds to an LLM reference
+ */
+function findCounterpart(ref: ExtractedReference, candidates: ExtractedReference[]): ExtractedReference | null {
+  const key = normalizeForComparison(ref.citationKey)
+  if (key && !/^ref \d+$/.test(key)) {
+    const byKey = candidates.find(c => normalizeForComparison(c.citationKey) === key)
+    if (byKey) return byKey
+  }
+
+  let best: ExtractedReference | null = null
+  let bestScore = 0
+  for (const candidate of candidates) {
+    const score = titleSimilarity(ref.title, candidate.title)
+    if (score > bestScore) {
+      best = candidate
+      bestScore = score
+    }
+  }
+  return bestScore >= 0.6 ? best : null
+}
+
+/**
+ * Compare an LLM reference with its rule-parsed counterpart, field by field
+ * Returns the names of fields that disagree (only fields both parsers filled are compared)
+ */
+export function compareReferences(llm: ExtractedReference, rule: ExtractedReference): string[] {
+  const disagreements: string[] = []
+
+  if (llm.year && rule.year && digitsOnly(llm.year).slice(0, 4) !== digitsOnly(rule.year).slice(0, 4)) {
+    disagreements.push('year')
+  }
+  if (llm.title && rule.title && titleSimilarity(llm.title, rule.title) < 0.5) {
+    disagreements.push('title')
+  }
+  if (llm.firstAuthor && rule.firstAuthor) {
+    const a = extractSurname(llm.firstAuthor)
+    const b = extractSurname(rule.firstAuthor)
+    if (a && b && !normalizeForComparison(llm.firstAuthor).includes(b) && !normalizeForComparison(rule.firstAuthor).includes(a)) {
+      disagreements.push('firstAuthor')
+    }
+  }
+  if (llm.pages && rule.pages && digitsOnly(llm.pages) !== digitsOnly(rule.pages)) {
+    disagreements.push('pages')
+  }
+  if (llm.isbn && rule.isbn && digitsOnly(llm.isbn) !== digitsOnly(rule.isbn)) {
+    disagreements.push('isbn')
+  }
+
+  return disagreements
+}
+
+/**
+ * Cross-check LLM references against rule-parsed ones
+ * Records the disagreeing fields on each matched reference (`ruleDisagreements`);
+ * the confidence scorer turns them into a lower score.
+ */
+export function crossCheckReferences(
+  llmReferences: ExtractedReference[],
+  ruleReferences: ExtractedReference[]
+): ExtractedReference[] {
+  let checked = 0
+  let disagreeing = 0
+
+  const result = llmReferences.map(ref => {
+    const counterpart = findCounterpart(ref, ruleReferences)
+    if (!counterpart) return ref
+    checked++
+
+    const disagreements = compareReferences(ref, counterpart)
+    if (disagreements.length > 0) {
+      disagreeing++
+    }
+    return { ...ref, ruleDisagreements: disagreements }
+  })
+
+  info(`Cross-check: ${checked}/${llmReferences.length} matched rule-parsed entries, ${disagreeing} with disagreements`)
+  return result
+}
@@ -7,11 +7,14 @@ import fastifyMultipart from '@fastify/multipart'
 import cors from '@fastify/cors'
 import { registerExtractionRoutes } from './routes'
 import { initStorage } from './storage'
+import { initExtractionQueue } from './orchestrator'
 import config from '../config'
 
 export async function startSimpleServer() {
   // Initialize storage
   await initStorage()
+  // Resume jobs left queued or interrupted by a previous run
+  await initExtractionQueue()
 
   // Create Fastify instance
   const fastify = Fastify({
@@ -27,6 +30,7 @@ export async function startSimpleServer() {
 
   await fastify.register(fastifyMultipart, {
     limits: {
+      // Raised for ZIP archives on /extract only
       fileSize: config.MAX_FILE_SIZE,
     },
   })
@@ -48,15 +52,29 @@ export async function startSimpleServer() {
     console.log(`╚════════════════════════════════════════════════════════════════╝`)
     console.log(`\n✅ Server listening on http://${config.HOST}:${config.PORT}`)
     console.log(`\n📡 Endpoints:`)
-    console.log(`   POST   /extract              - Upload PDF for extraction`)
+    console.log(`   POST   /extract              - Upload PDF(s) or ZIP archives for extraction`)
+    console.log(`   POST   /extract/identifiers  - Resolve DOIs / arXiv IDs / PMIDs / ISBNs`)
     console.log(`   GET    /status/:jobId        - Check job status`)
     console.log(`   GET    /results/:jobId       - Get extraction results`)
     console.log(`   GET    /download/:jobId.csv  - Download CSV`)
     console.log(`   GET    /download/:jobId.xlsx - Download Excel`)
+    console.log(`   GET    /download/:jobId.bib  - Download BibTeX (.biblatex.bib, .ris, .json too)`)
     console.log(`   GET    /jobs                 - List all jobs`)
-    console.log(`   DELETE /jobs/:jobId          - Delete a job`)
+    console.log(`   DELETE /jobs/:jobId          - Cancel a queued/running job, or delete it`)
+    console.log(`   POST   /import               - Import BibTeX / RIS / CSL-JSON / EndNote XML (?dryRun=true)`)
+    console.log(`   GET    /master/:id           - Get one reference (also POST /master, PATCH / DELETE /master/:id)`)
+    console.log(`   GET    /collections          - Collections (add ?collection=<id> to /extract, /master, /jobs, /enhance)`)
+    console.log(`   POST   /master/copy          - Copy references to another collection (also /master/move)`)
+    console.log(`   GET    /master/:id/history   - Change log of a reference (POST /master/history/:changeId/revert)`)
+    console.log(`   PATCH  /master/:id/annotations - Tags, notes, reading status and rating (GET /master/tags)`)
+    console.log(`   GET    /master/authors       - Authors index (POST /master/authors/merge, /master/authors/:authorId/split)`)
+    console.log(`   POST   /master/restore       - Restore the master table to a point in time`)
+    console.log(`   GET    /master/duplicates    - Candidate duplicate clusters with scores`)
+    console.log(`   POST   /master/duplicates/merge - Merge a duplicate cluster`)
+    console.log(`   GET    /master/citations     - Formatted reference list (?style=apa&format=html)`)
     console.log(`   GET    /health               - Health check`)
-    console.log(`\n🧠 Extraction Method: LLM-Only (GPT-4o-mini)`)
+    console.log(`\n💾 Database: ${config.DATABASE_FILE}`)
+    console.log(`🧠 Extraction Method: LLM-Only (provider: ${config.LLM_PROVIDER})`)
     console.log(`📊 Fields: Citation Key, Authors, Title, Year, Publisher/Journal,`)
     console.log(`           Volume/Issue, Pages, Extra Notes, ISBN`)
     console.log(`\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`)
@@ -1,32 +1,29 @@
 /**
  * Local storage for extraction results
- * Stores results in JSON files for persistence
+ * Stores jobs and batches in the SQLite database (see database.ts)
  */
 
-import fs from 'fs/promises'
-import path from 'path'
-import { ExtractionJob } from '../types-simple'
+import { ExtractionJob, ExtractionBatch } from '../types-simple'
+import { getDatabase, writeJobRow, writeBatchRow } from './database'
+import config from '../config'
 
-const STORAGE_DIR = path.join(process.cwd(), 'extraction-results')
-
-// Ensure storage directory exists
+// Open the database (migrating it and importing old JSON results on first run)
 export async function initStorage() {
   try {
-    await fs.mkdir(STORAGE_DIR, { recursive: true })
-    console.log(`[Storage] Initialized: ${STORAGE_DIR}`)
+    getDatabase()
+    console.log(`[Storage] Initialized: ${config.DATABASE_FILE}`)
   } catch (error) {
     console.error('[Storage] Failed to initialize:', error)
+    throw error
   }
 }
 
 /**
- * Save extraction job to disk
+ * Save extraction job
  */
 export async function saveJob(job: ExtractionJob): Promise<void> {
-  const filePath = path.join(STORAGE_DIR, `${job.jobId}.json`)
-  
   try {
-    await fs.writeFile(filePath, JSON.stringify(job, null, 2), 'utf-8')
+    writeJobRow(getDatabase(), job)
     console.log(`[Storage] Saved job ${job.jobId}`)
   } catch (error) {
     console.error(`[Storage] Failed to save job ${job.jobId}:`, error)
@@ -35,30 +32,22 @@ export async function saveJob(job: ExtractionJob): Promise<void> {
 }
 
 /**
- * Load extraction job from disk
+ * Load extraction job (null if there is no job with this ID)
  */
 export async function loadJob(jobId: string): Promise<ExtractionJob | null> {
-  const filePath = path.join(STORAGE_DIR, `${jobId}.json`)
-  
-  try {
-    const content = await fs.readFile(filePath, 'utf-8')
-    return JSON.parse(content) as ExtractionJob
-  } catch (error) {
-    console.error(`[Storage] Failed to load job ${jobId}:`, error)
-    return null
-  }
+  const row = getDatabase().prepare('SELECT data FROM jobs WHERE job_id = ?').get(jobId) as { data: string } | undefined
+  return row ? JSON.parse(row.data) as ExtractionJob : null
 }
 
 /**
- * List all extraction jobs
+ * List the extraction job IDs of a collection, most recent first
  */
-export async function listJobs(): Promise<string[]> {
+export async function listJobs(collection: string): Promise<string[]> {
   try {
-    const files = await fs.readdir(STORAGE_DIR)
-    return files
-      .filter(f => f.endsWith('.json'))
-      .map(f => f.replace('.json', ''))
-      .sort((a, b) => b.localeCompare(a)) // Most recent first
+    const rows = getDatabase()
+      .prepare('SELECT job_id FROM jobs WHERE collection_id = ? ORDER BY created_at DESC')
+      .all(collection) as { job_id: string }[]
+    return rows.map(row => row.job_id)
   } catch (error) {
     console.error('[Storage] Failed to list jobs:', error)
     return []
@@ -69,10 +58,8 @@ export async function listJobs(): Promise<string[]> {
  * Delete a job
  */
 export async function deleteJob(jobId: string): Promise<void> {
-  const filePath = path.join(STORAGE_DIR, `${jobId}.json`)
-  
   try {
-    await fs.unlink(filePath)
+    getDatabase().prepare('DELETE FROM jobs WHERE job_id = ?').run(jobId)
     console.log(`[Storage] Deleted job ${jobId}`)
   } catch (error) {
     console.error(`[Storage] Failed to delete job ${jobId}:`, error)
@@ -80,6 +67,22 @@ export async function deleteJob(jobId: string): Promise<void> {
   }
 }
 
+/**
+ * Save a batch (parent of several extraction jobs)
+ */
+export async function saveBatch(batch: ExtractionBatch): Promise<void> {
+  writeBatchRow(getDatabase(), batch)
+  console.log(`[Storage] Saved batch ${batch.batchId} (${batch.files.length} files)`)
+}
+
+/**
+ * Load a batch (null if there is no batch with this ID)
+ */
+export async function loadBatch(batchId: string): Promise<ExtractionBatch | null> {
+  const row = getDatabase().prepare('SELECT data FROM batches WHERE batch_id = ?').get(batchId) as { data: string } | undefined
+  return row ? JSON.parse(row.data) as ExtractionBatch : null
+}
+
 /**
  * Get job statistics
  */
@@ -88,15 +91,23 @@ export async function getJobStats(jobId: string): Promise<{
   highConfidence: number
   mediumConfidence: number
   lowConfidence: number
+  averageConfidenceScore: number | null
 } | null> {
   const job = await loadJob(jobId)
   if (!job) return null
 
+  const scores = job.extractedReferences
+    .map(r => r.confidenceScore)
+    .filter((score): score is number => typeof score === 'number')
+
   const stats = {
     totalReferences: job.extractedReferences.length,
     highConfidence: job.extractedReferences.filter(r => r.confidence === 'high').length,
     mediumConfidence: job.extractedReferences.filter(r => r.confidence === 'medium').length,
     lowConfidence: job.extractedReferences.filter(r => r.confidence === 'low').length,
+    averageConfidenceScore: scores.length > 0
+      ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100) / 100
+      : null,
   }
 
   return stats
@@ -0,0 +1,61 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import JSZip from 'jszip'
+import config from '../config'
+import { expandUpload, createUploadBudget } from './uploads'
+
+config.MAX_FILE_SIZE = 1000
+config.MAX_BATCH_FILES = 3
+config.MAX_EXPANDED_SIZE = 2500
+
+const pdf = (size: number) => Buffer.concat([Buffer.from('%PDF-1.4\n'), Buffer.alloc(size - 9, 0x20)])
+
+async function zipOf(files: Record<string, Buffer>): Promise<Buffer> {
+  const zip = new JSZip()
+  Object.keys(files).forEach(name => zip.file(name, files[name]))
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+}
+
+/**
+ * Overwrite the uncompressed size every local and central header declares
+ */
+function understateSizes(archive: Buffer, size: number): Buffer {
+  const patched = Buffer.from(archive)
+  for (let i = 0; i < patched.length - 4; i++) {
+    const signature = patched.readUInt32LE(i)
+    if (signature === 0x04034b50) patched.writeUInt32LE(size, i + 22)
+    if (signature === 0x02014b50) patched.writeUInt32LE(size, i + 24)
+  }
+  return patched
+}
+
+test('expands the PDFs of an archive and rejects other entries', async () => {
+  const archive = await zipOf({ 'a.pdf': pdf(100), 'notes.txt': Buffer.from('x'), '__MACOSX/._a.pdf': Buffer.from('x') })
+  const expanded = await expandUpload('papers.zip', archive, createUploadBudget())
+  assert.deepEqual(expanded.documents.map(document => document.filename), ['papers.zip/a.pdf'])
+  assert.deepEqual(expanded.rejected, [{ filename: 'papers.zip/notes.txt', error: 'Not a PDF' }])
+})
+
+test('rejects entries declared larger than MAX_FILE_SIZE without inflating them', async () => {
+  const expanded = await expandUpload('big.zip', await zipOf({ 'big.pdf': pdf(5000) }), createUploadBudget())
+  assert.deepEqual(expanded.rejected, [{ filename: 'big.zip/big.pdf', error: 'Larger than 1000 bytes' }])
+})
+
+test('stops inflating an entry that outgrows its declared size', async () => {
+  const archive = understateSizes(await zipOf({ 'bomb.pdf': pdf(50000) }), 100)
+  const expanded = await expandUpload('bomb.zip', archive, createUploadBudget())
+  assert.equal(expanded.documents.length, 0)
+  assert.deepEqual(expanded.rejected, [{ filename: 'bomb.zip/bomb.pdf', error: 'Larger than 1000 bytes' }])
+})
+
+test('shares the file and byte limits across the files of a request', async () => {
+  const budget = createUploadBudget()
+  const first = await expandUpload('one.pdf', pdf(900), budget)
+  const archive = await expandUpload('more.zip', await zipOf({ 'a.pdf': pdf(900), 'b.pdf': pdf(900), 'c.pdf': pdf(100) }), budget)
+  const last = await expandUpload('last.pdf', pdf(100), budget)
+
+  assert.equal(first.documents.length, 1)
+  assert.deepEqual(archive.documents.map(document => document.filename), ['more.zip/a.pdf', 'more.zip/c.pdf'])
+  assert.deepEqual(archive.rejected, [{ filename: 'more.zip/b.pdf', error: 'Over the 2500-byte limit per request' }])
+  assert.deepEqual(last.rejected, [{ filename: 'last.pdf', error: 'Over the 3-file limit per request' }])
+})
@@ -0,0 +1,174 @@
+/**
+ * Upload handling for /extract
+ * Each uploaded file is either a PDF or a ZIP archive of PDFs; archives are expanded
+ * into one document per PDF entry. Anything else is rejected with a reason.
+ * A request accepts at most MAX_BATCH_FILES PDFs and MAX_EXPANDED_SIZE bytes of them; ZIP
+ * entries are checked against the limits before and while they are inflated.
+ */
+
+import path from 'path'
+import JSZip from 'jszip'
+import config from '../config'
+import { BatchFile } from '../types-simple'
+
+export interface UploadedDocument {
+  filename: string
+  pdfBuffer: Buffer
+}
+
+export interface ExpandedUpload {
+  documents: UploadedDocument[]
+  rejected: BatchFile[]
+  oversized: number          // Rejected documents that were over a size or count limit
+}
+
+/**
+ * What is left of a request's limits; shared by all files of one /extract request
+ */
+export interface UploadBudget {
+  files: number
+  bytes: number
+}
+
+// The private central-directory record JSZip keeps per entry
+interface ZipEntryData {
+  _data?: { uncompressedSize?: number }
+}
+
+export function createUploadBudget(): UploadBudget {
+  return { files: config.MAX_BATCH_FILES, bytes: config.MAX_EXPANDED_SIZE }
+}
+
+function isPdf(buffer: Buffer): boolean {
+  return buffer.subarray(0, 5).toString('latin1') === '%PDF-'
+}
+
+function isZip(filename: string, buffer: Buffer): boolean {
+  // Local file header signature "PK\x03\x04"
+  return /\.zip$/i.test(filename) || (buffer[0] === 0x50 && buffer[1] === 0x4b && buffer[2] === 0x03 && buffer[3] === 0x04)
+}
+
+/**
+ * Why a document of `size` bytes no longer fits, or null if it does
+ */
+function overBudget(size: number, budget: UploadBudget): string | null {
+  if (size > config.MAX_FILE_SIZE) return `Larger than ${config.MAX_FILE_SIZE} bytes`
+  if (budget.files <= 0) return `Over the ${config.MAX_BATCH_FILES}-file limit per request`
+  if (size > budget.bytes) return `Over the ${config.MAX_EXPANDED_SIZE}-byte limit per request`
+  return null
+}
+
+function accept(size: number, budget: UploadBudget): void {
+  budget.files--
+  budget.bytes -= size
+}
+
+/**
+ * Inflate a ZIP entry, giving up (null) once it outgrows `limit`
+ * The declared size is checked first, but an archive can understate it.
+ */
+function inflateEntry(entry: JSZip.JSZipObject, limit: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    let done = false
+    const stream = entry.nodeStream('nodebuffer')
+    const onData = (chunk: Buffer) => {
+      size += chunk.length
+      if (size > limit) {
+        // JSZip still reports the size mismatch later; the error handler stays to swallow it
+        done = true
+        stream.removeListener('data', onData)
+        stream.pause()
+        resolve(null)
+        return
+      }
+      chunks.push(chunk)
+    }
+    stream.on('data', onData)
+    stream.on('end', () => { if (!done) resolve(Buffer.concat(chunks)) })
+    stream.on('error', err => { if (!done) reject(err) })
+  })
+}
+
+/**
+ * Turn one uploaded file into PDF documents, within what is left of the request's budget
+ */
+export async function expandUpload(filename: string, buffer: Buffer, budget: UploadBudget): Promise<ExpandedUpload> {
+  if (isPdf(buffer)) {
+    const error = overBudget(buffer.length, budget)
+    if (error) {
+      return { documents: [], rejected: [{ filename, error }], oversized: 1 }
+    }
+    accept(buffer.length, budget)
+    return { documents: [{ filename, pdfBuffer: buffer }], rejected: [], oversized: 0 }
+  }
+
+  if (!isZip(filename, buffer)) {
+    return { documents: [], rejected: [{ filename, error: 'Not a PDF or ZIP archive' }], oversized: 0 }
+  }
+
+  let zip: JSZip
+  try {
+    zip = await JSZip.loadAsync(buffer)
+  } catch (err) {
+    return { documents: [], rejected: [{ filename, error: `Invalid ZIP archive: ${err instanceof Error ? err.message : String(err)}` }], oversized: 0 }
+  }
+
+  const result: ExpandedUpload = { documents: [], rejected: [], oversized: 0 }
+
+  // Skip directories and macOS resource forks (__MACOSX/, ._file.pdf)
+  const entries = Object.keys(zip.files)
+    .map(name => zip.files[name])
+    .filter(entry => !entry.dir && !/(^|\/)(__MACOSX\/|\._)/.test(entry.name))
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  for (const entry of entries) {
+    const entryName = `${filename}/${entry.name}`
+
+    if (!/\.pdf$/i.test(entry.name)) {
+      result.rejected.push({ filename: entryName, error: 'Not a PDF' })
+      continue
+    }
+
+    const declared = (entry as unknown as ZipEntryData)._data?.uncompressedSize || 0
+    const error = overBudget(declared, budget)
+    if (error) {
+      result.rejected.push({ filename: entryName, error })
+      result.oversized++
+      continue
+    }
+
+    const limit = Math.min(config.MAX_FILE_SIZE, budget.bytes)
+    let content: Buffer | null
+    try {
+      content = await inflateEntry(entry, limit)
+    } catch (err) {
+      result.rejected.push({ filename: entryName, error: `Invalid ZIP entry: ${err instanceof Error ? err.message : String(err)}` })
+      continue
+    }
+
+    if (!content) {
+      result.rejected.push({ filename: entryName, error: overBudget(limit + 1, budget)! })
+      result.oversized++
+    } else if (!isPdf(content)) {
+      result.rejected.push({ filename: entryName, error: 'Not a valid PDF file' })
+    } else {
+      accept(content.length, budget)
+      result.documents.push({ filename: entryName, pdfBuffer: content })
+    }
+  }
+
+  if (entries.length === 0) {
+    result.rejected.push({ filename, error: 'ZIP archive contains no files' })
+  }
+
+  return result
+}
+
+/**
+ * Display name for an uploaded file (multipart clients may send paths)
+ */
+export function uploadFilename(name: string | undefined, index: number): string {
+  return name ? path.basename(name) : `upload-${index + 1}.pdf`
+}
@@ -0,0 +1,365 @@
+/**
+ * BibTeX / BibLaTeX parsing and serialization
+ * Handles {…} and "…" values, @string macros, # concatenation, @comment/@preamble,
+ * and the common LaTeX accents and escapes.
+ */
+
+import { ExtractedReference, Author } from '../types-simple'
+import {
+  ImportedFields, ImportIssue, ParsedImport, ExportedFields,
+  finalizeImport, yearOf, preview, referenceToFields, stableCitationKeys,
+} from './common'
+import { parseAuthorName, fullFamilyName } from '../extraction/authors'
+
+interface BibtexEntry {
+  type: string               // Lowercased entry type, e.g. "article"
+  key: string
+  fields: Record<string, string>  // Lowercased field name → raw (LaTeX) value
+  raw: string
+  index: number              // Position among the file's entries (for issue reports)
+}
+
+// Predefined month macros
+const MONTH_MACROS: Record<string, string> = {
+  jan: 'January', feb: 'February', mar: 'March', apr: 'April', may: 'May', jun: 'June',
+  jul: 'July', aug: 'August', sep: 'September', oct: 'October', nov: 'November', dec: 'December',
+}
+
+// LaTeX accent commands → Unicode combining marks
+const ACCENTS: Record<string, string> = {
+  '"': '\u0308', "'": '\u0301', '`': '\u0300', '^': '\u0302', '~': '\u0303', '=': '\u0304', '.': '\u0307',
+  u: '\u0306', v: '\u030C', H: '\u030B', c: '\u0327', k: '\u0328', r: '\u030A', d: '\u0323', b: '\u0331',
+}
+
+const SPECIAL_LETTERS: Record<string, string> = {
+  ss: 'ß', o: 'ø', O: 'Ø', ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', aa: 'å', AA: 'Å', l: 'ł', L: 'Ł', i: 'ı', j: 'ȷ',
+}
+
+/**
+ * Convert a LaTeX-encoded value to plain text
+ */
+export function cleanLatex(value: string): string {
+  let text = value
+    // \"{o}, {\"o}, \"o, \'{\i}
+    .replace(/\\([`'^"~=.])\s*\{?\\?([a-zA-Z])\}?/g, (_, accent, letter) => letter + ACCENTS[accent])
+    // \c{c}, \v s, \d{h}
+    .replace(/\\([uvHckrdb])(?:\s*\{\\?([a-zA-Z])\}|\s+([a-zA-Z]))/g, (_, accent, a, b) => (a || b) + ACCENTS[accent])
+    .replace(/\\(ss|ae|AE|oe|OE|aa|AA|o|O|l|L|i|j)(?![a-zA-Z])\s?/g, (_, letter) => SPECIAL_LETTERS[letter])
+    .replace(/\\([&%$#_{}])/g, '$1')
+    .replace(/---/g, '—')
+    .replace(/--/g, '–')
+    .replace(/~/g, ' ')
+
+  // \textit{x}, \emph{x} → x (repeat for nesting)
+  for (let i = 0; i < 5 && /\\[a-zA-Z]+\s*\{[^{}]*\}/.test(text); i++) {
+    text = text.replace(/\\[a-zA-Z]+\s*\{([^{}]*)\}/g, '$1')
+  }
+
+  return text
+    .replace(/\\[a-zA-Z]+\s*/g, '')
+    .replace(/[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .normalize('NFC')
+}
+
+/**
+ * Index just past the brace group that starts at `start` ("{")
+ */
+function matchBrace(text: string, start: number, open: string, close: string): number {
+  let depth = 0
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]
+    if (char === '\\') {
+      i++
+    } else if (char === open || (open !== '{' && char === '{')) {
+      depth++
+    } else if (char === close || (close !== '}' && char === '}')) {
+      depth--
+      if (depth === 0) return i + 1
+    }
+  }
+  return -1
+}
+
+/**
+ * Parse "name = value # value, name = value" into a field map
+ */
+function parseFields(body: string, macros: Record<string, string>): Record<string, string> {
+  const fields: Record<string, string> = {}
+  let i = 0
+
+  const skipSpace = () => {
+    while (i < body.length && /\s/.test(body[i])) i++
+  }
+
+  while (i < body.length) {
+    skipSpace()
+    const nameMatch = body.slice(i).match(/^([^\s=,{}"#]+)\s*=/)
+    if (!nameMatch) {
+      // Skip to the next field separator
+      const next = body.indexOf(',', i)
+      if (next === -1) break
+      i = next + 1
+      continue
+    }
+    const name = nameMatch[1].toLowerCase()
+    i += nameMatch[0].length
+
+    const parts: string[] = []
+    for (;;) {
+      skipSpace()
+      if (body[i] === '{') {
+        const end = matchBrace(body, i, '{', '}')
+        if (end === -1) throw new Error(`Unbalanced braces in field "${name}"`)
+        parts.push(body.slice(i + 1, end - 1))
+        i = end
+      } else if (body[i] === '"') {
+        let end = i + 1
+        let depth = 0
+        while (end < body.length && !(body[end] === '"' && depth === 0 && body[end - 1] !== '\\')) {
+          if (body[end] === '{') depth++
+          if (body[end] === '}') depth--
+          end++
+        }
+        parts.push(body.slice(i + 1, end))
+        i = end + 1
+      } else {
+        const token = body.slice(i).match(/^[^\s,#}]+/)
+        if (!token) break
+        const macro = token[0].toLowerCase()
+        parts.push(macros[macro] !== undefined ? macros[macro] : token[0])
+        i += token[0].length
+      }
+
+      skipSpace()
+      if (body[i] === '#') {
+        i++
+        continue
+      }
+      break
+    }
+
+    fields[name] = parts.join('')
+    skipSpace()
+    if (body[i] === ',') i++
+  }
+
+  return fields
+}
+
+/**
+ * Split a .bib file into entries (macros are expanded, comments and preambles skipped)
+ */
+export function parseBibtexEntries(text: string): { entries: BibtexEntry[]; issues: ImportIssue[] } {
+  const entries: BibtexEntry[] = []
+  const issues: ImportIssue[] = []
+  const macros: Record<string, string> = { ...MONTH_MACROS }
+  const entryStart = /@\s*([a-zA-Z]+)\s*([{(])/g
+  let index = 0
+  let match: RegExpExecArray | null
+
+  while ((match = entryStart.exec(text)) !== null) {
+    const type = match[1].toLowerCase()
+    const open = match[2]
+    const bodyStart = match.index + match[0].length - 1
+    const end = matchBrace(text, bodyStart, open, open === '{' ? '}' : ')')
+
+    if (end === -1) {
+      issues.push({ index, entry: preview(text.slice(match.index, match.index + 200)), reason: 'Unterminated entry (unbalanced braces)' })
+      break
+    }
+
+    const raw = text.slice(match.index, end)
+    const body = text.slice(bodyStart + 1, end - 1)
+    entryStart.lastIndex = end
+
+    if (type === 'comment' || type === 'preamble') continue
+
+    try {
+      if (type === 'string') {
+        const defined = parseFields(body, macros)
+        Object.keys(defined).forEach(name => { macros[name] = defined[name] })
+        continue
+      }
+
+      const comma = body.indexOf(',')
+      const key = (comma === -1 ? body : body.slice(0, comma)).trim()
+      const fields = comma === -1 ? {} : parseFields(body.slice(comma + 1), macros)
+      entries.push({ type, key, fields, raw, index })
+    } catch (err) {
+      issues.push({ index, entry: preview(raw), reason: err instanceof Error ? err.message : String(err) })
+    }
+    index++
+  }
+
+  return { entries, issues }
+}
+
+/**
+ * Split an author list on " and " outside braces ("{Barnes and Noble}" stays one name)
+ */
+export function splitBibtexNames(value: string): string[] {
+  const names: string[] = []
+  let depth = 0
+  let current = ''
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]
+    if (char === '{') depth++
+    if (char === '}') depth--
+    if (depth === 0 && /^\s+and\s+/i.test(value.slice(i))) {
+      names.push(current)
+      current = ''
+      i += value.slice(i).match(/^\s+and\s+/i)![0].length - 1
+      continue
+    }
+    current += char
+  }
+  names.push(current)
+
+  return names
+    .map(name => cleanLatex(name))
+    .filter(name => name.length > 0 && name.toLowerCase() !== 'others')
+}
+
+function entryToFields(entry: BibtexEntry): ImportedFields {
+  const f = (name: string) => (entry.fields[name] !== undefined ? cleanLatex(entry.fields[name]) : '')
+  const title = [f('title'), f('subtitle')].filter(Boolean).join(': ')
+  const names = entry.fields.author || entry.fields.editor || ''
+
+  return {
+    key: entry.key,
+    authors: splitBibtexNames(names).map(parseAuthorName),
+    etAl: /\sand\s+others\s*$/i.test(names),
+    title,
+    year: yearOf(f('year')) || yearOf(f('date')),
+    journal: f('journal') || f('journaltitle'),
+    booktitle: f('booktitle'),
+    publisher: f('publisher') || f('school') || f('institution') || f('organization'),
+    volume: f('volume'),
+    issue: f('number') || f('issue'),
+    pages: f('pages'),
+    isbn: f('isbn'),
+    doi: f('doi'),
+    url: f('url'),
+    note: f('note'),
+    raw: entry.raw,
+  }
+}
+
+/**
+ * Parse a BibTeX/BibLaTeX file into references
+ */
+export function parseBibtex(text: string): ParsedImport {
+  const { entries, issues } = parseBibtexEntries(text)
+  return finalizeImport(entries.map(entry => ({ fields: entryToFields(entry), index: entry.index })), issues)
+}
+
+// ===========================================
+// SERIALIZATION
+// ===========================================
+
+const LATEX_SPECIALS: Record<string, string> = {
+  '\\': '\\textbackslash{}', '{': '\\{', '}': '\\}', '&': '\\&', '%': '\\%', '$': '\\$', '#': '\\#', '_': '\\_',
+  '~': '\\textasciitilde{}', '^': '\\textasciicircum{}',
+}
+
+/**
+ * Escape a plain-text value for a .bib file
+ * BibTeX is ASCII-only, so accented letters become LaTeX accents ("ü" → {\"u});
+ * BibLaTeX (biber) reads UTF-8 and keeps them.
+ */
+export function escapeLatex(value: string, asciiOnly: boolean): string {
+  const escaped = value.replace(/[\\{}&%$#_~^]/g, char => LATEX_SPECIALS[char])
+  if (!asciiOnly) return escaped
+
+  const accentCommands: Record<string, string> = {}
+  Object.keys(ACCENTS).forEach(command => { accentCommands[ACCENTS[command]] = command })
+  const letterCommands: Record<string, string> = {}
+  Object.keys(SPECIAL_LETTERS).forEach(command => { letterCommands[SPECIAL_LETTERS[command]] = command })
+
+  return escaped
+    .normalize('NFD')
+    .replace(/([a-zA-Z])([\u0300-\u036f])/g, (match, letter, mark) => {
+      const command = accentCommands[mark]
+      if (!command) return letter
+      // \i and \j drop their dot under accents
+      const base = letter === 'i' || letter === 'j' ? `\\${letter}` : letter
+      return /[a-zA-Z]/.test(command) ? `{\\${command}{${base}}}` : `{\\${command}${base}}`
+    })
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[ßøØæÆœŒåÅłŁıȷ]/g, letter => `{\\${letterCommands[letter]}}`)
+    .replace(/–/g, '--')
+    .replace(/—/g, '---')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+}
+
+/**
+ * Brace words whose capitalisation must survive bibliography styles ("DNA", "LaTeX", "iPhone")
+ */
+function protectCase(title: string): string {
+  return title.replace(/[A-Za-z][A-Za-z0-9]*/g, (word, offset: number) => {
+    if (title[offset - 1] === '\\') return word
+    return /^.+[A-Z]/.test(word) ? `{${word}}` : word
+  })
+}
+
+/**
+ * "von Last, Jr, First" (the form BibTeX splits unambiguously)
+ */
+function formatBibtexName(author: Author, asciiOnly: boolean): string {
+  if (author.literal) return `{${escapeLatex(author.family, asciiOnly)}}`
+  return [fullFamilyName(author), author.suffix, author.given]
+    .filter(Boolean)
+    .map(part => escapeLatex(part!, asciiOnly))
+    .join(', ')
+}
+
+function bibtexEntry(fields: ExportedFields, key: string, biblatex: boolean): string {
+  const asciiOnly = !biblatex
+  const text = (value: string | undefined) => escapeLatex(value || '', asciiOnly)
+  const names = fields.authors.map(name => formatBibtexName(name, asciiOnly))
+  if (fields.etAl && names.length > 0) names.push('others')
+
+  const values: [string, string][] = [
+    ['author', names.join(' and ')],
+    ['title', protectCase(text(fields.title))],
+  ]
+  if (fields.kind === 'article') values.push([biblatex ? 'journaltitle' : 'journal', text(fields.journal)])
+  if (fields.kind === 'inproceedings') values.push(['booktitle', text(fields.booktitle)])
+  if (fields.kind === 'book') values.push(['publisher', text(fields.publisher)])
+  if (fields.kind === 'misc') values.push([biblatex ? 'publisher' : 'howpublished', text(fields.publisher)])
+
+  const year = yearOf(fields.year)
+  values.push(
+    [biblatex ? 'date' : 'year', year],
+    ['volume', text(fields.volume)],
+    ['number', text(fields.issue)],
+    ['pages', text(fields.pages).replace(/\s*-+\s*/g, '--')],
+    ['isbn', text(fields.isbn)],
+    // DOIs and URLs are verbatim fields; only braces would break them
+    ['doi', (fields.doi || '').replace(/[{}]/g, '')],
+    ['url', (fields.url || '').replace(/[{}]/g, '')],
+    ['note', text(fields.note)],
+  )
+  if (!year && fields.year) values.push([biblatex ? 'pubstate' : 'note', text(fields.year)])
+
+  const body = values
+    .filter(([, value]) => value.length > 0)
+    .map(([name, value]) => `  ${name} = {${value}}`)
+    .join(',\n')
+
+  return `@${fields.kind}{${key},\n${body}\n}\n`
+}
+
+/**
+ * Serialize references as a .bib file (BibTeX, or BibLaTeX with { biblatex: true })
+ */
+export function serializeBibtex(references: ExtractedReference[], options: { biblatex?: boolean } = {}): string {
+  const keys = stableCitationKeys(references)
+  return references
+    .map((ref, i) => bibtexEntry(referenceToFields(ref), keys[i], Boolean(options.biblatex)))
+    .join('\n')
+}
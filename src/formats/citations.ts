@@ -0,0 +1,386 @@
+/**
+ * Formatted citations (APA 7, MLA 9, Chicago notes-bibliography, IEEE, Harvard)
+ * Styles build a list of text runs; renderers turn runs into text, HTML, Markdown or RTF.
+ * Missing fields are left out together with their punctuation.
+ */
+
+import { ExtractedReference, Author } from '../types-simple'
+import { ExportedFields, referenceToFields, yearOf } from './common'
+import { initialsOf, fullFamilyName, referenceAuthorList } from '../extraction/authors'
+import { normalizeForComparison } from '../utils/similarity'
+
+export type CitationStyle = 'apa' | 'mla' | 'chicago' | 'ieee' | 'harvard'
+export type CitationOutput = 'text' | 'html' | 'markdown' | 'rtf'
+
+export const CITATION_STYLES: CitationStyle[] = ['apa', 'mla', 'chicago', 'ieee', 'harvard']
+export const CITATION_OUTPUTS: CitationOutput[] = ['text', 'html', 'markdown', 'rtf']
+
+export const CITATION_CONTENT_TYPES: Record<CitationOutput, string> = {
+  text: 'text/plain; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8',
+  rtf: 'application/rtf',
+}
+
+interface Run {
+  text: string
+  italic?: boolean
+}
+
+type Runs = Run[]
+
+const plain = (text: string): Run => ({ text })
+const italic = (text: string): Run => ({ text, italic: true })
+
+/**
+ * Join non-empty groups of runs with a separator
+ */
+function series(groups: Runs[], separator: string): Runs {
+  return groups
+    .filter(group => group.some(run => run.text.length > 0))
+    .reduce<Runs>((joined, group, i) => joined.concat(i > 0 ? [plain(separator)] : [], group), [])
+}
+
+/**
+ * End a clause with a period unless it already ends in . ? or !
+ */
+function terminate(runs: Runs, mark = '.'): Runs {
+  const text = runs.map(run => run.text).join('').trim()
+  if (!text) return []
+  return /[.?!]$/.test(text) ? runs : runs.concat(plain(mark))
+}
+
+/**
+ * "Title" in curly quotes, with the clause punctuation inside (“Title.”) unless the title has its own
+ */
+function quoted(title: string, mark: string, open = '“', close = '”'): Runs {
+  if (!title) return []
+  return [plain(/[.?!]$/.test(title) ? `${open}${title}${close}` : `${open}${title}${mark}${close}`)]
+}
+
+function pageRange(pages: string | undefined): string {
+  return (pages || '').replace(/-/g, '–')
+}
+
+function isRange(pages: string | undefined): boolean {
+  return /\d\s*[-–]\s*\d/.test(pages || '')
+}
+
+function link(fields: ExportedFields): string {
+  return fields.doi ? `https://doi.org/${fields.doi}` : fields.url || ''
+}
+
+// ===========================================
+// NAMES
+// ===========================================
+
+/**
+ * "D. R." (APA) / "D.R." (Harvard)
+ */
+function initials(author: Author, separator = ' '): string {
+  return (author.initials || initialsOf(author.given)).split(' ').join(separator)
+}
+
+/**
+ * "Hill, D. R." (APA) / "Hill, D.R." (Harvard); "King, M. L., Jr."
+ */
+function familyInitials(author: Author, separator: string): string {
+  if (author.literal) return author.family
+  return [fullFamilyName(author), initials(author, separator), author.suffix].filter(Boolean).join(', ')
+}
+
+/**
+ * "Hill, Donald R."
+ */
+function familyFirst(author: Author): string {
+  if (author.literal) return author.family
+  return [fullFamilyName(author), author.given, author.suffix].filter(Boolean).join(', ')
+}
+
+/**
+ * "Donald R. Hill"
+ */
+function givenFirst(author: Author): string {
+  if (author.literal) return author.family
+  return [author.given, fullFamilyName(author), author.suffix].filter(Boolean).join(' ')
+}
+
+/**
+ * "D. R. Hill" (IEEE)
+ */
+function initialsFirst(author: Author): string {
+  if (author.literal) return author.family
+  return [initials(author), fullFamilyName(author), author.suffix].filter(Boolean).join(' ')
+}
+
+/**
+ * "A, B, and C" with the style's final conjunction (serialComma also gives "A, & B" in APA)
+ */
+function listNames(names: string[], conjunction: string, serialComma: boolean): string {
+  if (names.length <= 1) return names.join('')
+  return `${names.slice(0, -1).join(', ')}${serialComma ? ',' : ''} ${conjunction} ${names[names.length - 1]}`
+}
+
+// ===========================================
+// STYLES
+// ===========================================
+
+function apa(fields: ExportedFields): Runs {
+  const names = fields.authors.map(name => familyInitials(name, ' '))
+  let authors = names.length > 20
+    ? `${names.slice(0, 19).join(', ')}, … ${names[names.length - 1]}`
+    : listNames(names, '&', true)
+  if (fields.etAl && names.length > 0) authors += ', et al.'
+
+  const date = [plain(`(${yearOf(fields.year) || fields.year || 'n.d.'})`)]
+  const isItalicTitle = fields.kind === 'book' || fields.kind === 'misc'
+  const title = fields.title ? [isItalicTitle ? italic(fields.title) : plain(fields.title)] : []
+
+  // Without authors the title moves to the author position
+  const opening = authors
+    ? series([terminate([plain(authors)]), terminate(date), terminate(title)], ' ')
+    : series([terminate(title), terminate(date)], ' ')
+
+  let source: Runs = []
+  if (fields.kind === 'article') {
+    const volume: Runs = fields.volume ? [italic(fields.volume)] : []
+    if (fields.issue) volume.push(plain(`(${fields.issue})`))
+    source = terminate(series([
+      fields.journal ? [italic(fields.journal)] : [],
+      volume,
+      [plain(pageRange(fields.pages))],
+    ], ', '))
+  } else if (fields.kind === 'inproceedings') {
+    const pages = fields.pages ? [plain(`(${isRange(fields.pages) ? 'pp.' : 'p.'} ${pageRange(fields.pages)})`)] : []
+    source = fields.booktitle ? terminate(series([[plain('In'), plain(' '), italic(fields.booktitle)], pages], ' ')) : []
+  } else {
+    source = fields.publisher ? terminate([plain(fields.publisher)]) : []
+  }
+
+  return series([opening, source, [plain(link(fields))]], ' ')
+}
+
+function mla(fields: ExportedFields): Runs {
+  const names = fields.authors
+  let authors = ''
+  if (names.length === 1) authors = familyFirst(names[0])
+  if (names.length === 2) authors = `${familyFirst(names[0])}, and ${givenFirst(names[1])}`
+  if (names.length > 2 || (fields.etAl && names.length > 0)) authors = `${familyFirst(names[0])}, et al`
+
+  const title = fields.kind === 'book' || fields.kind === 'misc'
+    ? terminate(fields.title ? [italic(fields.title)] : [])
+    : quoted(fields.title || '', '.')
+
+  const container = fields.journal || fields.booktitle
+  const pages = fields.pages ? `${isRange(fields.pages) ? 'pp.' : 'p.'} ${pageRange(fields.pages)}` : ''
+  const source = terminate(series([
+    container ? [italic(container)] : [],
+    [plain(fields.volume ? `vol. ${fields.volume}` : '')],
+    [plain(fields.issue ? `no. ${fields.issue}` : '')],
+    [plain(fields.publisher || '')],
+    [plain(yearOf(fields.year) || fields.year || '')],
+    [plain(pages)],
+  ], ', '))
+
+  return series([terminate([plain(authors)]), title, source, [plain(link(fields))]], ' ')
+}
+
+function chicago(fields: ExportedFields): Runs {
+  const names = fields.authors.map((name, i) => (i === 0 ? familyFirst(name) : givenFirst(name)))
+  let authors = names.length > 10
+    ? `${names.slice(0, 7).join(', ')}, et al`
+    : listNames(names, 'and', true)
+  if (fields.etAl && names.length > 0 && names.length <= 10) authors += ', et al'
+
+  const year = yearOf(fields.year) || fields.year || 'n.d.'
+  let rest: Runs
+
+  if (fields.kind === 'article') {
+    // Nature 50, no. 4 (2019): 197–219.
+    const volume = [fields.volume, fields.issue ? `no. ${fields.issue}` : ''].filter(Boolean).join(', ')
+    const citation: Runs = series([
+      fields.journal ? [italic(fields.journal)] : [],
+      [plain(volume)],
+      [plain(`(${year})`)],
+    ], ' ')
+    if (fields.pages) citation.push(plain(`: ${pageRange(fields.pages)}`))
+    rest = series([quoted(fields.title || '', '.'), terminate(citation)], ' ')
+  } else if (fields.kind === 'inproceedings') {
+    const inBook = series([
+      fields.booktitle ? [plain('In '), italic(fields.booktitle)] : [],
+      [plain(pageRange(fields.pages))],
+    ], ', ')
+    rest = series([
+      quoted(fields.title || '', '.'),
+      terminate(inBook),
+      terminate(series([[plain(fields.publisher || '')], [plain(year)]], ', ')),
+    ], ' ')
+  } else {
+    rest = series([
+      terminate(fields.title ? [italic(fields.title)] : []),
+      terminate(series([[plain(fields.publisher || '')], [plain(year)]], ', ')),
+    ], ' ')
+  }
+
+  return series([terminate([plain(authors)]), rest, [plain(link(fields))]], ' ')
+}
+
+function ieee(fields: ExportedFields): Runs {
+  const names = fields.authors.map(initialsFirst)
+  let authors = names.length > 6 ? `${names[0]} et al.` : listNames(names, 'and', names.length > 2)
+  if (fields.etAl && names.length > 0 && names.length <= 6) authors += ' et al.'
+
+  const year = yearOf(fields.year) || fields.year
+  const pages = fields.pages ? `${isRange(fields.pages) ? 'pp.' : 'p.'} ${pageRange(fields.pages)}` : ''
+
+  if (fields.kind === 'book' || fields.kind === 'misc') {
+    // D. R. Hill, Title. Publisher, 1979.
+    const head = series([[plain(authors)], fields.title ? [italic(fields.title)] : []], ', ')
+    return series([
+      terminate(head),
+      terminate(series([[plain(fields.publisher || '')], [plain(year || '')]], ', ')),
+      [plain(link(fields))],
+    ], ' ')
+  }
+
+  const container = fields.journal || fields.booktitle
+  const title = quoted(fields.title || '', ',')
+  const source = terminate(series([
+    container ? [plain(fields.kind === 'inproceedings' ? 'in ' : ''), italic(container)] : [],
+    [plain(fields.volume ? `vol. ${fields.volume}` : '')],
+    [plain(fields.issue ? `no. ${fields.issue}` : '')],
+    [plain(pages)],
+    [plain(year || '')],
+  ], ', '))
+
+  // The title's own comma separates it from the source
+  const head = authors ? [plain(`${authors}, `)] : []
+  return series([head.concat(title, title.length > 0 ? [plain(' ')] : [], source), [plain(link(fields))]], ' ')
+}
+
+function harvard(fields: ExportedFields): Runs {
+  const names = fields.authors.map(name => familyInitials(name, ''))
+  let authors = names.length > 3 ? `${names[0]} et al.` : listNames(names, 'and', false)
+  if (fields.etAl && names.length > 0 && names.length <= 3) authors += ' et al.'
+
+  const year = `(${yearOf(fields.year) || fields.year || 'no date'})`
+  const isBook = fields.kind === 'book' || fields.kind === 'misc'
+  const title: Runs = fields.title ? [isBook ? italic(fields.title) : plain(`‘${fields.title}’`)] : []
+
+  // Without authors the title moves to the author position
+  const opening = series([authors ? [plain(authors)] : title, [plain(year)]], ' ')
+  const body = authors ? title : []
+
+  let source: Runs
+  if (isBook) {
+    source = series([terminate(body), terminate([plain(fields.publisher || '')])], ' ')
+  } else {
+    const container = fields.journal || fields.booktitle
+    const volume = [fields.volume, fields.issue ? `(${fields.issue})` : ''].join('')
+    const pages = fields.pages ? `${isRange(fields.pages) ? 'pp.' : 'p.'} ${pageRange(fields.pages)}` : ''
+    source = terminate(series([
+      body,
+      container ? [plain(fields.kind === 'inproceedings' ? 'in ' : ''), italic(container)] : [],
+      [plain(volume)],
+      [plain(pages)],
+    ], ', '))
+  }
+
+  // "(no date)" alone still closes the entry
+  const citation = source.length > 0 ? series([opening, source], ' ') : terminate(opening)
+  return series([citation, [plain(link(fields) ? `Available at: ${link(fields)}` : '')]], ' ')
+}
+
+const STYLES: Record<CitationStyle, (fields: ExportedFields) => Runs> = { apa, mla, chicago, ieee, harvard }
+
+// ===========================================
+// OUTPUT
+// ===========================================
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>#|])/g, '\\$1')
+}
+
+/**
+ * RTF is 7-bit: escape control characters and write everything else as \uN? (signed 16-bit)
+ */
+function escapeRtf(text: string): string {
+  let escaped = ''
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    const code = text.charCodeAt(i)
+    if (char === '\\' || char === '{' || char === '}') escaped += `\\${char}`
+    else if (code > 127) escaped += `\\u${code > 32767 ? code - 65536 : code}?`
+    else escaped += char
+  }
+  return escaped
+}
+
+function renderRuns(runs: Runs, output: CitationOutput): string {
+  // Merge neighbouring runs of the same kind so markup is not split ("*a* *b*")
+  const merged = runs.reduce<Runs>((all, run) => {
+    const last = all[all.length - 1]
+    if (last && Boolean(last.italic) === Boolean(run.italic)) last.text += run.text
+    else all.push({ ...run })
+    return all
+  }, [])
+
+  return merged.map(run => {
+    switch (output) {
+      case 'html':
+        return run.italic ? `<i>${escapeHtml(run.text)}</i>` : escapeHtml(run.text)
+      case 'markdown':
+        return run.italic ? `*${escapeMarkdown(run.text)}*` : escapeMarkdown(run.text)
+      case 'rtf':
+        return run.italic ? `{\\i ${escapeRtf(run.text)}}` : escapeRtf(run.text)
+      default:
+        return run.text
+    }
+  }).join('').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * One reference as a formatted citation (no document wrapper)
+ */
+export function formatCitation(ref: ExtractedReference, style: CitationStyle, output: CitationOutput = 'text'): string {
+  return renderRuns(STYLES[style](referenceToFields(ref)), output)
+}
+
+/**
+ * Sort key for author-date and author-title styles: first author's surname, then year, then title
+ */
+function sortKey(ref: ExtractedReference): string {
+  const first = referenceAuthorList(ref).authors[0]
+  const surname = (first ? normalizeForComparison(first.family) : '') || (ref.title || '').toLowerCase()
+  return `${surname}\u0000${yearOf(ref.year) || '9999'}\u0000${(ref.title || '').toLowerCase()}`
+}
+
+/**
+ * A reference list as a complete document in the requested output format
+ * IEEE keeps the given order and numbers entries; the other styles are alphabetical.
+ */
+export function formatBibliography(references: ExtractedReference[], style: CitationStyle, output: CitationOutput = 'text'): string {
+  const ordered = style === 'ieee'
+    ? references
+    : references.slice().sort((a, b) => (sortKey(a) < sortKey(b) ? -1 : sortKey(a) > sortKey(b) ? 1 : 0))
+  const entries = ordered.map((ref, i) => {
+    const citation = formatCitation(ref, style, output)
+    return style === 'ieee' ? `[${i + 1}] ${citation}` : citation
+  })
+
+  switch (output) {
+    case 'html':
+      return `<div class="csl-bib-body">\n${entries.map(entry => `  <div class="csl-entry">${entry}</div>`).join('\n')}\n</div>\n`
+    case 'markdown':
+      return `${entries.join('\n\n')}\n`
+    case 'rtf':
+      // Times 12pt, hanging indent of half an inch, one paragraph per entry
+      return `{\\rtf1\\ansi\\deff0{\\fonttbl{\\f0 Times New Roman;}}\\f0\\fs24\n${entries.map(entry => `{\\pard\\li720\\fi-720\\sa240 ${entry}\\par}`).join('\n')}\n}\n`
+    default:
+      return `${entries.join('\n\n')}\n`
+  }
+}
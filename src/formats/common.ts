@@ -0,0 +1,249 @@
+/**
+ * Shared helpers for bibliography formats (BibTeX, RIS, CSL-JSON, EndNote XML)
+ */
+
+import { ExtractedReference, Author } from '../types-simple'
+import { extractSurname, normalizeForComparison } from '../utils/similarity'
+import { isValidIsbn } from '../extraction/confidence'
+import { authorStrings, referenceAuthorList } from '../extraction/authors'
+
+export type ImportFormat = 'bibtex' | 'ris' | 'csl-json' | 'endnote-xml'
+
+export interface ImportIssue {
+  index: number              // 0-based position of the entry in the file
+  entry: string              // Short preview of the entry
+  reason: string
+}
+
+export interface ParsedImport {
+  references: ExtractedReference[]
+  issues: ImportIssue[]
+}
+
+/**
+ * Source-independent fields collected by each parser before mapping to ExtractedReference
+ */
+export interface ImportedFields {
+  key?: string
+  authors: Author[]
+  etAl?: boolean             // Author list ends in "and others" / "et al."
+  title?: string
+  year?: string
+  journal?: string           // journal / journaltitle / periodical
+  booktitle?: string         // proceedings or collection title
+  publisher?: string         // publisher / school / institution
+  volume?: string
+  issue?: string
+  pages?: string
+  isbn?: string
+  doi?: string
+  url?: string
+  note?: string
+  raw: string                // Original entry text
+}
+
+/**
+ * First 4-digit year in a date string
+ */
+export function yearOf(text: string | undefined): string {
+  const match = (text || '').match(/\b(1[5-9]\d{2}|20\d{2})\b/)
+  return match ? match[1] : ''
+}
+
+/**
+ * Normalise page ranges: "436--444" / "436–444" → "436-444"
+ */
+export function normalizePages(pages: string | undefined): string {
+  return (pages || '').trim().replace(/\s*(--|–|—)\s*/g, '-')
+}
+
+/**
+ * Keep the first valid ISBN from a field that may also hold ISSNs or several ISBNs
+ */
+export function pickIsbn(value: string | undefined): string {
+  const candidates = (value || '').split(/[\s,;]+/).map(v => v.replace(/[^\dX]/gi, ''))
+  return candidates.find(c => (c.length === 10 || c.length === 13) && isValidIsbn(c)) || ''
+}
+
+export function preview(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim()
+  return flat.length > 120 ? `${flat.substring(0, 120)}…` : flat
+}
+
+/**
+ * Map imported fields onto the reference columns used everywhere else
+ * journal wins over booktitle, which wins over publisher, for publisherJournal.
+ */
+export function fieldsToReference(fields: ImportedFields): ExtractedReference {
+  const volumeIssue = fields.volume && fields.issue
+    ? `${fields.volume}(${fields.issue})`
+    : fields.volume || (fields.issue ? `no. ${fields.issue}` : '')
+
+  const notes = [
+    fields.doi ? `DOI: ${fields.doi}` : '',
+    fields.url || '',
+    fields.note || '',
+  ].filter(Boolean)
+
+  return {
+    citationKey: fields.key || '',
+    ...authorStrings(fields.authors, fields.etAl),
+    authors: fields.authors,
+    ...(fields.etAl ? { etAl: true } : {}),
+    title: fields.title || '',
+    year: fields.year || '',
+    publisherJournal: fields.journal || fields.booktitle || fields.publisher || '',
+    volumeIssue,
+    pages: normalizePages(fields.pages),
+    extraNotes: notes.join('; '),
+    isbn: pickIsbn(fields.isbn),
+    referenceRaw: fields.raw.trim(),
+    // Curated by the user in their reference manager
+    confidence: 'high',
+    confidenceScore: 1,
+    confidenceReasons: [],
+    extractionMethod: 'import',
+  }
+}
+
+/**
+ * Validate mapped references and give keyless entries a "Surname2019" key (unique within the file)
+ */
+export function finalizeImport(entries: { fields: ImportedFields; index: number }[], issues: ImportIssue[]): ParsedImport {
+  const references: ExtractedReference[] = []
+  const usedKeys = new Set<string>()
+
+  for (const { fields, index } of entries) {
+    const reference = fieldsToReference(fields)
+    if (!reference.title && !reference.firstAuthor) {
+      issues.push({ index, entry: preview(fields.raw), reason: 'Entry has neither title nor author' })
+      continue
+    }
+
+    if (!reference.citationKey) {
+      const first = fields.authors[0]
+      const surname = (first ? normalizeForComparison(first.family) : '').replace(/\s+/g, '') || 'anon'
+      const base = `${surname.charAt(0).toUpperCase()}${surname.slice(1)}${reference.year || 'nd'}`
+      let key = base
+      for (let suffix = 0; usedKeys.has(key.toLowerCase()); suffix++) {
+        key = `${base}${String.fromCharCode(97 + (suffix % 26))}${suffix >= 26 ? Math.floor(suffix / 26) : ''}`
+      }
+      reference.citationKey = key
+    }
+
+    usedKeys.add(reference.citationKey.toLowerCase())
+    references.push(reference)
+  }
+
+  return { references, issues: issues.sort((a, b) => a.index - b.index) }
+}
+
+// ===========================================
+// EXPORT
+// ===========================================
+
+export type ExportFormat = 'bibtex' | 'biblatex' | 'ris' | 'csl-json'
+
+export type ReferenceKind = 'article' | 'inproceedings' | 'book' | 'misc'
+
+/**
+ * A reference broken back into bibliographic fields for the serializers
+ */
+export interface ExportedFields extends ImportedFields {
+  kind: ReferenceKind
+  key: string
+  etAl: boolean              // Author list was truncated ("et al.")
+}
+
+/**
+ * "50 (4)", "50(4)", "Vol. 3, No. 2", "no. 4" → volume and issue
+ */
+export function splitVolumeIssue(value: string | undefined): { volume: string; issue: string } {
+  const text = (value || '').trim()
+  const paren = text.match(/^(?:vol\.?\s*)?([^\s(]+)\s*\(([^)]+)\)$/i)
+  if (paren) return { volume: paren[1], issue: paren[2] }
+
+  const labelled = text.match(/^(?:vol(?:ume)?\.?\s*([^\s,]+))?[\s,]*(?:(?:no|nr|issue)\.?\s*(\S+))?$/i)
+  if (labelled && (labelled[1] || labelled[2])) return { volume: labelled[1] || '', issue: labelled[2] || '' }
+
+  return { volume: text, issue: '' }
+}
+
+/**
+ * Guess the entry type from the columns we have
+ */
+function referenceKind(ref: ExtractedReference, volume: string, issue: string): ReferenceKind {
+  const container = ref.publisherJournal || ''
+  if (/\b(proceedings|proc\.|conference|symposium|workshop|congress)\b/i.test(container)) return 'inproceedings'
+  if (volume || issue) return 'article'
+  if (ref.isbn) return 'book'
+  if (container && /\d+\s*[-–]\s*\d+/.test(ref.pages || '')) return 'article'
+  if (container) return 'book'
+  return 'misc'
+}
+
+/**
+ * Map a reference back onto bibliographic fields (the inverse of fieldsToReference)
+ */
+export function referenceToFields(ref: ExtractedReference): ExportedFields {
+  const { volume, issue } = splitVolumeIssue(ref.volumeIssue)
+  const { authors, etAl } = referenceAuthorList(ref)
+  const kind = referenceKind(ref, volume, issue)
+  const container = (ref.publisherJournal || '').trim()
+
+  // DOIs and URLs are folded into extraNotes by every extractor
+  const notes = ref.extraNotes || ''
+  const keyDoi = /^doi:/i.test(ref.citationKey) ? ref.citationKey.slice(4) : ''
+  const doi = keyDoi || (notes.match(/\b(10\.\d{4,9}\/[^\s;,]+)/) || [])[1] || ''
+  const url = (notes.match(/https?:\/\/[^\s;,]+/) || [])[0] || ''
+  const note = notes
+    .split(/\s*;\s*/)
+    .filter(part => part && !(url && part.includes(url)) && !/^DOI:/i.test(part))
+    .join('; ')
+
+  return {
+    kind,
+    key: ref.citationKey,
+    authors,
+    etAl,
+    title: ref.title,
+    year: ref.year,
+    journal: kind === 'article' ? container : '',
+    booktitle: kind === 'inproceedings' ? container : '',
+    publisher: kind === 'book' || kind === 'misc' ? container : '',
+    volume,
+    issue,
+    pages: normalizePages(ref.pages).replace(/^pp?\.\s*/i, ''),
+    isbn: ref.isbn,
+    doi: doi.replace(/\.$/, ''),
+    url: url.replace(/\.$/, ''),
+    note,
+    raw: ref.referenceRaw,
+  }
+}
+
+/**
+ * Unique, citation-safe keys derived from each reference's citationKey ("Hill '79" → "Hill79")
+ * The same table always yields the same keys; clashes get a/b/c suffixes in table order.
+ */
+export function stableCitationKeys(references: ExtractedReference[]): string[] {
+  const used = new Set<string>()
+
+  return references.map(ref => {
+    let base = (ref.citationKey || '')
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^A-Za-z0-9_:.\-\/+]/g, '')
+    if (!base) {
+      const surname = extractSurname(ref.firstAuthor).replace(/[^a-z0-9]/g, '') || 'anon'
+      base = `${surname.charAt(0).toUpperCase()}${surname.slice(1)}${ref.year || 'nd'}`
+    }
+
+    let key = base
+    for (let suffix = 0; used.has(key.toLowerCase()); suffix++) {
+      key = `${base}${String.fromCharCode(97 + (suffix % 26))}${suffix >= 26 ? Math.floor(suffix / 26) : ''}`
+    }
+    used.add(key.toLowerCase())
+    return key
+  })
+}
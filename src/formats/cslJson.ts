@@ -0,0 +1,182 @@
+/**
+ * CSL-JSON parsing and serialization (Zotero, Mendeley, pandoc-citeproc)
+ */
+
+import { ExtractedReference, Author } from '../types-simple'
+import {
+  ImportedFields, ParsedImport, ImportIssue, ReferenceKind,
+  finalizeImport, yearOf, preview, referenceToFields, stableCitationKeys,
+} from './common'
+import { initialsOf } from '../extraction/authors'
+
+export interface CslName {
+  family?: string
+  given?: string
+  'non-dropping-particle'?: string
+  'dropping-particle'?: string
+  suffix?: string
+  literal?: string
+}
+
+export interface CslDate {
+  'date-parts'?: (number | string)[][]
+  raw?: string
+  literal?: string
+}
+
+export interface CslItem {
+  id?: string | number
+  type?: string
+  title?: string
+  author?: CslName[]
+  editor?: CslName[]
+  issued?: CslDate
+  'container-title'?: string
+  'collection-title'?: string
+  publisher?: string
+  volume?: string | number
+  issue?: string | number
+  page?: string
+  ISBN?: string
+  DOI?: string
+  URL?: string
+  note?: string
+  [field: string]: unknown
+}
+
+/**
+ * CSL names are already structured; only the initials are derived
+ */
+export function cslNameToAuthor(name: CslName): Author | null {
+  if (name.literal) return { family: name.literal.trim(), given: '', initials: '', literal: true }
+  const family = str(name.family)
+  const given = str(name.given)
+  if (!family && !given) return null
+
+  const author: Author = { family: family || given, given: family ? given : '', initials: family ? initialsOf(given) : '' }
+  const particle = [str(name['dropping-particle']), str(name['non-dropping-particle'])].filter(Boolean).join(' ')
+  if (particle) author.particle = particle
+  if (name.suffix) author.suffix = str(name.suffix)
+  return author
+}
+
+function cslYear(date: CslDate | undefined): string {
+  if (!date) return ''
+  const parts = date['date-parts']
+  if (parts && parts[0] && parts[0][0] !== undefined) {
+    return String(parts[0][0])
+  }
+  return yearOf(date.raw || date.literal)
+}
+
+function str(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value).trim()
+}
+
+function itemToFields(item: CslItem): ImportedFields {
+  const names = item.author && item.author.length > 0 ? item.author : item.editor || []
+  // Book chapters and proceedings papers carry the book title in container-title
+  const isPeriodical = /^(article|article-journal|article-magazine|article-newspaper)$/.test(item.type || '')
+  const container = str(item['container-title'])
+
+  return {
+    key: str(item.id),
+    authors: names.map(cslNameToAuthor).filter((author): author is Author => author !== null),
+    title: str(item.title),
+    year: cslYear(item.issued),
+    journal: isPeriodical ? container : '',
+    booktitle: isPeriodical ? '' : container,
+    publisher: str(item.publisher),
+    volume: str(item.volume),
+    issue: str(item.issue),
+    pages: str(item.page),
+    isbn: str(item.ISBN),
+    doi: str(item.DOI),
+    url: str(item.URL),
+    note: str(item.note),
+    raw: JSON.stringify(item),
+  }
+}
+
+/**
+ * Parse a CSL-JSON file (array of items, or a single item) into references
+ */
+export function parseCslJson(text: string): ParsedImport {
+  let data: unknown
+  try {
+    data = JSON.parse(text.replace(/^\uFEFF/, ''))
+  } catch (err) {
+    return {
+      references: [],
+      issues: [{ index: 0, entry: preview(text), reason: `Invalid JSON: ${err instanceof Error ? err.message : String(err)}` }],
+    }
+  }
+
+  const items = Array.isArray(data) ? data : [data]
+  const issues: ImportIssue[] = []
+  const entries: { fields: ImportedFields; index: number }[] = []
+
+  items.forEach((item, index) => {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      issues.push({ index, entry: preview(JSON.stringify(item)), reason: 'Item is not an object' })
+      return
+    }
+    entries.push({ fields: itemToFields(item as CslItem), index })
+  })
+
+  return finalizeImport(entries, issues)
+}
+
+// ===========================================
+// SERIALIZATION
+// ===========================================
+
+const CSL_TYPES: Record<ReferenceKind, string> = {
+  article: 'article-journal',
+  inproceedings: 'paper-conference',
+  book: 'book',
+  misc: 'document',
+}
+
+/**
+ * A reference as a CSL-JSON item
+ */
+export function toCslItem(ref: ExtractedReference, id: string): CslItem {
+  const fields = referenceToFields(ref)
+  const year = yearOf(fields.year)
+  const item: CslItem = {
+    id,
+    type: CSL_TYPES[fields.kind],
+    title: fields.title,
+    author: fields.authors.map(author => {
+      if (author.literal) return { literal: author.family }
+      const name: CslName = { family: author.family }
+      if (author.given) name.given = author.given
+      if (author.particle) name['non-dropping-particle'] = author.particle
+      if (author.suffix) name.suffix = author.suffix
+      return name
+    }),
+  }
+
+  if (year) item.issued = { 'date-parts': [[Number(year)]] }
+  else if (fields.year) item.issued = { literal: fields.year }
+  if (fields.journal || fields.booktitle) item['container-title'] = fields.journal || fields.booktitle
+  if (fields.publisher) item.publisher = fields.publisher
+  if (fields.volume) item.volume = fields.volume
+  if (fields.issue) item.issue = fields.issue
+  if (fields.pages) item.page = fields.pages
+  if (fields.isbn) item.ISBN = fields.isbn
+  if (fields.doi) item.DOI = fields.doi
+  if (fields.url) item.URL = fields.url
+  if (fields.note) item.note = fields.note
+
+  return item
+}
+
+/**
+ * Serialize references as a CSL-JSON array
+ */
+export function serializeCslJson(references: ExtractedReference[]): string {
+  const keys = stableCitationKeys(references)
+  return JSON.stringify(references.map((ref, i) => toCslItem(ref, keys[i])), null, 2)
+}
@@ -0,0 +1,82 @@
+/**
+ * EndNote XML parsing (File → Export → XML in EndNote)
+ * Values are wrapped in <style> elements; those and any other inline markup are stripped.
+ */
+
+import { ImportedFields, ParsedImport, ImportIssue, finalizeImport, yearOf } from './common'
+import { parseAuthorName } from '../extraction/authors'
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * Text of an element with inline markup removed
+ */
+function textOf(xml: string): string {
+  return decodeXml(xml.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Inner XML of every <tag> in a fragment
+ */
+function elements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g')
+  const found: string[] = []
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(xml)) !== null) {
+    found.push(match[1])
+  }
+  return found
+}
+
+function first(xml: string, tag: string): string {
+  const found = elements(xml, tag)
+  return found.length > 0 ? textOf(found[0]) : ''
+}
+
+function recordToFields(record: string): ImportedFields {
+  const refType = (record.match(/<ref-type[^>]*name="([^"]*)"/) || [])[1] || ''
+  const authorsBlock = elements(record, 'authors')[0] || ''
+  const secondary = first(record, 'secondary-title')
+  const isJournal = /journal|magazine|newspaper/i.test(refType)
+
+  return {
+    key: first(record, 'label'),
+    authors: elements(authorsBlock, 'author').map(textOf).filter(Boolean).map(parseAuthorName),
+    title: first(record, 'title'),
+    year: yearOf(first(record, 'year')),
+    journal: first(record, 'full-title') || (isJournal ? secondary : ''),
+    booktitle: isJournal ? '' : secondary,
+    publisher: first(record, 'publisher'),
+    volume: first(record, 'volume'),
+    issue: first(record, 'number') || first(record, 'issue'),
+    pages: first(record, 'pages'),
+    isbn: first(record, 'isbn'),
+    doi: first(record, 'electronic-resource-num'),
+    url: first(record, 'url'),
+    note: first(record, 'notes'),
+    raw: record,
+  }
+}
+
+/**
+ * Parse an EndNote XML export into references
+ */
+export function parseEndnoteXml(text: string): ParsedImport {
+  const issues: ImportIssue[] = []
+  const records = elements(text, 'record')
+
+  if (records.length === 0 && !/<records[\s>]/.test(text)) {
+    issues.push({ index: 0, entry: text.substring(0, 120), reason: 'No <records> element found' })
+  }
+
+  return finalizeImport(records.map((record, index) => ({ fields: recordToFields(record), index })), issues)
+}
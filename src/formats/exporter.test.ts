@@ -0,0 +1,49 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { serializeReferences, EXPORT_FORMATS } from './exporter'
+import { parseBibliography } from './importer'
+import { syncAuthors } from '../extraction/authors'
+import { ExtractedReference } from '../types-simple'
+
+const reference = (fields: Partial<ExtractedReference>): ExtractedReference => {
+  const ref: ExtractedReference = {
+    citationKey: '', firstAuthor: '', otherAuthors: '', title: '', year: '', publisherJournal: '', volumeIssue: '',
+    pages: '', extraNotes: '', isbn: '', referenceRaw: '', confidence: 'high', extractionMethod: 'llm', ...fields,
+  }
+  syncAuthors(ref)
+  return ref
+}
+
+const REFERENCES = [
+  reference({ citationKey: "Hill '79", firstAuthor: 'Hill, Donald R.', title: 'The Book of Ingenious Devices (Kitāb al-Ḥiyal)', year: '1979', publisherJournal: 'Reidel', isbn: '90-277-0833-9' }),
+  reference({ citationKey: 'Rosenblueth1943', firstAuthor: 'Rosenblueth, A.', otherAuthors: 'Wiener, N.; Bigelow, J.', title: 'Behavior, purpose & teleology', year: '1943', publisherJournal: 'Philosophy of Science', volumeIssue: '10(1)', pages: '18-24' }),
+  reference({ firstAuthor: 'Ludwig van Beethoven', otherAuthors: 'et al.', title: 'Über Musik', year: '1810' }),
+]
+
+const fields = (ref: ExtractedReference) =>
+  [ref.citationKey, ref.firstAuthor, ref.otherAuthors, ref.title, ref.year, ref.publisherJournal, ref.volumeIssue, ref.pages, ref.isbn]
+
+test('writes BibTeX keys, entry types and LaTeX escapes', () => {
+  const bibtex = serializeReferences(REFERENCES, 'bibtex')
+  assert.match(bibtex, /^@book\{Hill79,$/m)
+  assert.match(bibtex, /^@article\{Rosenblueth1943,$/m)
+  assert.match(bibtex, /^@misc\{Beethoven1810,$/m)
+  assert.match(bibtex, /title = \{Behavior, purpose \\& teleology\}/)
+  assert.match(bibtex, /author = \{van Beethoven, Ludwig and others\}/)
+  assert.match(bibtex, /pages = \{18--24\}/)
+})
+
+EXPORT_FORMATS.forEach(format => {
+  test(`reads back what it writes as ${format}`, () => {
+    const { references, issues } = parseBibliography(serializeReferences(REFERENCES, format), format === 'biblatex' ? 'bibtex' : format)
+    assert.deepEqual(issues, [])
+    // Keys are exported in their BibTeX-safe form; "et al." only survives in BibTeX ("and others")
+    const etAl = format === 'bibtex' || format === 'biblatex' ? 'et al.' : ''
+    assert.deepEqual(references.map(fields), [
+      ['Hill79', 'Hill, Donald R.', '', 'The Book of Ingenious Devices (Kitāb al-Ḥiyal)', '1979', 'Reidel', '', '', '9027708339'],
+      ['Rosenblueth1943', 'Rosenblueth, A.', 'Wiener, N.; Bigelow, J.', 'Behavior, purpose & teleology', '1943', 'Philosophy of Science', '10(1)', '18-24', ''],
+      ['Beethoven1810', 'van Beethoven, Ludwig', etAl, 'Über Musik', '1810', '', '', '', ''],
+    ])
+    assert.equal(references[2].authors![0].particle, 'van')
+  })
+})
@@ -0,0 +1,41 @@
+/**
+ * Bibliography export: one entry point for every serializer
+ */
+
+import { ExtractedReference } from '../types-simple'
+import { ExportFormat } from './common'
+import { serializeBibtex } from './bibtex'
+import { serializeRis } from './ris'
+import { serializeCslJson } from './cslJson'
+
+export type { ExportFormat } from './common'
+
+export interface ExportFormatInfo {
+  extension: string          // File suffix for downloads
+  contentType: string
+}
+
+export const EXPORT_FORMATS: ExportFormat[] = ['bibtex', 'biblatex', 'ris', 'csl-json']
+
+export const EXPORT_FILE_TYPES: Record<ExportFormat, ExportFormatInfo> = {
+  bibtex: { extension: 'bib', contentType: 'application/x-bibtex; charset=utf-8' },
+  biblatex: { extension: 'biblatex.bib', contentType: 'application/x-bibtex; charset=utf-8' },
+  ris: { extension: 'ris', contentType: 'application/x-research-info-systems; charset=utf-8' },
+  'csl-json': { extension: 'json', contentType: 'application/vnd.citationstyles.csl+json; charset=utf-8' },
+}
+
+/**
+ * Serialize references in the given format
+ */
+export function serializeReferences(references: ExtractedReference[], format: ExportFormat): string {
+  switch (format) {
+    case 'bibtex':
+      return serializeBibtex(references)
+    case 'biblatex':
+      return serializeBibtex(references, { biblatex: true })
+    case 'ris':
+      return serializeRis(references)
+    case 'csl-json':
+      return serializeCslJson(references)
+  }
+}
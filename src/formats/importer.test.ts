@@ -0,0 +1,76 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { detectFormat, parseBibliography } from './importer'
+
+const BIBTEX = `@article{rosenblueth1943,
+  author = {Rosenblueth, Arturo and Wiener, Norbert and Bigelow, Julian},
+  title = {Behavior, Purpose and Teleology},
+  journal = {Philosophy of Science},
+  year = {1943},
+  volume = {10},
+  number = {1},
+  pages = {18--24},
+  doi = {10.1086/286788}
+}
+@book{hill79,
+  author = {Hill, Donald R. and others},
+  title = {The Book of Ingenious Devices ({Kit\\={a}b al-\\d{H}iyal})},
+  publisher = {Reidel},
+  year = 1979,
+  isbn = {90-277-0833-9}
+}
+@misc{broken,
+  note = {nothing}
+}`
+
+const RIS = `TY  - JOUR
+AU  - Shannon, Claude E.
+TI  - A Mathematical Theory of Communication
+JO  - Bell System Technical Journal
+PY  - 1948
+VL  - 27
+IS  - 3
+SP  - 379
+EP  - 423
+ER  - 
+`
+
+test('detects formats from the content', () => {
+  assert.equal(detectFormat(BIBTEX), 'bibtex')
+  assert.equal(detectFormat(RIS), 'ris')
+  assert.equal(detectFormat('[{"type": "book", "title": "Cybernetics"}]'), 'csl-json')
+})
+
+test('imports BibTeX with LaTeX accents, "and others" and entry issues', () => {
+  const { references, issues } = parseBibliography(BIBTEX, 'bibtex')
+  assert.equal(references.length, 2)
+
+  const [article, book] = references
+  assert.equal(article.citationKey, 'rosenblueth1943')
+  assert.equal(article.firstAuthor, 'Rosenblueth, Arturo')
+  assert.equal(article.otherAuthors, 'Wiener, Norbert; Bigelow, Julian')
+  assert.equal(article.volumeIssue, '10(1)')
+  assert.equal(article.pages, '18-24')
+  assert.equal(article.extraNotes, 'DOI: 10.1086/286788')
+  assert.equal(article.extractionMethod, 'import')
+
+  assert.equal(book.title, 'The Book of Ingenious Devices (Kitāb al-Ḥiyal)')
+  assert.equal(book.etAl, true)
+  assert.equal(book.isbn, '9027708339')
+
+  assert.deepEqual(issues.map(issue => [issue.index, issue.reason]), [[2, 'Entry has neither title nor author']])
+})
+
+test('imports RIS and gives keyless entries a Surname + year key', () => {
+  const [ref] = parseBibliography(RIS, 'ris').references
+  assert.equal(ref.citationKey, 'Shannon1948')
+  assert.equal(ref.publisherJournal, 'Bell System Technical Journal')
+  assert.equal(ref.volumeIssue, '27(3)')
+  assert.equal(ref.pages, '379-423')
+})
+
+test('imports CSL-JSON names and dates', () => {
+  const csl = JSON.stringify([{ id: 'x', type: 'book', title: 'Cybernetics', author: [{ family: 'Wiener', given: 'Norbert' }], issued: { 'date-parts': [[1948]] }, publisher: 'MIT Press' }])
+  const [ref] = parseBibliography(csl, 'csl-json').references
+  assert.deepEqual([ref.firstAuthor, ref.year, ref.publisherJournal], ['Wiener, Norbert', '1948', 'MIT Press'])
+})
@@ -0,0 +1,52 @@
+/**
+ * Bibliography import: format detection and dispatch to the format parsers
+ */
+
+import { ImportFormat, ParsedImport } from './common'
+import { parseBibtex } from './bibtex'
+import { parseRis } from './ris'
+import { parseCslJson } from './cslJson'
+import { parseEndnoteXml } from './endnoteXml'
+
+export type { ImportFormat, ImportIssue, ParsedImport } from './common'
+
+export const IMPORT_FORMATS: ImportFormat[] = ['bibtex', 'ris', 'csl-json', 'endnote-xml']
+
+const EXTENSIONS: Record<string, ImportFormat> = {
+  bib: 'bibtex',
+  bibtex: 'bibtex',
+  ris: 'ris',
+  json: 'csl-json',
+  xml: 'endnote-xml',
+}
+
+/**
+ * Guess the format from the file extension, then from the content
+ */
+export function detectFormat(content: string, filename?: string): ImportFormat | null {
+  const extension = (filename || '').split('.').pop()?.toLowerCase() || ''
+  if (EXTENSIONS[extension]) return EXTENSIONS[extension]
+
+  const start = content.replace(/^\uFEFF/, '').trimStart()
+  if (/^TY {2}- /m.test(start)) return 'ris'
+  if (start.startsWith('[') || start.startsWith('{')) return 'csl-json'
+  if (start.startsWith('<')) return /<records[\s>]|<record[\s>]/.test(start) ? 'endnote-xml' : null
+  if (/@\s*[a-zA-Z]+\s*[{(]/.test(start)) return 'bibtex'
+  return null
+}
+
+/**
+ * Parse a bibliography file in the given format
+ */
+export function parseBibliography(content: string, format: ImportFormat): ParsedImport {
+  switch (format) {
+    case 'bibtex':
+      return parseBibtex(content)
+    case 'ris':
+      return parseRis(content)
+    case 'csl-json':
+      return parseCslJson(content)
+    case 'endnote-xml':
+      return parseEndnoteXml(content)
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * RIS parsing and serialization ("TY  - JOUR" … "ER  - ")
+ */
+
+import { ExtractedReference } from '../types-simple'
+import {
+  ImportedFields, ParsedImport, ImportIssue, ReferenceKind,
+  finalizeImport, yearOf, preview, referenceToFields, stableCitationKeys,
+} from './common'
+import { parseAuthorName, fullFamilyName } from '../extraction/authors'
+
+const TAG_LINE = /^([A-Z][A-Z0-9])  -(?: (.*))?$/
+
+interface RisRecord {
+  tags: Record<string, string[]>
+  raw: string
+  index: number
+}
+
+/**
+ * Split a RIS file into records of tag → values (repeated tags such as AU keep every value)
+ */
+export function parseRisRecords(text: string): { records: RisRecord[]; issues: ImportIssue[] } {
+  const records: RisRecord[] = []
+  const issues: ImportIssue[] = []
+  let current: RisRecord | null = null
+  let lastTag = ''
+  let rawLines: string[] = []
+
+  for (const line of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const match = line.match(TAG_LINE)
+
+    if (!match) {
+      // Continuation of a long value (some exporters wrap N1/AB)
+      if (current && lastTag && line.trim()) {
+        const values = current.tags[lastTag]
+        values[values.length - 1] += ` ${line.trim()}`
+        rawLines.push(line)
+      }
+      continue
+    }
+
+    const tag = match[1]
+    const value = (match[2] || '').trim()
+
+    if (tag === 'TY') {
+      if (current) {
+        issues.push({ index: current.index, entry: preview(rawLines.join('\n')), reason: 'Record has no ER line' })
+      }
+      current = { tags: {}, raw: '', index: records.length + issues.length }
+      rawLines = []
+    }
+
+    if (!current) continue
+    rawLines.push(line)
+
+    if (tag === 'ER') {
+      current.raw = rawLines.join('\n')
+      records.push(current)
+      current = null
+      lastTag = ''
+      continue
+    }
+
+    if (!current.tags[tag]) current.tags[tag] = []
+    current.tags[tag].push(value)
+    lastTag = tag
+  }
+
+  if (current) {
+    issues.push({ index: current.index, entry: preview(rawLines.join('\n')), reason: 'Record has no ER line' })
+  }
+
+  return { records, issues }
+}
+
+function recordToFields(record: RisRecord): ImportedFields {
+  const first = (...tags: string[]) => {
+    for (const tag of tags) {
+      const value = (record.tags[tag] || []).find(v => v.length > 0)
+      if (value) return value
+    }
+    return ''
+  }
+  const all = (...tags: string[]) => tags.reduce<string[]>((values, tag) => values.concat(record.tags[tag] || []), [])
+
+  const type = first('TY')
+  const startPage = first('SP')
+  const endPage = first('EP')
+  // For books T2 is the series; for articles and chapters it is the journal / book title
+  const secondary = type === 'BOOK' ? '' : first('T2')
+
+  return {
+    key: first('ID'),
+    authors: all('AU', 'A1').filter(Boolean).map(parseAuthorName),
+    title: first('TI', 'T1', 'CT'),
+    year: yearOf(first('PY', 'Y1', 'DA')),
+    journal: first('JO', 'JF', 'JA', 'J2') || (type === 'JOUR' ? secondary : ''),
+    booktitle: first('BT') || (type !== 'JOUR' ? secondary : ''),
+    publisher: first('PB'),
+    volume: first('VL'),
+    issue: first('IS'),
+    pages: startPage && endPage ? `${startPage}-${endPage}` : startPage,
+    isbn: all('SN').join(' '),
+    doi: first('DO'),
+    url: first('UR', 'L2'),
+    note: first('N1'),
+    raw: record.raw,
+  }
+}
+
+/**
+ * Parse a RIS file into references
+ */
+export function parseRis(text: string): ParsedImport {
+  const { records, issues } = parseRisRecords(text)
+  return finalizeImport(records.map(record => ({ fields: recordToFields(record), index: record.index })), issues)
+}
+
+// ===========================================
+// SERIALIZATION
+// ===========================================
+
+const RIS_TYPES: Record<ReferenceKind, string> = {
+  article: 'JOUR',
+  inproceedings: 'CONF',
+  book: 'BOOK',
+  misc: 'GEN',
+}
+
+/**
+ * Serialize references as a RIS file
+ */
+export function serializeRis(references: ExtractedReference[]): string {
+  const keys = stableCitationKeys(references)
+
+  return references.map((ref, i) => {
+    const fields = referenceToFields(ref)
+    const lines: string[] = []
+    const add = (tag: string, value: string | undefined) => {
+      const flat = (value || '').replace(/\s+/g, ' ').trim()
+      if (flat) lines.push(`${tag}  - ${flat}`)
+    }
+
+    add('TY', RIS_TYPES[fields.kind])
+    add('ID', keys[i])
+    // "Lastname, Firstname, Suffix"
+    fields.authors.forEach(author => {
+      add('AU', author.literal ? author.family : [fullFamilyName(author), author.given, author.suffix].filter(Boolean).join(', '))
+    })
+    add('TI', fields.title)
+    add('T2', fields.journal || fields.booktitle)
+    add('PB', fields.publisher)
+    add('PY', yearOf(fields.year))
+    add('VL', fields.volume)
+    add('IS', fields.issue)
+    const [startPage, endPage] = (fields.pages || '').split('-')
+    add('SP', startPage)
+    add('EP', endPage)
+    add('SN', fields.isbn)
+    add('DO', fields.doi)
+    add('UR', fields.url)
+    add('N1', fields.note)
+    lines.push('ER  - ')
+
+    return lines.join('\n')
+  }).join('\n\n') + (references.length > 0 ? '\n' : '')
+}
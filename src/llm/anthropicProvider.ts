@@ -0,0 +1,112 @@
+/**
+ * Anthropic provider (Messages API over fetch)
+ */
+
+import { LLMProvider, LLMRequest, LLMResponse, LLMRequestError } from './types'
+
+const ANTHROPIC_BASE = 'https://api.anthropic.com/v1/messages'
+const ANTHROPIC_VERSION = '2023-06-01'
+const DEFAULT_MAX_TOKENS = 8192
+
+// The parts of a Messages API response read here
+interface TextBlock {
+  type: 'text'
+  text: string
+}
+
+interface ToolUseBlock {
+  type: 'tool_use'
+  name: string
+  input: unknown
+}
+
+interface MessagesResponse {
+  content?: (TextBlock | ToolUseBlock)[]
+  model?: string
+  stop_reason?: string | null
+  usage?: { input_tokens: number; output_tokens: number }
+}
+
+export function createAnthropicProvider(options: {
+  apiKey: string
+  model: string
+}): LLMProvider {
+  return {
+    name: 'anthropic',
+    model: options.model,
+    supportsJsonSchema: true,
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+      // No JSON mode in the Messages API - the instruction goes into the system prompt,
+      // and a schema is enforced by forcing a single tool call whose input is the payload
+      const system = request.json && !request.jsonSchema
+        ? `${request.system}\n\nRespond with a single JSON object and nothing else.`
+        : request.system
+      const tools = request.jsonSchema
+        ? {
+            tools: [{ name: request.jsonSchema.name, input_schema: request.jsonSchema.schema }],
+            tool_choice: { type: 'tool', name: request.jsonSchema.name },
+          }
+        : {}
+
+      const response = await fetch(ANTHROPIC_BASE, {
+        method: 'POST',
+        headers: {
+          'x-api-key': options.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: options.model,
+          max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+          temperature: request.temperature ?? 0,
+          system,
+          messages: [{ role: 'user', content: request.user }],
+          ...tools,
+        }),
+      })
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        throw new LLMRequestError(
+          `anthropic request failed: ${response.status} - ${errorText.substring(0, 200)}`,
+          response.status
+        )
+      }
+
+      const data = await response.json() as MessagesResponse
+      const blocks = data.content || []
+      const toolUse = blocks.find((block): block is ToolUseBlock => block.type === 'tool_use')
+      const text = blocks
+        .filter((block): block is TextBlock => block.type === 'text')
+        .map(block => block.text)
+        .join('')
+
+      let content: string
+      if (request.jsonSchema && toolUse) {
+        content = JSON.stringify(toolUse.input)
+      } else {
+        content = request.json || request.jsonSchema ? stripCodeFence(text) : text
+      }
+
+      return {
+        content,
+        model: data.model || options.model,
+        finishReason: data.stop_reason === 'end_turn' || data.stop_reason === 'tool_use'
+          ? 'stop'
+          : data.stop_reason === 'max_tokens' ? 'length' : 'other',
+        usage: data.usage
+          ? { inputTokens: data.usage.input_tokens, outputTokens: data.usage.output_tokens }
+          : undefined,
+      }
+    },
+  }
+}
+
+/**
+ * Remove a ```json ... ``` wrapper if the model added one
+ */
+function stripCodeFence(text: string): string {
+  const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/)
+  return match ? match[1] : text.trim()
+}
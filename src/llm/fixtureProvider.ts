@@ -0,0 +1,73 @@
+/**
+ * Fixture provider - deterministic, offline LLM stand-in
+ *
+ * Responses are stored as JSON files named by a hash of the request, so the same
+ * prompt always replays the same recorded response. When `recordFrom` is set,
+ * requests without a fixture are forwarded to that provider and recorded.
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+import { createHash } from 'crypto'
+import { info } from '../utils/logging'
+import { LLMProvider, LLMRequest, LLMResponse, LLMRequestError } from './types'
+
+interface Fixture {
+  request: {
+    system: string
+    user: string
+    json: boolean
+  }
+  response: LLMResponse
+}
+
+/**
+ * Stable key for a request (sampling parameters do not change the key)
+ */
+export function fixtureKey(request: LLMRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ system: request.system, user: request.user, json: !!request.json }))
+    .digest('hex')
+    .substring(0, 32)
+}
+
+export function createFixtureProvider(options: {
+  dir: string
+  recordFrom: LLMProvider | null
+}): LLMProvider {
+  return {
+    name: 'fixture',
+    model: options.recordFrom ? `fixture:${options.recordFrom.model}` : 'fixture',
+    supportsJsonSchema: options.recordFrom ? options.recordFrom.supportsJsonSchema : true,
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+      const key = fixtureKey(request)
+      const filePath = path.join(options.dir, `${key}.json`)
+
+      try {
+        const fixture = JSON.parse(await fs.readFile(filePath, 'utf-8')) as Fixture
+        info(`[Fixture] Replaying ${key}`)
+        return fixture.response
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw err
+        }
+      }
+
+      if (!options.recordFrom) {
+        // 404: a missing fixture will not appear on retry
+        throw new LLMRequestError(`No LLM fixture recorded for request ${key} (looked in ${options.dir})`, 404)
+      }
+
+      const response = await options.recordFrom.complete(request)
+      const fixture: Fixture = {
+        request: { system: request.system, user: request.user, json: !!request.json },
+        response,
+      }
+      await fs.mkdir(options.dir, { recursive: true })
+      await fs.writeFile(filePath, JSON.stringify(fixture, null, 2), 'utf-8')
+      info(`[Fixture] Recorded ${key} from ${options.recordFrom.name}`)
+      return response
+    },
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * OpenAI provider (also used for OpenAI-compatible servers via baseURL)
+ */
+
+import OpenAI from 'openai'
+import { LLMProvider, LLMProviderName, LLMRequest, LLMResponse, LLMRequestError, LLMConnectionError } from './types'
+
+export function createOpenAIProvider(options: {
+  name: Extract<LLMProviderName, 'openai' | 'openai-compatible'>
+  apiKey: string
+  model: string
+  baseURL?: string
+  structuredOutputs: boolean   // Server supports response_format: json_schema
+}): LLMProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL || undefined,
+    maxRetries: 0, // Retries are handled by completeWithRetry
+  })
+
+  return {
+    name: options.name,
+    model: options.model,
+    supportsJsonSchema: options.structuredOutputs,
+
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+      try {
+        const response = await client.chat.completions.create({
+          model: options.model,
+          messages: [
+            { role: 'system', content: request.system },
+            { role: 'user', content: request.user },
+          ],
+          temperature: request.temperature ?? 0,
+          max_tokens: request.maxTokens,
+          ...responseFormat(request, options.structuredOutputs),
+        })
+
+        const choice = response.choices[0]
+        return {
+          content: choice?.message?.content || '',
+          model: response.model || options.model,
+          finishReason: choice?.finish_reason === 'stop'
+            ? 'stop'
+            : choice?.finish_reason === 'length' ? 'length' : 'other',
+          usage: response.usage
+            ? { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens }
+            : undefined,
+        }
+      } catch (err) {
+        if (err instanceof OpenAI.APIConnectionError) {
+          throw new LLMConnectionError(`${options.name} request failed: ${err.message}`)
+        }
+        if (err instanceof OpenAI.APIError) {
+          throw new LLMRequestError(`${options.name} request failed: ${err.message}`, err.status)
+        }
+        throw err
+      }
+    },
+  }
+}
+
+/**
+ * response_format for the request: strict JSON schema when supported, else JSON mode
+ */
+function responseFormat(request: LLMRequest, structuredOutputs: boolean) {
+  if (request.jsonSchema && structuredOutputs) {
+    return {
+      response_format: {
+        type: 'json_schema' as const,
+        json_schema: { name: request.jsonSchema.name, schema: request.jsonSchema.schema, strict: true },
+      },
+    }
+  }
+  if (request.json || request.jsonSchema) {
+    return { response_format: { type: 'json_object' as const } }
+  }
+  return {}
+}
@@ -0,0 +1,93 @@
+/**
+ * LLM provider layer
+ *
+ * All LLM calls go through an LLMProvider so extraction can run against:
+ * - OpenAI (default)
+ * - Any OpenAI-compatible endpoint (Ollama, vLLM, LM Studio, ...) for on-prem use
+ * - Anthropic
+ * - A deterministic fixture provider that replays recorded responses (CI / offline)
+ *
+ * The provider is selected with LLM_PROVIDER in src/config.ts.
+ */
+
+import config from '../config'
+import { info, error as logError } from '../utils/logging'
+import { createOpenAIProvider } from './openaiProvider'
+import { createAnthropicProvider } from './anthropicProvider'
+import { createFixtureProvider } from './fixtureProvider'
+import { LLMProvider } from './types'
+
+export type { LLMProviderName, LLMRequest, LLMResponse, LLMProvider } from './types'
+export { LLMRequestError } from './types'
+
+let provider: LLMProvider | null | undefined
+
+/**
+ * Create a provider by name (null if it is not configured, e.g. missing API key)
+ */
+export function createProvider(name: string): LLMProvider | null {
+  switch (name) {
+    case 'openai':
+      if (!config.OPENAI_API_KEY) {
+        logError('OPENAI_API_KEY is not set - OpenAI provider is unavailable')
+        return null
+      }
+      return createOpenAIProvider({
+        name: 'openai',
+        apiKey: config.OPENAI_API_KEY,
+        model: config.OPENAI_MODEL,
+        structuredOutputs: true,
+      })
+
+    case 'openai-compatible':
+      if (!config.LLM_BASE_URL) {
+        logError('LLM_BASE_URL is not set - OpenAI-compatible provider is unavailable')
+        return null
+      }
+      return createOpenAIProvider({
+        name: 'openai-compatible',
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: config.LLM_API_KEY || 'not-needed',
+        baseURL: config.LLM_BASE_URL,
+        model: config.LLM_MODEL,
+        structuredOutputs: config.LLM_STRUCTURED_OUTPUTS,
+      })
+
+    case 'anthropic':
+      if (!config.ANTHROPIC_API_KEY) {
+        logError('ANTHROPIC_API_KEY is not set - Anthropic provider is unavailable')
+        return null
+      }
+      return createAnthropicProvider({
+        apiKey: config.ANTHROPIC_API_KEY,
+        model: config.ANTHROPIC_MODEL,
+      })
+
+    case 'fixture': {
+      const recordFrom = config.LLM_FIXTURE_RECORD_FROM
+        ? createProvider(config.LLM_FIXTURE_RECORD_FROM)
+        : null
+      return createFixtureProvider({
+        dir: config.LLM_FIXTURE_DIR,
+        recordFrom,
+      })
+    }
+
+    default:
+      logError(`Unknown LLM_PROVIDER "${name}" (expected openai, openai-compatible, anthropic or fixture)`)
+      return null
+  }
+}
+
+/**
+ * Get the configured provider (created once, reused for all calls)
+ */
+export function getLLMProvider(): LLMProvider | null {
+  if (provider === undefined) {
+    provider = createProvider(config.LLM_PROVIDER)
+    if (provider) {
+      info(`LLM provider: ${provider.name} (${provider.model})`)
+    }
+  }
+  return provider
+}
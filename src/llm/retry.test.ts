@@ -0,0 +1,88 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import config from '../config'
+import { isRetryableError, backoffDelay, completeWithRetry, createUsage } from './retry'
+import { createFixtureProvider } from './fixtureProvider'
+import { LLMProvider, LLMRequest, LLMResponse, LLMRequestError, LLMConnectionError } from './types'
+
+config.LLM_MAX_RETRIES = 3
+config.LLM_RETRY_BASE_MS = 1
+config.LLM_RETRY_MAX_MS = 5
+
+const REQUEST: LLMRequest = { system: 'Extract references', user: 'Wiener, N. (1948). Cybernetics.', json: true }
+const RESPONSE: LLMResponse = { content: '{"references":[]}', model: 'test', finishReason: 'stop', usage: { inputTokens: 1000, outputTokens: 200 } }
+
+/**
+ * Provider that fails with the given errors in turn, then answers
+ */
+function failing(errors: Error[]): LLMProvider & { calls: number } {
+  const provider = {
+    name: 'fixture' as const,
+    model: 'test',
+    supportsJsonSchema: true,
+    calls: 0,
+    async complete(): Promise<LLMResponse> {
+      const err = errors[provider.calls++]
+      if (err) throw err
+      return RESPONSE
+    },
+  }
+  return provider
+}
+
+test('retries rate limits, server errors and network failures only', () => {
+  assert.equal(isRetryableError(new LLMRequestError('rate limited', 429)), true)
+  assert.equal(isRetryableError(new LLMRequestError('overloaded', 529)), true)
+  assert.equal(isRetryableError(new LLMConnectionError('connection reset')), true)
+  assert.equal(isRetryableError(new TypeError('fetch failed')), true)
+  assert.equal(isRetryableError(new LLMRequestError('bad request', 400)), false)
+  assert.equal(isRetryableError(new LLMRequestError('no status')), false)
+  assert.equal(isRetryableError(new Error('unknown')), false)
+})
+
+test('gives up on a missing fixture at once', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-fixtures-'))
+  try {
+    let calls = 0
+    const fixtures = createFixtureProvider({ dir, recordFrom: null })
+    const counting: LLMProvider = { ...fixtures, complete: request => { calls++; return fixtures.complete(request) } }
+    const usage = createUsage()
+
+    await assert.rejects(completeWithRetry(counting, REQUEST, usage), /No LLM fixture recorded/)
+    assert.equal(calls, 1)
+    assert.equal(usage.retries, 0)
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true })
+  }
+})
+
+test('keeps the backoff delay within the doubling ceiling and the cap', () => {
+  for (let attempt = 0; attempt < 8; attempt++) {
+    const delay = backoffDelay(attempt, 100, 1000)
+    assert.ok(delay >= 0 && delay <= Math.min(1000, 100 * Math.pow(2, attempt)), `attempt ${attempt}: ${delay}`)
+  }
+})
+
+test('retries until the call succeeds and counts the retries', async () => {
+  const provider = failing([new LLMRequestError('rate limited', 429), new TypeError('fetch failed')])
+  const usage = createUsage()
+  assert.deepEqual(await completeWithRetry(provider, REQUEST, usage), RESPONSE)
+  assert.equal(provider.calls, 3)
+  assert.equal(usage.retries, 2)
+  assert.equal(usage.calls, 1)
+  assert.equal(usage.inputTokens, 1000)
+})
+
+test('gives up after LLM_MAX_RETRIES and on errors that are not retryable', async () => {
+  const overloaded = failing(Array.from({ length: 10 }, () => new LLMRequestError('overloaded', 503)))
+  await assert.rejects(completeWithRetry(overloaded, REQUEST), /overloaded/)
+  assert.equal(overloaded.calls, config.LLM_MAX_RETRIES + 1)
+
+  const badRequest = failing([new LLMRequestError('bad request', 400)])
+  await assert.rejects(completeWithRetry(badRequest, REQUEST), /bad request/)
+  assert.equal(badRequest.calls, 1)
+})
+
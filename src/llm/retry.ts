@@ -0,0 +1,88 @@
+/**
+ * Retry with exponential backoff + jitter for LLM calls, and token/cost accounting
+ */
+
+import config from '../config'
+import { warn } from '../utils/logging'
+import { LLMUsage } from '../types-simple'
+import { LLMProvider, LLMRequest, LLMResponse, LLMRequestError, LLMConnectionError } from './types'
+
+/**
+ * Rate limits, server errors and network failures are worth retrying; bad requests are not,
+ * and neither is anything else that cannot be classified
+ */
+export function isRetryableError(err: unknown): boolean {
+  if (err instanceof LLMConnectionError) return true
+  if (err instanceof LLMRequestError) {
+    if (err.status === undefined) return false
+    return err.status === 408 || err.status === 429 || err.status >= 500
+  }
+  // fetch() network failures surface as TypeError
+  return err instanceof TypeError
+}
+
+/**
+ * Exponential backoff with full jitter: random delay in [0, base * 2^attempt], capped
+ */
+export function backoffDelay(attempt: number, baseMs: number = config.LLM_RETRY_BASE_MS, maxMs: number = config.LLM_RETRY_MAX_MS): number {
+  const ceiling = Math.min(maxMs, baseMs * Math.pow(2, attempt))
+  return Math.round(Math.random() * ceiling)
+}
+
+async function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Empty usage record for a job
+ */
+export function createUsage(): LLMUsage {
+  return {
+    calls: 0,
+    retries: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    estimatedCostUsd: 0,
+  }
+}
+
+/**
+ * Add one response's token counts (and estimated cost) to a usage record
+ */
+export function recordUsage(usage: LLMUsage, response: LLMResponse): void {
+  usage.calls++
+  if (!response.usage) return
+  usage.inputTokens += response.usage.inputTokens
+  usage.outputTokens += response.usage.outputTokens
+  const cost =
+    (response.usage.inputTokens / 1000000) * config.LLM_INPUT_COST_PER_MTOK +
+    (response.usage.outputTokens / 1000000) * config.LLM_OUTPUT_COST_PER_MTOK
+  usage.estimatedCostUsd = Math.round((usage.estimatedCostUsd + cost) * 1000000) / 1000000
+}
+
+/**
+ * Call the provider, retrying retryable failures; records usage when `usage` is given
+ */
+export async function completeWithRetry(
+  provider: LLMProvider,
+  request: LLMRequest,
+  usage?: LLMUsage
+): Promise<LLMResponse> {
+  const maxRetries = config.LLM_MAX_RETRIES
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await provider.complete(request)
+      if (usage) recordUsage(usage, response)
+      return response
+    } catch (err) {
+      if (attempt >= maxRetries || !isRetryableError(err)) {
+        throw err
+      }
+      const wait = backoffDelay(attempt)
+      if (usage) usage.retries++
+      warn(`LLM call failed (${err instanceof Error ? err.message : String(err)}), retry ${attempt + 1}/${maxRetries} in ${wait}ms`)
+      await sleep(wait)
+    }
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Types shared by all LLM providers
+ */
+
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'anthropic' | 'fixture'
+
+export interface LLMRequest {
+  system: string
+  user: string
+  temperature?: number
+  maxTokens?: number
+  json?: boolean             // Ask for a JSON object response
+  jsonSchema?: {             // Structured output (implies json) where the provider supports it
+    name: string
+    schema: Record<string, unknown>
+  }
+}
+
+export interface LLMResponse {
+  content: string
+  model: string
+  finishReason: 'stop' | 'length' | 'other'
+  usage?: {
+    inputTokens: number
+    outputTokens: number
+  }
+}
+
+export interface LLMProvider {
+  name: LLMProviderName
+  model: string
+  supportsJsonSchema: boolean   // Whether jsonSchema is enforced (otherwise plain JSON mode)
+  complete(request: LLMRequest): Promise<LLMResponse>
+}
+
+/**
+ * Error raised by providers for failed requests (keeps the HTTP status when known)
+ */
+export class LLMRequestError extends Error {
+  status?: number
+
+  constructor(message: string, status?: number) {
+    super(message)
+    this.name = 'LLMRequestError'
+    this.status = status
+  }
+}
+
+/**
+ * The provider could not be reached (connection refused or reset, timeout)
+ */
+export class LLMConnectionError extends LLMRequestError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LLMConnectionError'
+  }
+}
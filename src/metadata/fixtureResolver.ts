@@ -0,0 +1,52 @@
+/**
+ * Fixture resolver - deterministic, offline metadata source
+ *
+ * Records are JSON files at <dir>/<type>/<id>.json holding a ResolvedWork, or `null` for
+ * an identifier known to have no record. When `recordFrom` is set, identifiers without a
+ * fixture are resolved through that resolver and recorded.
+ */
+
+import fs from 'fs/promises'
+import path from 'path'
+import { info } from '../utils/logging'
+import { Identifier, MetadataResolver, ResolvedWork, MetadataLookupError } from './types'
+
+/**
+ * Fixture file for an identifier (IDs like "hep-th/9901001" are made filename-safe)
+ */
+export function fixturePath(dir: string, identifier: Identifier): string {
+  return path.join(dir, identifier.type, `${identifier.value.replace(/[^\w.-]/g, '_')}.json`)
+}
+
+export function createFixtureResolver(options: {
+  dir: string
+  recordFrom: MetadataResolver | null
+}): MetadataResolver {
+  return {
+    name: options.recordFrom ? `fixture:${options.recordFrom.name}` : 'fixture',
+
+    async resolve(identifier: Identifier): Promise<ResolvedWork | null> {
+      const filePath = fixturePath(options.dir, identifier)
+
+      try {
+        const work = JSON.parse(await fs.readFile(filePath, 'utf-8')) as ResolvedWork | null
+        info(`[Fixture] Replaying ${identifier.type}:${identifier.value}`)
+        return work
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw err
+        }
+      }
+
+      if (!options.recordFrom) {
+        throw new MetadataLookupError(`No metadata fixture for ${identifier.type}:${identifier.value} (looked in ${filePath})`)
+      }
+
+      const work = await options.recordFrom.resolve(identifier)
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.writeFile(filePath, JSON.stringify(work, null, 2), 'utf-8')
+      info(`[Fixture] Recorded ${identifier.type}:${identifier.value} from ${options.recordFrom.name}`)
+      return work
+    },
+  }
+}
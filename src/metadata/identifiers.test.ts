@@ -0,0 +1,20 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseIdentifier, splitIdentifierList } from './identifiers'
+
+test('recognises prefixed and URL forms', () => {
+  assert.deepEqual(parseIdentifier('https://doi.org/10.1038/NATURE14539.'), { type: 'doi', value: '10.1038/nature14539', raw: 'https://doi.org/10.1038/NATURE14539.' })
+  assert.equal(parseIdentifier('arXiv:1706.03762v5')?.value, '1706.03762v5')
+  assert.equal(parseIdentifier('PMID: 31452104')?.value, '31452104')
+  assert.equal(parseIdentifier('https://pubmed.ncbi.nlm.nih.gov/31452104/')?.type, 'pmid')
+  assert.equal(parseIdentifier('978-0-262-03384-8')?.value, '9780262033848')
+})
+
+test('does not read a bare number as a PubMed ID', () => {
+  assert.equal(parseIdentifier('31452104'), null)
+  assert.equal(parseIdentifier('1948'), null)
+})
+
+test('keeps prefixed identifiers whole when splitting a list', () => {
+  assert.deepEqual(splitIdentifierList('PMID: 31452104\n10.1038/nature14539, arXiv:1706.03762'), ['PMID: 31452104', '10.1038/nature14539', 'arXiv:1706.03762'])
+})
@@ -0,0 +1,73 @@
+/**
+ * Identifier parsing: DOI, arXiv ID, PubMed ID and ISBN
+ * Accepts bare identifiers, prefixed forms ("doi:", "arXiv:", "PMID:", "ISBN:") and resolver URLs.
+ * PubMed IDs need the prefix or a PubMed URL: a bare number is too easily something else.
+ */
+
+import { isValidIsbn } from '../extraction/confidence'
+import { Identifier } from './types'
+
+const DOI = /^(?:doi:\s*|https?:\/\/(?:dx\.)?doi\.org\/)?(10\.\d{4,9}\/\S+)$/i
+const ARXIV = /^(?:arxiv:\s*|https?:\/\/arxiv\.org\/(?:abs|pdf)\/)?(\d{4}\.\d{4,5}(?:v\d+)?|[a-z-]+(?:\.[a-z]{2})?\/\d{7}(?:v\d+)?)(?:\.pdf)?$/i
+const PMID = /^(?:pmid:?\s*|https?:\/\/pubmed\.ncbi\.nlm\.nih\.gov\/)(\d{1,8})\/?$/i
+const ISBN_PREFIX = /^isbn(?:-1[03])?:?\s*/i
+
+/**
+ * Parse one identifier; null if it is not recognised
+ */
+export function parseIdentifier(input: string): Identifier | null {
+  const raw = input.trim()
+  if (!raw) return null
+
+  // ISBN first: an explicit prefix or a 10/13-character string with a valid checksum
+  const isbn = raw.replace(ISBN_PREFIX, '').replace(/[\s-]/g, '').toUpperCase()
+  if (/^(\d{9}[\dX]|\d{13})$/.test(isbn) && (ISBN_PREFIX.test(raw) || isValidIsbn(isbn))) {
+    return isValidIsbn(isbn) ? { type: 'isbn', value: isbn, raw } : null
+  }
+
+  const doi = raw.match(DOI)
+  if (doi) {
+    // DOIs are case-insensitive; trailing punctuation usually comes from copy-pasting prose
+    return { type: 'doi', value: doi[1].replace(/[.,;]+$/, '').toLowerCase(), raw }
+  }
+
+  const arxiv = raw.match(ARXIV)
+  if (arxiv) {
+    return { type: 'arxiv', value: arxiv[1], raw }
+  }
+
+  const pmid = raw.match(PMID)
+  if (pmid) {
+    return { type: 'pmid', value: pmid[1], raw }
+  }
+
+  return null
+}
+
+/**
+ * Split free text (one identifier per line, or comma/whitespace separated) into identifiers
+ */
+export function splitIdentifierList(text: string): string[] {
+  return text
+    .split(/[\n,;]+/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    // Keep lines like "PMID: 123" or "ISBN 978 0 262 03384 8" whole; otherwise a line may hold several IDs
+    .reduce<string[]>((all, line) => all.concat(parseIdentifier(line) ? [line] : line.split(/\s+/)), [])
+}
+
+/**
+ * Canonical label, also used as the citation key of resolved references
+ */
+export function formatIdentifier(identifier: Identifier): string {
+  switch (identifier.type) {
+    case 'doi':
+      return `doi:${identifier.value}`
+    case 'arxiv':
+      return `arXiv:${identifier.value}`
+    case 'pmid':
+      return `PMID:${identifier.value}`
+    case 'isbn':
+      return `ISBN:${identifier.value}`
+  }
+}
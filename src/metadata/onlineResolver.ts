@@ -0,0 +1,257 @@
+/**
+ * Online metadata resolver
+ * - DOI:   Crossref REST API
+ * - arXiv: arXiv export API (Atom)
+ * - PMID:  NCBI E-utilities esummary
+ * - ISBN:  Open Library Books API
+ */
+
+import { Identifier, MetadataResolver, ResolvedWork, MetadataLookupError } from './types'
+
+const CROSSREF_BASE = 'https://api.crossref.org/works'
+const ARXIV_BASE = 'http://export.arxiv.org/api/query'
+const PUBMED_BASE = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esummary.fcgi'
+const OPENLIBRARY_BASE = 'https://openlibrary.org/api/books'
+
+const USER_AGENT = 'BiblioAI/1.0 (Reference Extraction)'
+
+// The parts of the API responses read here
+interface CrossrefDate {
+  'date-parts'?: (number | null)[][]
+}
+
+interface CrossrefWork {
+  title?: string[]
+  subtitle?: string[]
+  author?: { family?: string; given?: string; name?: string }[]
+  issued?: CrossrefDate
+  'published-print'?: CrossrefDate
+  'published-online'?: CrossrefDate
+  'container-title'?: string[]
+  publisher?: string
+  volume?: string
+  issue?: string
+  page?: string
+  ISBN?: string[]
+  DOI?: string
+  URL?: string
+}
+
+interface CrossrefResponse {
+  message?: unknown
+}
+
+interface PubmedRecord {
+  error?: string
+  title?: string
+  authors?: { name?: string; authtype?: string }[]
+  articleids?: { idtype: string; value: string }[]
+  pubdate?: string
+  epubdate?: string
+  fulljournalname?: string
+  source?: string
+  volume?: string
+  issue?: string
+  pages?: string
+}
+
+interface PubmedSummary {
+  result?: Record<string, PubmedRecord | undefined>
+}
+
+interface OpenLibraryBook {
+  title?: string
+  subtitle?: string
+  authors?: { name?: string }[]
+  publish_date?: string
+  publishers?: { name?: string }[]
+  url?: string
+}
+
+type OpenLibraryBooks = Record<string, OpenLibraryBook | undefined>
+
+export function createOnlineResolver(options: {
+  timeoutMs: number
+  mailto?: string            // Crossref "polite pool" contact
+}): MetadataResolver {
+  const userAgent = options.mailto ? `${USER_AGENT} (mailto:${options.mailto})` : USER_AGENT
+
+  /**
+   * GET a URL; null on 404, MetadataLookupError on other failures
+   */
+  async function get(url: string): Promise<Response | null> {
+    let response: Response
+    try {
+      response = await fetch(url, {
+        headers: { 'User-Agent': userAgent },
+        signal: AbortSignal.timeout(options.timeoutMs),
+      })
+    } catch (err) {
+      throw new MetadataLookupError(`Request to ${new URL(url).host} failed: ${err instanceof Error ? err.message : String(err)}`)
+    }
+
+    if (response.status === 404) return null
+    if (!response.ok) {
+      throw new MetadataLookupError(`${new URL(url).host} returned ${response.status}`, response.status)
+    }
+    return response
+  }
+
+  return {
+    name: 'online',
+
+    async resolve(identifier: Identifier): Promise<ResolvedWork | null> {
+      switch (identifier.type) {
+        case 'doi': {
+          const response = await get(`${CROSSREF_BASE}/${encodeURIComponent(identifier.value)}`)
+          if (!response) return null
+          const body = await response.json() as CrossrefResponse
+          return isObject(body) && isObject(body.message) ? fromCrossref(body.message as CrossrefWork) : null
+        }
+        case 'arxiv': {
+          const response = await get(`${ARXIV_BASE}?id_list=${encodeURIComponent(identifier.value)}`)
+          return response ? fromArxivAtom(await response.text(), identifier.value) : null
+        }
+        case 'pmid': {
+          const response = await get(`${PUBMED_BASE}?db=pubmed&retmode=json&id=${identifier.value}`)
+          if (!response) return null
+          const body: unknown = await response.json()
+          return isObject(body) ? fromPubmedSummary(body as PubmedSummary, identifier.value) : null
+        }
+        case 'isbn': {
+          const response = await get(`${OPENLIBRARY_BASE}?bibkeys=ISBN:${identifier.value}&format=json&jscmd=data`)
+          if (!response) return null
+          const body: unknown = await response.json()
+          return isObject(body) ? fromOpenLibrary(body as OpenLibraryBooks, identifier.value) : null
+        }
+      }
+    },
+  }
+}
+
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function emptyWork(): ResolvedWork {
+  return { title: '', authors: [], year: '', container: '', volume: '', issue: '', pages: '', isbn: '', doi: '', url: '' }
+}
+
+/**
+ * "Given Surname" → "Surname, Given" (names already containing a comma are kept)
+ */
+export function invertName(name: string): string {
+  const trimmed = name.trim().replace(/\s+/g, ' ')
+  if (!trimmed || trimmed.includes(',')) return trimmed
+  const parts = trimmed.split(' ')
+  if (parts.length < 2) return trimmed
+  return `${parts[parts.length - 1]}, ${parts.slice(0, -1).join(' ')}`
+}
+
+function firstYear(text: string | undefined): string {
+  const match = (text || '').match(/\b(1[5-9]\d{2}|20\d{2})\b/)
+  return match ? match[1] : ''
+}
+
+function fromCrossref(message: CrossrefWork): ResolvedWork {
+  const dateParts = (message.issued || message['published-print'] || message['published-online'] || {})['date-parts']
+
+  return {
+    ...emptyWork(),
+    title: [(message.title || [])[0], (message.subtitle || [])[0]].filter(Boolean).join(': '),
+    authors: (message.author || []).map(a =>
+      a.family ? [a.family, a.given].filter(Boolean).join(', ') : a.name || ''
+    ).filter(Boolean),
+    year: dateParts && dateParts[0] && dateParts[0][0] ? String(dateParts[0][0]) : '',
+    container: (message['container-title'] || [])[0] || message.publisher || '',
+    volume: message.volume || '',
+    issue: message.issue || '',
+    pages: message.page || '',
+    isbn: (message.ISBN || [])[0] || '',
+    doi: message.DOI || '',
+    url: message.URL || '',
+  }
+}
+
+/**
+ * Text content of the first <tag>…</tag> in an XML fragment
+ */
+function xmlText(xml: string, tag: string): string {
+  const match = xml.match(new RegExp(`<${tag}[^>]*>([\\s\\S]*?)</${tag}>`))
+  return match ? decodeXml(match[1]).replace(/\s+/g, ' ').trim() : ''
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+function fromArxivAtom(xml: string, id: string): ResolvedWork | null {
+  const entryMatch = xml.match(/<entry>([\s\S]*?)<\/entry>/)
+  if (!entryMatch) return null
+  const entry = entryMatch[1]
+
+  // Unknown IDs come back as a single entry titled "Error"
+  const title = xmlText(entry, 'title')
+  if (!title || title === 'Error') return null
+
+  const authors: string[] = []
+  const authorPattern = /<author>\s*<name>([\s\S]*?)<\/name>/g
+  let match: RegExpExecArray | null
+  while ((match = authorPattern.exec(entry)) !== null) {
+    authors.push(invertName(decodeXml(match[1])))
+  }
+
+  return {
+    ...emptyWork(),
+    title,
+    authors,
+    year: firstYear(xmlText(entry, 'published')),
+    container: xmlText(entry, 'arxiv:journal_ref') || 'arXiv',
+    doi: xmlText(entry, 'arxiv:doi'),
+    url: `https://arxiv.org/abs/${id}`,
+  }
+}
+
+function fromPubmedSummary(data: PubmedSummary, pmid: string): ResolvedWork | null {
+  const record = data.result?.[pmid]
+  if (!record || record.error || !record.title) return null
+
+  const doi = (record.articleids || []).find(a => a.idtype === 'doi')
+
+  return {
+    ...emptyWork(),
+    title: String(record.title).replace(/\.$/, ''),
+    // PubMed names are "Surname Initials"
+    authors: (record.authors || [])
+      .filter(a => a.authtype !== 'CollectiveName' || a.name)
+      .map(a => String(a.name || '').replace(/^(.+) ([A-Z]+)$/, '$1, $2'))
+      .filter(Boolean),
+    year: firstYear(record.pubdate || record.epubdate),
+    container: record.fulljournalname || record.source || '',
+    volume: record.volume || '',
+    issue: record.issue || '',
+    pages: record.pages || '',
+    doi: doi ? doi.value : '',
+    url: `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`,
+  }
+}
+
+function fromOpenLibrary(data: OpenLibraryBooks, isbn: string): ResolvedWork | null {
+  const record = data[`ISBN:${isbn}`]
+  if (!record || !record.title) return null
+
+  return {
+    ...emptyWork(),
+    title: [record.title, record.subtitle].filter(Boolean).join(': '),
+    authors: (record.authors || []).map(a => invertName(a.name || '')).filter(Boolean),
+    year: firstYear(record.publish_date),
+    container: (record.publishers || []).map(p => p.name).filter(Boolean).join('; '),
+    isbn,
+    url: record.url || '',
+  }
+}
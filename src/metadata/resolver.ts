@@ -0,0 +1,60 @@
+/**
+ * Metadata resolver layer
+ *
+ * Identifier ingestion (DOI, arXiv, PMID, ISBN) looks records up through a MetadataResolver:
+ * - online (default): Crossref, arXiv, PubMed and Open Library
+ * - fixture: replays recorded records from disk (CI / offline)
+ *
+ * The resolver is selected with METADATA_RESOLVER in src/config.ts.
+ */
+
+import config from '../config'
+import { info, error as logError } from '../utils/logging'
+import { createOnlineResolver } from './onlineResolver'
+import { createFixtureResolver } from './fixtureResolver'
+import { MetadataResolver } from './types'
+
+export type { Identifier, IdentifierType, MetadataResolverName, MetadataResolver, ResolvedWork } from './types'
+export { MetadataLookupError } from './types'
+
+let resolver: MetadataResolver | null | undefined
+
+/**
+ * Create a resolver by name (null for unknown names)
+ */
+export function createResolver(name: string): MetadataResolver | null {
+  switch (name) {
+    case 'online':
+      return createOnlineResolver({
+        timeoutMs: config.METADATA_TIMEOUT_MS,
+        mailto: config.CROSSREF_MAILTO || undefined,
+      })
+
+    case 'fixture': {
+      const recordFrom = config.METADATA_FIXTURE_RECORD_FROM
+        ? createResolver(config.METADATA_FIXTURE_RECORD_FROM)
+        : null
+      return createFixtureResolver({
+        dir: config.METADATA_FIXTURE_DIR,
+        recordFrom,
+      })
+    }
+
+    default:
+      logError(`Unknown METADATA_RESOLVER "${name}" (expected online or fixture)`)
+      return null
+  }
+}
+
+/**
+ * Get the configured resolver (created once, reused for all lookups)
+ */
+export function getMetadataResolver(): MetadataResolver | null {
+  if (resolver === undefined) {
+    resolver = createResolver(config.METADATA_RESOLVER)
+    if (resolver) {
+      info(`Metadata resolver: ${resolver.name}`)
+    }
+  }
+  return resolver
+}
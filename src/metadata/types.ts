@@ -0,0 +1,48 @@
+/**
+ * Metadata resolver types
+ */
+
+export type IdentifierType = 'doi' | 'arxiv' | 'pmid' | 'isbn'
+
+export type MetadataResolverName = 'online' | 'fixture'
+
+export interface Identifier {
+  type: IdentifierType
+  value: string              // Canonical form, e.g. "10.1145/3368089.3409741", "1706.03762", "9780262033848"
+  raw: string                // As supplied by the user
+}
+
+/**
+ * Bibliographic record returned by a resolver (source-independent)
+ */
+export interface ResolvedWork {
+  title: string
+  authors: string[]          // "Surname, Given" where the source allows it
+  year: string
+  container: string          // Journal, proceedings, publisher or archive
+  volume: string
+  issue: string
+  pages: string
+  isbn: string
+  doi: string
+  url: string
+}
+
+export interface MetadataResolver {
+  name: string
+  /** Resolve one identifier; null when the source has no record for it */
+  resolve(identifier: Identifier): Promise<ResolvedWork | null>
+}
+
+/**
+ * Lookup failure other than "not found" (network error, HTTP error, bad payload)
+ */
+export class MetadataLookupError extends Error {
+  status?: number
+
+  constructor(message: string, status?: number) {
+    super(message)
+    this.name = 'MetadataLookupError'
+    this.status = status
+  }
+}
@@ -0,0 +1,64 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { locateBibliography, referenceDensity } from './bibliography'
+
+const BODY = `Introduction
+Feedback control is older than the word cybernetics.
+The references below trace it from water clocks
+to the governors of steam engines and
+to the anti-aircraft predictors of the war.`
+
+const ENTRIES = `Wiener, N. (1948). Cybernetics. MIT Press.
+Hill, D. R. (1979). The book of ingenious devices. Reidel.
+Mitchell, T. M. (1997). Machine learning. McGraw Hill.
+Rosenblueth, A., Wiener, N., & Bigelow, J. (1943). Behavior, purpose and teleology. Philosophy of Science, 10(1), 18-24.`
+
+test('measures how much of a text looks like reference entries', () => {
+  assert.equal(referenceDensity(ENTRIES), 1)
+  assert.equal(referenceDensity(BODY), 0)
+  assert.equal(referenceDensity('Wiener, N. (1948).'), 0)
+})
+
+test('finds nothing in a document without a references heading', () => {
+  assert.deepEqual(locateBibliography([{ page: 1, text: BODY }, { page: 2, text: ENTRIES }]), [])
+})
+
+test('ignores "references" in running text and table-of-contents headings', () => {
+  const contents = `Contents
+1. Introduction
+2. Feedback
+References
+Index`
+  const pages = [
+    { page: 1, text: contents },
+    { page: 2, text: `${BODY}\nAs the references show, the idea is old.` },
+    { page: 3, text: `References\n${ENTRIES}` },
+  ]
+  const sections = locateBibliography(pages)
+  assert.equal(sections.length, 1)
+  assert.deepEqual([sections[0].heading, sections[0].startPage, sections[0].endPage], ['References', 3, 3])
+})
+
+test('follows a bibliography across pages, skipping running headers', () => {
+  const [first, second] = [ENTRIES.split('\n').slice(0, 2).join('\n'), ENTRIES.split('\n').slice(2).join('\n')]
+  const sections = locateBibliography([
+    { page: 4, text: `${BODY}\n\n7. References\n${first}\nShannon, C. E. (1948). A mathematical theory of communication.` },
+    { page: 5, text: `References\n${second}` },
+    { page: 6, text: `Index\nfeedback, 3\ngovernor, 4` },
+  ])
+  assert.equal(sections.length, 1)
+  assert.equal(sections[0].heading, '7. References')
+  assert.deepEqual([sections[0].startPage, sections[0].endPage], [4, 5])
+  assert.match(sections[0].text, /^Wiener, N\./)
+  assert.match(sections[0].text, /18-24\.$/)
+  assert.doesNotMatch(sections[0].text, /^References$/m)
+})
+
+test('ends a bibliography at the next chapter and finds the next one', () => {
+  const sections = locateBibliography([
+    { page: 10, text: `Bibliography\n${ENTRIES}\nChapter 2\n${BODY}` },
+    { page: 11, text: `Works Cited\n${ENTRIES}` },
+  ])
+  assert.deepEqual(sections.map(section => [section.heading, section.startPage, section.endPage]), [['Bibliography', 10, 10], ['Works Cited', 11, 11]])
+  assert.doesNotMatch(sections[0].text, /Chapter 2/)
+})
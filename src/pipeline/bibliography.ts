@@ -0,0 +1,157 @@
+/**
+ * Bibliography locator
+ * Finds the References / Bibliography / Works Cited section(s) in extracted PDF pages
+ * so only those spans are sent to the LLM.
+ *
+ * Handles:
+ * - A single bibliography at the end of a paper or book
+ * - Per-chapter bibliographies in edited volumes (one section per chapter)
+ * - Running headers ("References" repeated at the top of every page)
+ * - Table-of-contents entries that mention "References" (rejected by content check)
+ */
+
+import { BibliographySection } from '../types-simple'
+import { info, warn } from '../utils/logging'
+
+export interface LocatedBibliography extends BibliographySection {
+  text: string
+}
+
+interface PageText {
+  page: number
+  text: string
+}
+
+// Headings that open a bibliography (optionally numbered, e.g. "7. References")
+const BIBLIOGRAPHY_HEADING = /^(?:\d+(?:\.\d+)*\.?\s+|[IVXLC]+\.\s+)?(references(?:\s+and\s+notes)?|bibliography|select(?:ed)?\s+bibliography|works\s+cited|literature\s+cited|cited\s+literature|references\s+cited|sources|notes\s+and\s+references|literaturverzeichnis|literatur|bibliographie|références|referencias)\s*:?$/i
+
+// Headings that close a bibliography (next chapter, back matter)
+const SECTION_END_HEADING = /^(?:chapter\s+(?:\d+|[ivxlc]+|[a-z]+)\b.*|appendix(?:\s+[a-z0-9]+)?\b.*|appendices|index|subject\s+index|author\s+index|name\s+index|about\s+the\s+authors?|notes\s+on\s+contributors|list\s+of\s+contributors|acknowledge?ments?|glossary)\s*:?$/i
+
+// Signals that a line belongs to a reference entry
+const YEAR_PATTERN = /(?:^|[^\d])(1[5-9]\d{2}|20\d{2})[a-z]?(?:[^\d]|$)/
+const ENTRY_START_PATTERN = /^\s*(?:\[[^\]]{1,25}\]|\(\d{1,3}\)|\d{1,3}\.\s)/
+const BIBLIO_MARKERS = /\b(?:pp?\.\s*\d|vol\.|doi|isbn|issn|proc\.|proceedings|journal|press|eds?\.|in:|university)\b/i
+
+// Minimum share of reference-like lines for a page (or span) to count as bibliography
+const MIN_REFERENCE_DENSITY = 0.25
+const MIN_LINES_FOR_DENSITY = 3
+const MAX_HEADING_LENGTH = 60
+
+/**
+ * Share of non-empty lines that look like they belong to a reference entry
+ */
+export function referenceDensity(text: string): number {
+  const lines = text.split('\n').map(l => l.trim()).filter(l => l.length > 0)
+  if (lines.length < MIN_LINES_FOR_DENSITY) return 0
+
+  const referenceLike = lines.filter(line =>
+    YEAR_PATTERN.test(line) || ENTRY_START_PATTERN.test(line) || BIBLIO_MARKERS.test(line)
+  ).length
+
+  return referenceLike / lines.length
+}
+
+/**
+ * Whether the lines of a following page still belong to the open bibliography
+ * (very short pages - e.g. the last few entries - are kept)
+ */
+function isReferenceContinuation(lines: string[]): boolean {
+  const nonEmpty = lines.filter(l => l.trim().length > 0).length
+  return nonEmpty < MIN_LINES_FOR_DENSITY || referenceDensity(lines.join('\n')) >= MIN_REFERENCE_DENSITY
+}
+
+function isBibliographyHeading(line: string): boolean {
+  const trimmed = line.trim()
+  return trimmed.length > 0 && trimmed.length <= MAX_HEADING_LENGTH && BIBLIOGRAPHY_HEADING.test(trimmed)
+}
+
+function isSectionEndHeading(line: string): boolean {
+  const trimmed = line.trim()
+  return trimmed.length > 0 && trimmed.length <= MAX_HEADING_LENGTH && SECTION_END_HEADING.test(trimmed)
+}
+
+/**
+ * Locate bibliography sections in a document
+ * Returns an empty array when nothing that looks like a bibliography is found.
+ */
+export function locateBibliography(pages: PageText[]): LocatedBibliography[] {
+  const sections: LocatedBibliography[] = []
+  let current: { heading: string; startPage: number; endPage: number; lines: string[] } | null = null
+
+  const closeCurrent = () => {
+    if (!current) return
+    const text = current.lines.join('\n').trim()
+    const density = referenceDensity(text)
+    if (density >= MIN_REFERENCE_DENSITY) {
+      sections.push({
+        heading: current.heading,
+        startPage: current.startPage,
+        endPage: current.endPage,
+        text,
+      })
+      info(`Bibliography found: "${current.heading}" on pages ${current.startPage}-${current.endPage} (density ${density.toFixed(2)})`)
+    } else {
+      info(`Ignoring "${current.heading}" on page ${current.startPage} - content does not look like references (density ${density.toFixed(2)})`)
+    }
+    current = null
+  }
+
+  for (const { page, text } of pages) {
+    const lines = text.split('\n')
+    let lineIndex = 0
+
+    // Continuation of an open section from the previous page
+    if (current) {
+      const continuesOnThisPage = current.endPage === page - 1
+
+      // Skip a running "References" header at the top of a continuation page
+      const firstContentLine = lines.findIndex(l => l.trim().length > 0)
+      if (continuesOnThisPage && firstContentLine !== -1 && isBibliographyHeading(lines[firstContentLine])) {
+        lineIndex = firstContentLine + 1
+      }
+
+      const endIndex = lines.findIndex((l, i) => i >= lineIndex && isSectionEndHeading(l))
+      const restOfPage = lines.slice(lineIndex, endIndex === -1 ? undefined : endIndex)
+
+      if (!continuesOnThisPage) {
+        closeCurrent()
+      } else if (endIndex !== -1) {
+        // Section ends on this page, before the next heading
+        if (restOfPage.some(l => l.trim().length > 0)) {
+          current.lines.push(...restOfPage)
+          current.endPage = page
+        }
+        closeCurrent()
+        lineIndex = endIndex
+      } else if (isReferenceContinuation(restOfPage)) {
+        current.lines.push(...restOfPage)
+        current.endPage = page
+        continue
+      } else {
+        // Page no longer looks like references - bibliography ended on the previous page
+        closeCurrent()
+      }
+    }
+
+    // Look for new bibliography headings on this page (there can be several)
+    for (let i = lineIndex; i < lines.length; i++) {
+      if (isBibliographyHeading(lines[i])) {
+        closeCurrent()
+        current = { heading: lines[i].trim(), startPage: page, endPage: page, lines: [] }
+      } else if (current && isSectionEndHeading(lines[i])) {
+        closeCurrent()
+      } else if (current) {
+        current.lines.push(lines[i])
+      }
+    }
+  }
+
+  closeCurrent()
+
+  if (sections.length === 0) {
+    warn('No bibliography section detected')
+  }
+
+  return sections
+}
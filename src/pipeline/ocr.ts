@@ -4,6 +4,7 @@
 
 import pdfParse from 'pdf-parse'
 import { createWorker, Worker } from 'tesseract.js'
+import { openPdfForRendering, RasterizedPdf } from './rasterize'
 import { info, warn } from '../utils/logging'
 
 let worker: Worker | null = null
@@ -41,6 +42,28 @@ function normalize(text: string): string {
     .trim()
 }
 
+/**
+ * Render the text layer of a single page (same line-joining as pdf-parse's default)
+ */
+async function renderPageText(pageData: pdfParse.PageData): Promise<string> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false,
+  })
+  
+  let lastY: number | undefined
+  let text = ''
+  for (const item of textContent.items) {
+    if (lastY === item.transform[5] || !lastY) {
+      text += item.str
+    } else {
+      text += '\n' + item.str
+    }
+    lastY = item.transform[5]
+  }
+  return text
+}
+
 /**
  * Check if PDF appears to be scanned (low text density)
  */
@@ -50,16 +73,19 @@ export function isScannedPDF(text: string, minCharsPerLine: number = 50): boolea
 }
 
 /**
- * OCR a page from PDF buffer
+ * OCR a single page: render it to an image, then run Tesseract on the image
  */
-async function ocrPage(pdfBuffer: Buffer, pageNumber: number): Promise<string> {
+async function ocrPage(pdf: RasterizedPdf, pageNumber: number): Promise<string> {
   try {
+    if (pageNumber > pdf.numPages) {
+      warn(`Page ${pageNumber} is out of range (PDF has ${pdf.numPages} pages), skipping OCR`)
+      return ''
+    }
+
     info(`Running OCR on page ${pageNumber}...`)
+    const image = await pdf.renderPage(pageNumber)
     const worker = await getWorker()
-    
-    // For now, OCR the whole PDF buffer
-    // TODO: Extract individual page images for better accuracy
-    const { data } = await worker.recognize(pdfBuffer)
+    const { data } = await worker.recognize(image)
     
     info(`OCR completed for page ${pageNumber}: ${data.text.length} chars`)
     return data.text
@@ -76,37 +102,62 @@ async function ocrPage(pdfBuffer: Buffer, pageNumber: number): Promise<string> {
 export async function extractPdfSmart(pdfBuffer: Buffer): Promise<{ page: number; text: string; isOcr: boolean }[]> {
   info('Starting smart PDF extraction...')
   
-  // Parse PDF with pdf-parse
-  const data = await pdfParse(pdfBuffer)
-  const fullText = data.text || ''
+  // Parse PDF with pdf-parse, collecting text page by page so that each
+  // page can be checked (and OCR'd) on its own
+  const pages: string[] = []
+  await pdfParse(pdfBuffer, {
+    pagerender: async pageData => {
+      const text = await renderPageText(pageData)
+      pages[pageData.pageIndex] = text
+      return text
+    },
+  })
   
-  // Split by form feed character (page break)
-  const pages = fullText.split('\f')
   const results: { page: number; text: string; isOcr: boolean }[] = []
   
   info(`Extracted ${pages.length} pages from PDF`)
   
-  for (let i = 0; i < pages.length; i++) {
-    const pageText = pages[i] || ''
-    const density = charDensity(pageText)
-    
-    info(`Page ${i + 1}: density = ${density.toFixed(2)} chars/line`)
-    
-    // If density is too low, page is likely scanned
-    if (density < 15) {
-      warn(`Page ${i + 1} appears to be scanned (low text density), running OCR...`)
-      const ocrText = await ocrPage(pdfBuffer, i + 1)
-      results.push({
-        page: i + 1,
-        text: normalize(ocrText || pageText),
-        isOcr: true,
-      })
-    } else {
-      results.push({
-        page: i + 1,
-        text: normalize(pageText),
-        isOcr: false,
-      })
+  // Rendered lazily - only needed once a page is flagged for OCR
+  let rasterized: RasterizedPdf | null = null
+  let rasterizeFailed = false
+  
+  try {
+    for (let i = 0; i < pages.length; i++) {
+      const pageText = pages[i] || ''
+      const density = charDensity(pageText)
+      
+      info(`Page ${i + 1}: density = ${density.toFixed(2)} chars/line`)
+      
+      // If density is too low, page is likely scanned
+      if (density < 15) {
+        warn(`Page ${i + 1} appears to be scanned (low text density), running OCR...`)
+        
+        if (!rasterized && !rasterizeFailed) {
+          try {
+            rasterized = await openPdfForRendering(pdfBuffer)
+          } catch (err) {
+            rasterizeFailed = true
+            warn('Could not open PDF for page rendering, OCR disabled for this document:', err)
+          }
+        }
+        
+        const ocrText = rasterized ? await ocrPage(rasterized, i + 1) : ''
+        results.push({
+          page: i + 1,
+          text: normalize(ocrText || pageText),
+          isOcr: ocrText.length > 0,
+        })
+      } else {
+        results.push({
+          page: i + 1,
+          text: normalize(pageText),
+          isOcr: false,
+        })
+      }
+    }
+  } finally {
+    if (rasterized) {
+      await rasterized.destroy()
     }
   }
   
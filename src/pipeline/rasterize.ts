@@ -0,0 +1,88 @@
+/**
+ * PDF page rasterization for OCR
+ * Renders individual PDF pages to PNG images with pdf.js + @napi-rs/canvas
+ */
+
+import path from 'path'
+import { createCanvas } from '@napi-rs/canvas'
+import type { PDFPageProxy } from 'pdfjs-dist'
+import config from '../config'
+import { info } from '../utils/logging'
+
+// PDF user space is 72 units per inch
+const PDF_POINTS_PER_INCH = 72
+
+// pdf.js types its canvas parameters as DOM types, which @napi-rs/canvas implements in Node
+type RenderParameters = Parameters<PDFPageProxy['render']>[0]
+
+export interface RasterizedPdf {
+  numPages: number
+  renderPage(pageNumber: number): Promise<Buffer>
+  destroy(): Promise<void>
+}
+
+/**
+ * Load pdf.js lazily (ESM-only package)
+ */
+async function loadPdfJs() {
+  return await import('pdfjs-dist/legacy/build/pdf.mjs')
+}
+
+/**
+ * Directory with the standard PDF fonts shipped by pdf.js
+ * (needed to render PDFs that reference non-embedded base-14 fonts)
+ */
+function standardFontDir(): string {
+  const pkgDir = path.dirname(require.resolve('pdfjs-dist/package.json'))
+  return path.join(pkgDir, 'standard_fonts') + path.sep
+}
+
+/**
+ * Open a PDF for page-by-page rendering
+ * The document is parsed once and reused for every rendered page.
+ */
+export async function openPdfForRendering(pdfBuffer: Buffer): Promise<RasterizedPdf> {
+  const pdfjs = await loadPdfJs()
+
+  // pdf.js transfers (detaches) the buffer it is given, so hand it a copy
+  const doc = await pdfjs.getDocument({
+    data: new Uint8Array(pdfBuffer),
+    standardFontDataUrl: standardFontDir(),
+    verbosity: 0,
+  }).promise
+
+  const scale = config.OCR_RENDER_DPI / PDF_POINTS_PER_INCH
+
+  return {
+    numPages: doc.numPages,
+
+    async renderPage(pageNumber: number): Promise<Buffer> {
+      const page = await doc.getPage(pageNumber)
+      try {
+        const viewport = page.getViewport({ scale })
+        const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height))
+        const context = canvas.getContext('2d')
+
+        // White background - Tesseract does poorly on transparent pixels
+        context.fillStyle = '#ffffff'
+        context.fillRect(0, 0, canvas.width, canvas.height)
+
+        await page.render({
+          canvas: canvas as unknown as RenderParameters['canvas'],
+          canvasContext: context as unknown as RenderParameters['canvasContext'],
+          viewport,
+        }).promise
+
+        const png = canvas.toBuffer('image/png')
+        info(`Rendered page ${pageNumber} at ${config.OCR_RENDER_DPI} DPI (${canvas.width}x${canvas.height})`)
+        return png
+      } finally {
+        page.cleanup()
+      }
+    },
+
+    async destroy(): Promise<void> {
+      await doc.destroy()
+    },
+  }
+}
@@ -3,9 +3,12 @@
  */
 
 export interface ExtractedReference {
+  id?: string                // Stable master-table ID (assigned when the reference is added)
   citationKey: string        // e.g., "Hill '79", "Wiener '48"
-  firstAuthor: string        // First/primary author
-  otherAuthors: string       // Other authors (comma-separated or empty)
+  firstAuthor: string        // First/primary author (display string of authors[0])
+  otherAuthors: string       // Other authors (semicolon-separated or empty)
+  authors?: Author[]         // Structured list; set on every stored reference, see extraction/authors.ts
+  etAl?: boolean             // Author list was truncated ("et al.")
   title: string
   year: string
   publisherJournal: string   // Publisher or Journal name
@@ -20,15 +23,173 @@ export interface ExtractedReference {
   // Metadata
   referenceRaw: string       // Original text
   confidence: 'high' | 'medium' | 'low'
-  extractionMethod: 'llm'
+  confidenceScore?: number       // 0-1, see extraction/confidence.ts
+  confidenceReasons?: string[]   // Why the score was lowered
+  modelConfidence?: 'high' | 'medium' | 'low'  // The LLM's own rating
+  extractionMethod: 'llm' | 'rule' | 'identifier' | 'import' | 'manual'
+  ruleDisagreements?: string[]  // Fields where the rule-based parser disagrees with the LLM
+  mergedFrom?: MergedSource[]   // Copies folded into this entry by a duplicate merge
+  sources?: ReferenceSource[]   // Every document / job this reference was found in
+}
+
+/**
+ * One author of a reference (a person, or an organisation with `literal`)
+ */
+export interface Author {
+  family: string             // Family name without particle; an organisation's whole name
+  given: string              // "Donald R.", or initials only when that is all the source gives
+  particle?: string          // "van", "de la"
+  suffix?: string            // "Jr.", "III"
+  initials: string           // "D. R."
+  orcid?: string             // "0000-0002-1825-0097"
+  affiliation?: string       // "Massachusetts Institute of Technology (US)"
+  affiliationDetails?: AuthorAffiliation   // Set when enhancement found `affiliation`
+  literal?: boolean          // Organisation: not split into name parts
+}
+
+/**
+ * An author's affiliation as found by enhancement
+ */
+export interface AuthorAffiliation {
+  institution: string        // "Massachusetts Institute of Technology"
+  countryCode?: string       // ISO 3166-1 alpha-2: "US"
+  source: 'semantic-scholar' | 'perplexity' | 'openalex'
+  confidence: 'high' | 'medium' | 'low'
+  foundAt: string            // ISO timestamp
+}
+
+/**
+ * One person (or organisation) of the authors index: the name variants found in a
+ * collection's references that were clustered as the same author
+ */
+export interface AuthorEntity {
+  id: string                 // Derived from the name while clustered automatically; fixed once curated
+  name: string               // Fullest variant: "Wiener, Norbert"
+  author: Author             // Parts of that variant
+  variants: { name: string; references: number }[]   // Distinct spellings, most used first
+  orcid?: string
+  affiliations: string[]
+  references: number         // References naming this author
+  curated: boolean           // Shaped by a manual merge or split
+}
+
+/**
+ * Where a reference was found (one entry per citing document)
+ */
+export interface ReferenceSource {
+  kind: 'pdf' | 'identifier' | 'import'
+  jobId?: string             // Extraction job (imports have none)
+  filename?: string          // Uploaded PDF or imported bibliography file
+  pages?: number[]           // PDF pages the entry is printed on
+  chunk?: number             // LLM chunk (1-based) that returned it
+  span?: { start: number; end: number }  // Character offsets of the entry in the PDF's extracted text
+  referenceRaw?: string      // The entry as printed in this source
+  model?: string             // "openai/gpt-4o-mini", "rule-parser", metadata resolver or import format
+  addedAt?: string           // ISO timestamp
+}
+
+/**
+ * A reference that was merged into another (kept for provenance)
+ */
+export interface MergedSource {
+  citationKey: string
+  firstAuthor: string
+  title: string
+  year: string
+  referenceRaw: string
+  extractionMethod: ExtractedReference['extractionMethod']
+  mergedAt: string           // ISO timestamp
+}
+
+/**
+ * A team's own data on a reference, stored apart from the extracted fields
+ */
+export interface ReferenceAnnotations {
+  tags: string[]             // Lowercase, no commas
+  notes: string              // Free-text annotation
+  readingStatus?: 'to-read' | 'reading' | 'read'
+  rating?: number            // 1-5 stars
+  updatedAt: string          // ISO timestamp
+  updatedBy?: string         // X-User header of the last change, if sent
+}
+
+/**
+ * A named master table (project) with its own references, jobs and history
+ */
+export interface Collection {
+  id: string                 // URL-safe slug, selected with ?collection=
+  name: string
+  description?: string
+  createdAt: string
+}
+
+/**
+ * Who or what made a master-table change
+ */
+export interface ChangeActor {
+  kind: 'extraction' | 'import' | 'enhancement' | 'manual'
+  jobId?: string             // Extraction or enhancement job
+  user?: string              // X-User header of a manual change, if sent
+}
+
+/**
+ * One entry of the master-table change log (append-only)
+ */
+export interface ReferenceChange {
+  changeId: number
+  referenceId: string
+  collection: string
+  changedAt: string          // ISO timestamp
+  actor: ChangeActor
+  action: 'create' | 'update' | 'move' | 'delete'
+  field?: string             // update: the changed field
+  oldValue?: unknown         // update: previous value of the field; move: previous position; delete: the whole reference
+  newValue?: unknown         // update: new value of the field; move: new position; create: the whole reference
+  position?: number          // create / delete: table position
+  reverts?: number           // Change this one undid
+  note?: string              // e.g. "merge", "restore to 2024-05-01T00:00:00.000Z"
+}
+
+export interface BibliographySection {
+  heading: string            // e.g., "References", "Bibliography"
+  startPage: number          // 1-based, inclusive
+  endPage: number            // 1-based, inclusive
+}
+
+export interface LLMUsage {
+  calls: number
+  retries: number
+  inputTokens: number
+  outputTokens: number
+  estimatedCostUsd: number   // Based on LLM_INPUT/OUTPUT_COST_PER_MTOK
+}
+
+export interface RejectedReferenceItem {
+  chunk: number              // 1-based chunk the item came from
+  index: number              // Position in the LLM's "references" array
+  reasons: string[]
+  item: string               // JSON preview of the rejected item
+}
+
+export interface IdentifierFailure {
+  identifier: string         // As supplied
+  reason: string
 }
 
 export interface ExtractionJob {
   jobId: string
-  status: 'processing' | 'completed' | 'failed'
+  status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled'
   progress: number           // 0-100
   totalReferences: number
   extractedReferences: ExtractedReference[]
+  bibliographySections?: BibliographySection[]  // Detected reference sections (empty = full text was used)
+  usage?: LLMUsage           // Token and cost accounting for the job's LLM calls
+  rejectedItems?: RejectedReferenceItem[]  // LLM items that failed schema validation
+  filename?: string          // Uploaded file name ("archive.zip/paper.pdf" for ZIP entries)
+  batchId?: string           // Parent batch when uploaded with other files
+  collection?: string        // Collection the results are added to (missing = default)
+  source?: 'pdf' | 'identifiers'  // Missing on older jobs = pdf
+  identifierFailures?: IdentifierFailure[]  // Identifiers that could not be resolved
   error?: string
   createdAt: string
   completedAt?: string
@@ -37,6 +198,22 @@ export interface ExtractionJob {
 export interface ExtractionRequest {
   pdfBuffer?: Buffer
   filePath?: string
-  dois?: string[]
+  identifiers?: string[]     // DOIs, arXiv IDs, PMIDs and ISBNs
+  filename?: string
+  batchId?: string
+  collection?: string
+}
+
+export interface BatchFile {
+  filename: string
+  jobId?: string             // Missing when the file was rejected at upload
+  error?: string             // Why the file was rejected
+}
+
+export interface ExtractionBatch {
+  batchId: string
+  files: BatchFile[]
+  collection?: string        // Collection of the batch's jobs (missing = default)
+  createdAt: string
 }
 
@@ -8,7 +8,22 @@ declare module 'pdf-parse' {
     version: string
   }
 
-  function pdfParse(data: Buffer, options?: any): Promise<PDFData>
+  namespace pdfParse {
+    // A pdf.js page as handed to `pagerender`
+    interface PageData {
+      pageIndex: number
+      getTextContent(options?: { normalizeWhitespace?: boolean; disableCombineTextItems?: boolean }): Promise<{
+        items: { str: string; transform: number[] }[]
+      }>
+    }
+
+    interface Options {
+      pagerender?: (pageData: PageData) => Promise<string>
+      max?: number
+      version?: string
+    }
+  }
+
+  function pdfParse(data: Buffer, options?: pdfParse.Options): Promise<PDFData>
   export = pdfParse
 }
-
@@ -0,0 +1,74 @@
+/**
+ * Text similarity helpers for comparing references
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'and', 'in', 'on', 'for', 'to', 'with', 'by', 'at', 'from', 'as',
+])
+
+/**
+ * Lowercase, strip accents and punctuation, collapse whitespace
+ */
+export function normalizeForComparison(text: string): string {
+  return (text || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Significant word tokens (stop words removed)
+ */
+export function tokenize(text: string): string[] {
+  return normalizeForComparison(text)
+    .split(' ')
+    .filter(t => t.length > 1 && !STOP_WORDS.has(t))
+}
+
+/**
+ * Jaccard similarity of two token lists (0-1)
+ */
+export function jaccard(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 0
+  const setA = new Set(a)
+  const setB = new Set(b)
+  let intersection = 0
+  setA.forEach(token => {
+    if (setB.has(token)) intersection++
+  })
+  return intersection / (setA.size + setB.size - intersection)
+}
+
+/**
+ * Title similarity based on significant tokens (0-1)
+ */
+export function titleSimilarity(a: string, b: string): number {
+  return jaccard(tokenize(a), tokenize(b))
+}
+
+/**
+ * Best-effort surname of a personal name
+ * Handles "Wiener, N.", "N. Wiener", "Norbert Wiener" and "Banu Musa brothers"
+ */
+export function extractSurname(name: string): string {
+  const trimmed = (name || '').trim()
+  if (!trimmed) return ''
+
+  // Inverted form: "Surname, Given"
+  if (trimmed.includes(',')) {
+    return normalizeForComparison(trimmed.split(',')[0])
+  }
+
+  const parts = normalizeForComparison(trimmed).split(' ').filter(p => p.length > 1)
+  return parts.length > 0 ? parts[parts.length - 1] : ''
+}
+
+/**
+ * Only the digits (and ISBN check character X) of a value, for comparing years, pages, ISBNs
+ */
+export function digitsOnly(value: string): string {
+  return (value || '').toUpperCase().replace(/[^\dX]/g, '')
+}